@@ -0,0 +1,122 @@
+// Service worker for offline incident reporting.
+// Caches the report form shell so it opens without a connection, and wakes
+// open pages through Background Sync when queued reports can be sent.
+// The upload itself runs in the page, which holds the user's Supabase session.
+// No other page is cached: they are rendered for the signed-in user, and the
+// page clears this cache on sign-out.
+
+// Must match OFFLINE_CACHE_NAME / REPLAY_SYNC_TAG / REPLAY_MESSAGE_TYPE in src/lib/offline-reports.ts
+const CACHE_NAME = 'incident-app-shell-v2'
+const REPORT_FORM_PATH = '/report-incident'
+const REPLAY_SYNC_TAG = 'replay-queued-reports'
+const REPLAY_MESSAGE_TYPE = 'REPLAY_QUEUED_REPORTS'
+
+// A signed-out request is redirected to the login page, which must not be
+// cached in place of the form
+const isCacheable = (response) =>
+  response.ok && response.status === 200 && !response.redirected && response.type === 'basic'
+
+const cacheResponse = (request, response) => {
+  if (!isCacheable(response)) return
+  const copy = response.clone()
+  caches.open(CACHE_NAME).then((cache) => cache.put(request, copy))
+}
+
+self.addEventListener('install', (event) => {
+  // The form is protected, so this only caches it when the user is signed in;
+  // otherwise it is cached the next time they open it
+  event.waitUntil(
+    fetch(REPORT_FORM_PATH)
+      .then((response) => cacheResponse(REPORT_FORM_PATH, response))
+      .catch(() => {})
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  // Supabase and other APIs are never cached
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return
+  }
+
+  // Pages: always from the network, with the report form shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (url.pathname === REPORT_FORM_PATH) {
+            cacheResponse(REPORT_FORM_PATH, response)
+          }
+          return response
+        })
+        .catch(() =>
+          caches.match(REPORT_FORM_PATH).then((cached) => cached || Response.error())
+        )
+    )
+    return
+  }
+
+  // Hashed build assets never change, so serve them from cache first
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then((cached) =>
+        cached || fetch(request).then((response) => {
+          cacheResponse(request, response)
+          return response
+        })
+      )
+    )
+  }
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== REPLAY_SYNC_TAG) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: REPLAY_MESSAGE_TYPE }))
+    })
+  )
+})
+
+// Web push from POST /api/notifications/dispatch (src/lib/notifications.ts)
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {}
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Incident Reporting App', {
+      body: data.body || undefined,
+      tag: data.reportId || undefined,
+      data: { url: data.reportId ? `/reports/${data.reportId}` : '/' }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => 'focus' in candidate)
+      if (client) {
+        client.navigate(url)
+        return client.focus()
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+// Local stand-in for an SMTP server. Accepts every message and prints it
+// instead of delivering it, so notification emails can be checked in
+// development without a mail provider. Run with `npm run mail:dev`.
+import { createServer } from 'node:net'
+
+const PORT = Number(process.env.DEV_SMTP_PORT ?? 1025)
+
+const server = createServer((socket) => {
+  let buffer = ''
+  let readingData = false
+  let envelope = { from: null, to: [] }
+
+  const reply = (line) => socket.write(`${line}\r\n`)
+
+  const printMessage = (data) => {
+    console.log('─'.repeat(72))
+    console.log(`From: ${envelope.from}`)
+    console.log(`To:   ${envelope.to.join(', ')}`)
+    console.log('')
+    // Undo dot-stuffing from the DATA phase
+    console.log(data.replace(/^\.\./gm, '.'))
+  }
+
+  const handleCommand = (line) => {
+    const command = line.slice(0, 4).toUpperCase()
+
+    switch (command) {
+      case 'HELO':
+      case 'EHLO':
+        reply('250 localhost')
+        break
+      case 'MAIL':
+        envelope = { from: line.slice(line.indexOf(':') + 1).trim(), to: [] }
+        reply('250 OK')
+        break
+      case 'RCPT':
+        envelope.to.push(line.slice(line.indexOf(':') + 1).trim())
+        reply('250 OK')
+        break
+      case 'DATA':
+        readingData = true
+        reply('354 End data with <CR><LF>.<CR><LF>')
+        break
+      case 'RSET':
+        envelope = { from: null, to: [] }
+        reply('250 OK')
+        break
+      case 'NOOP':
+        reply('250 OK')
+        break
+      case 'QUIT':
+        reply('221 Bye')
+        socket.end()
+        break
+      default:
+        reply('502 Command not implemented')
+    }
+  }
+
+  socket.setEncoding('utf8')
+  reply('220 localhost dev SMTP server')
+
+  socket.on('data', (chunk) => {
+    buffer += chunk
+
+    while (buffer.length > 0) {
+      if (readingData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end === -1) return
+
+        printMessage(buffer.slice(0, end))
+        buffer = buffer.slice(end + '\r\n.\r\n'.length)
+        readingData = false
+        reply('250 OK: message accepted')
+        continue
+      }
+
+      const newline = buffer.indexOf('\r\n')
+      if (newline === -1) return
+
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+      handleCommand(line)
+    }
+  })
+
+  socket.on('error', (error) => console.error('SMTP connection error:', error.message))
+})
+
+server.listen(PORT, () => {
+  console.log(`Dev SMTP server listening on smtp://localhost:${PORT}`)
+})
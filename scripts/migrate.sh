@@ -0,0 +1,23 @@
+#!/usr/bin/env bash
+# Apply pending migrations from scripts/migrations in version order.
+# Each migration runs in its own transaction together with its version record.
+set -euo pipefail
+
+: "${DATABASE_URL:?Set DATABASE_URL to the Postgres connection string}"
+
+cd "$(dirname "$0")/migrations"
+
+psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -q -c \
+  "CREATE TABLE IF NOT EXISTS schema_migrations (version TEXT PRIMARY KEY, applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW())"
+
+for file in [0-9][0-9][0-9][0-9]-*.sql; do
+  version="${file%%-*}"
+  applied=$(psql "$DATABASE_URL" -tAq -c "SELECT 1 FROM schema_migrations WHERE version = '$version'")
+
+  if [ -z "$applied" ]; then
+    echo "Applying $file"
+    psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -q --single-transaction \
+      -f "$file" \
+      -c "INSERT INTO schema_migrations (version) VALUES ('$version')"
+  fi
+done
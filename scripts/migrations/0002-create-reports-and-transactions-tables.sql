@@ -0,0 +1,103 @@
+-- Create the reports table
+CREATE TABLE IF NOT EXISTS reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  location_string TEXT,
+  description TEXT NOT NULL,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  address TEXT,
+  photo_urls TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'in_progress', 'resolved', 'closed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reports_profile_id_idx ON reports (profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_status_idx ON reports (status, created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_created_at_idx ON reports (created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_coordinates_idx ON reports (latitude, longitude);
+
+-- Create the transactions table (contributions made with a report)
+CREATE TABLE IF NOT EXISTS transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id TEXT NOT NULL UNIQUE,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  name TEXT NOT NULL,
+  account TEXT NOT NULL,
+  transaction_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  transaction_time TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transactions_report_id_idx ON transactions (report_id);
+CREATE INDEX IF NOT EXISTS transactions_created_at_idx ON transactions (created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+-- Reports are public so anyone can browse what has been reported nearby
+DROP POLICY IF EXISTS "Reports are viewable by everyone" ON reports;
+CREATE POLICY "Reports are viewable by everyone" ON reports
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Users can create their own reports" ON reports;
+CREATE POLICY "Users can create their own reports" ON reports
+  FOR INSERT WITH CHECK (auth.uid() = profile_id);
+
+DROP POLICY IF EXISTS "Users can update their own reports" ON reports;
+CREATE POLICY "Users can update their own reports" ON reports
+  FOR UPDATE USING (auth.uid() = profile_id);
+
+DROP POLICY IF EXISTS "Reporters can view transactions for their reports" ON transactions;
+CREATE POLICY "Reporters can view transactions for their reports" ON transactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = transactions.report_id
+        AND r.profile_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Reporters can add transactions to their reports" ON transactions;
+CREATE POLICY "Reporters can add transactions to their reports" ON transactions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = transactions.report_id
+        AND r.profile_id = auth.uid()
+    )
+  );
+
+-- Public bucket for report photos, stored under `${profile.id}/`
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('report-images', 'report-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Report images are viewable by everyone" ON storage.objects;
+CREATE POLICY "Report images are viewable by everyone" ON storage.objects
+  FOR SELECT USING (bucket_id = 'report-images');
+
+DROP POLICY IF EXISTS "Users can upload report images to their own folder" ON storage.objects;
+CREATE POLICY "Users can upload report images to their own folder" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'report-images'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can update report images in their own folder" ON storage.objects;
+CREATE POLICY "Users can update report images in their own folder" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'report-images'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can delete report images in their own folder" ON storage.objects;
+CREATE POLICY "Users can delete report images in their own folder" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'report-images'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
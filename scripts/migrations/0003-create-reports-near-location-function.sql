@@ -0,0 +1,74 @@
+-- Enable PostGIS for true geodesic distance queries
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Keep a geography point in sync with the latitude/longitude columns
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    END
+  ) STORED;
+
+-- Spatial index used by the radius search below
+CREATE INDEX IF NOT EXISTS reports_location_idx ON reports USING GIST (location);
+
+-- Find reports within a radius of a point, nearest first
+CREATE OR REPLACE FUNCTION reports_near_location(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 5,
+  status_filter TEXT DEFAULT NULL,
+  page_limit INTEGER DEFAULT NULL,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_urls TEXT[],
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(search_longitude, search_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.profile_id,
+    r.location_string,
+    r.description,
+    r.latitude::DOUBLE PRECISION,
+    r.longitude::DOUBLE PRECISION,
+    r.address,
+    r.photo_urls,
+    r.status,
+    r.created_at,
+    r.updated_at,
+    ST_Distance(r.location, origin.point) / 1000 AS distance_km,
+    p.name AS reporter_name
+  FROM reports r
+  CROSS JOIN origin
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE r.location IS NOT NULL
+    AND ST_DWithin(r.location, origin.point, radius_km * 1000)
+    AND (status_filter IS NULL OR r.status = status_filter)
+  ORDER BY distance_km ASC, r.created_at DESC
+  LIMIT page_limit
+  OFFSET page_offset;
+$$;
+
+-- Allow the API roles to call the search
+GRANT EXECUTE ON FUNCTION reports_near_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,117 @@
+-- Track which contractor is working on a report
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS assigned_contractor_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- Create the job bids table
+CREATE TABLE IF NOT EXISTS job_bids (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE NOT NULL,
+  contractor_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  price NUMERIC(12, 2) NOT NULL CHECK (price > 0),
+  eta_days INTEGER NOT NULL CHECK (eta_days > 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'withdrawn')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (report_id, contractor_id)
+);
+
+CREATE INDEX IF NOT EXISTS job_bids_report_id_idx ON job_bids (report_id);
+CREATE INDEX IF NOT EXISTS job_bids_contractor_id_idx ON job_bids (contractor_id);
+
+-- Enable Row Level Security
+ALTER TABLE job_bids ENABLE ROW LEVEL SECURITY;
+
+-- Contractors can see their own bids
+CREATE POLICY "Contractors can view their own bids" ON job_bids
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+-- Citizens can see the bids placed on their reports
+CREATE POLICY "Report owners can view bids on their reports" ON job_bids
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reports
+      WHERE reports.id = job_bids.report_id
+        AND reports.profile_id = auth.uid()
+    )
+  );
+
+-- Contractors can bid on pending reports they did not file
+CREATE POLICY "Contractors can bid on pending reports" ON job_bids
+  FOR INSERT WITH CHECK (
+    auth.uid() = contractor_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role = 'Contractor'
+    )
+    AND EXISTS (
+      SELECT 1 FROM reports
+      WHERE reports.id = job_bids.report_id
+        AND reports.status = 'pending'
+        AND reports.profile_id <> auth.uid()
+    )
+  );
+
+-- Contractors can withdraw their own pending bids
+CREATE POLICY "Contractors can withdraw their own bids" ON job_bids
+  FOR UPDATE USING (auth.uid() = contractor_id AND status = 'pending')
+  WITH CHECK (status = 'withdrawn');
+
+-- Accept a bid: the report owner picks one contractor, the rest are rejected
+CREATE OR REPLACE FUNCTION accept_job_bid(bid_id UUID)
+RETURNS job_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bid job_bids;
+  report reports;
+BEGIN
+  SELECT * INTO bid FROM job_bids WHERE id = bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  SELECT * INTO report FROM reports WHERE id = bid.report_id FOR UPDATE;
+
+  IF report.profile_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the reporter can accept bids on this report';
+  END IF;
+
+  IF report.status <> 'pending' THEN
+    RAISE EXCEPTION 'This report is no longer open for bids';
+  END IF;
+
+  IF bid.status <> 'pending' THEN
+    RAISE EXCEPTION 'This bid can no longer be accepted';
+  END IF;
+
+  UPDATE job_bids
+  SET status = 'rejected', updated_at = NOW()
+  WHERE report_id = bid.report_id
+    AND id <> bid.id
+    AND status = 'pending';
+
+  UPDATE job_bids
+  SET status = 'accepted', updated_at = NOW()
+  WHERE id = bid.id
+  RETURNING * INTO bid;
+
+  UPDATE reports
+  SET status = 'in_progress',
+      assigned_contractor_id = bid.contractor_id,
+      updated_at = NOW()
+  WHERE id = bid.report_id;
+
+  RETURN bid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_job_bid(UUID) TO authenticated;
+
+-- Let citizens see who is bidding on their reports
+CREATE POLICY "Contractor profiles are viewable by signed-in users" ON profiles
+  FOR SELECT USING (auth.role() = 'authenticated' AND role = 'Contractor');
@@ -0,0 +1,182 @@
+-- Create the job assignments table (one per report, created when a bid is accepted)
+CREATE TABLE IF NOT EXISTS job_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  contractor_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  bid_id UUID REFERENCES job_bids(id) ON DELETE SET NULL,
+  agreed_price NUMERIC(12, 2) NOT NULL CHECK (agreed_price >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS job_assignments_contractor_id_idx ON job_assignments (contractor_id, assigned_at);
+
+-- Create the contractor reviews table (one per assignment, left by the reporter)
+CREATE TABLE IF NOT EXISTS contractor_reviews (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID REFERENCES job_assignments(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE NOT NULL,
+  contractor_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  reviewer_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS contractor_reviews_contractor_id_idx ON contractor_reviews (contractor_id, created_at);
+
+-- Create the contractor payments table (payouts for completed assignments)
+CREATE TABLE IF NOT EXISTS contractor_payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID REFERENCES job_assignments(id) ON DELETE CASCADE NOT NULL,
+  contractor_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS contractor_payments_contractor_id_idx ON contractor_payments (contractor_id, paid_at);
+
+-- Enable Row Level Security
+ALTER TABLE job_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contractor_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contractor_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contractors can view their own assignments" ON job_assignments
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+CREATE POLICY "Report owners can view assignments on their reports" ON job_assignments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reports
+      WHERE reports.id = job_assignments.report_id
+        AND reports.profile_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reviews are viewable by everyone" ON contractor_reviews
+  FOR SELECT USING (true);
+
+CREATE POLICY "Contractors can view their own payments" ON contractor_payments
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+-- Record an assignment whenever a bid is accepted
+CREATE OR REPLACE FUNCTION accept_job_bid(bid_id UUID)
+RETURNS job_bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bid job_bids;
+  report reports;
+BEGIN
+  SELECT * INTO bid FROM job_bids WHERE id = bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found';
+  END IF;
+
+  SELECT * INTO report FROM reports WHERE id = bid.report_id FOR UPDATE;
+
+  IF report.profile_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the reporter can accept bids on this report';
+  END IF;
+
+  IF report.status <> 'pending' THEN
+    RAISE EXCEPTION 'This report is no longer open for bids';
+  END IF;
+
+  IF bid.status <> 'pending' THEN
+    RAISE EXCEPTION 'This bid can no longer be accepted';
+  END IF;
+
+  UPDATE job_bids
+  SET status = 'rejected', updated_at = NOW()
+  WHERE report_id = bid.report_id
+    AND id <> bid.id
+    AND status = 'pending';
+
+  UPDATE job_bids
+  SET status = 'accepted', updated_at = NOW()
+  WHERE id = bid.id
+  RETURNING * INTO bid;
+
+  UPDATE reports
+  SET status = 'in_progress',
+      assigned_contractor_id = bid.contractor_id,
+      updated_at = NOW()
+  WHERE id = bid.report_id;
+
+  INSERT INTO job_assignments (report_id, contractor_id, bid_id, agreed_price)
+  VALUES (bid.report_id, bid.contractor_id, bid.id, bid.price)
+  ON CONFLICT (report_id) DO UPDATE
+  SET contractor_id = EXCLUDED.contractor_id,
+      bid_id = EXCLUDED.bid_id,
+      agreed_price = EXCLUDED.agreed_price,
+      status = 'active',
+      assigned_at = NOW(),
+      completed_at = NULL;
+
+  RETURN bid;
+END;
+$$;
+
+-- Backfill assignments for bids accepted before this migration
+INSERT INTO job_assignments (report_id, contractor_id, bid_id, agreed_price, assigned_at)
+SELECT job_bids.report_id, job_bids.contractor_id, job_bids.id, job_bids.price, job_bids.updated_at
+FROM job_bids
+WHERE job_bids.status = 'accepted'
+ON CONFLICT (report_id) DO NOTHING;
+
+-- Aggregate a contractor's statistics, optionally limited to activity since a point in time
+CREATE OR REPLACE FUNCTION get_contractor_stats(
+  target_contractor_id UUID,
+  since TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  jobs_assigned BIGINT,
+  jobs_completed BIGINT,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  total_income NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    (
+      SELECT COUNT(*) FROM job_assignments a
+      WHERE a.contractor_id = target_contractor_id
+        AND a.status <> 'cancelled'
+        AND (since IS NULL OR a.assigned_at >= since)
+    ) AS jobs_assigned,
+    (
+      SELECT COUNT(*) FROM job_assignments a
+      WHERE a.contractor_id = target_contractor_id
+        AND a.status = 'completed'
+        AND (since IS NULL OR a.completed_at >= since)
+    ) AS jobs_completed,
+    (
+      SELECT ROUND(AVG(r.rating)::NUMERIC, 2) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+        AND (since IS NULL OR r.created_at >= since)
+    ) AS average_rating,
+    (
+      SELECT COUNT(*) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+        AND (since IS NULL OR r.created_at >= since)
+    ) AS review_count,
+    (
+      SELECT COALESCE(SUM(p.amount), 0) FROM contractor_payments p
+      JOIN job_assignments a ON a.id = p.assignment_id
+      WHERE p.contractor_id = target_contractor_id
+        AND p.status = 'paid'
+        AND a.status = 'completed'
+        AND (since IS NULL OR p.paid_at >= since)
+    ) AS total_income;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contractor_stats(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
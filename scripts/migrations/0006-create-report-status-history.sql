@@ -0,0 +1,183 @@
+-- Create the report status history table
+CREATE TABLE IF NOT EXISTS report_status_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS report_status_history_report_id_idx ON report_status_history (report_id, created_at);
+
+-- Enable Row Level Security (rows are only written by the triggers below)
+ALTER TABLE report_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Status history is viewable by everyone" ON report_status_history
+  FOR SELECT USING (true);
+
+-- The state machine: who may move a report from which status to which.
+-- Mirrored in src/lib/supabase-report-status.ts for the UI.
+CREATE OR REPLACE FUNCTION can_transition_report_status(
+  report reports,
+  next_status TEXT,
+  next_contractor_id UUID,
+  actor_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    -- Reporter accepts a bid, which assigns a contractor
+    WHEN report.status = 'pending' AND next_status = 'in_progress'
+      THEN actor_id = report.profile_id AND next_contractor_id IS NOT NULL
+    -- Reporter withdraws a report nobody is working on
+    WHEN report.status = 'pending' AND next_status = 'closed'
+      THEN actor_id = report.profile_id
+    -- Assigned contractor finishes the work
+    WHEN report.status = 'in_progress' AND next_status = 'resolved'
+      THEN actor_id = report.assigned_contractor_id
+    -- Assigned contractor gives the job back
+    WHEN report.status = 'in_progress' AND next_status = 'pending'
+      THEN actor_id = report.assigned_contractor_id
+    -- Reporter confirms the fix
+    WHEN report.status = 'resolved' AND next_status = 'closed'
+      THEN actor_id = report.profile_id
+    -- Reporter is not satisfied and reopens the job
+    WHEN report.status = 'resolved' AND next_status = 'in_progress'
+      THEN actor_id = report.profile_id
+    ELSE FALSE
+  END;
+$$;
+
+-- Reject status changes the state machine does not allow.
+-- Requests without a user (service role, SQL editor) are trusted.
+CREATE OR REPLACE FUNCTION enforce_report_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND auth.uid() IS NOT NULL
+    AND NOT can_transition_report_status(OLD, NEW.status, NEW.assigned_contractor_id, auth.uid())
+  THEN
+    RAISE EXCEPTION 'You cannot move this report from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_report_status_transition ON reports;
+CREATE TRIGGER enforce_report_status_transition
+  BEFORE UPDATE OF status ON reports
+  FOR EACH ROW EXECUTE FUNCTION enforce_report_status_transition();
+
+-- Record every status change and keep the job assignment in step
+CREATE OR REPLACE FUNCTION record_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment job_assignments;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO report_status_history (report_id, from_status, to_status, actor_id)
+    VALUES (NEW.id, NULL, NEW.status, NEW.profile_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO report_status_history (report_id, from_status, to_status, actor_id, note)
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.status_note', true), '')
+  );
+
+  SELECT * INTO assignment FROM job_assignments WHERE report_id = NEW.id;
+  IF FOUND THEN
+    IF NEW.status = 'resolved' THEN
+      UPDATE job_assignments
+      SET status = 'completed', completed_at = NOW()
+      WHERE id = assignment.id;
+
+      INSERT INTO contractor_payments (assignment_id, contractor_id, amount)
+      VALUES (assignment.id, assignment.contractor_id, assignment.agreed_price);
+    ELSIF OLD.status = 'resolved' AND NEW.status = 'in_progress' THEN
+      UPDATE job_assignments
+      SET status = 'active', completed_at = NULL
+      WHERE id = assignment.id;
+
+      DELETE FROM contractor_payments
+      WHERE assignment_id = assignment.id AND status = 'pending';
+    ELSIF NEW.status = 'pending' THEN
+      UPDATE job_assignments
+      SET status = 'cancelled'
+      WHERE id = assignment.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_report_status_change ON reports;
+CREATE TRIGGER record_report_status_change
+  AFTER INSERT OR UPDATE OF status ON reports
+  FOR EACH ROW EXECUTE FUNCTION record_report_status_change();
+
+-- Backfill a starting entry for reports filed before this migration
+INSERT INTO report_status_history (report_id, from_status, to_status, actor_id, created_at)
+SELECT r.id, NULL, r.status, r.profile_id, r.created_at
+FROM reports r
+WHERE NOT EXISTS (
+  SELECT 1 FROM report_status_history h WHERE h.report_id = r.id
+);
+
+-- Move a report to a new status with an optional note for the timeline
+CREATE OR REPLACE FUNCTION transition_report_status(
+  target_report_id UUID,
+  next_status TEXT,
+  note TEXT DEFAULT NULL
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+BEGIN
+  SELECT * INTO report FROM reports WHERE id = target_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF report.status = 'pending' AND next_status = 'in_progress' THEN
+    RAISE EXCEPTION 'Accept a contractor bid to start work on this report';
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE reports
+  SET status = next_status,
+      assigned_contractor_id = CASE WHEN next_status = 'pending' THEN NULL ELSE assigned_contractor_id END,
+      updated_at = NOW()
+  WHERE id = target_report_id
+  RETURNING * INTO report;
+
+  RETURN report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_report_status(UUID, TEXT, TEXT) TO authenticated;
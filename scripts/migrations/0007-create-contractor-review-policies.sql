@@ -0,0 +1,53 @@
+-- Optional "after" photos attached to a review
+ALTER TABLE contractor_reviews
+  ADD COLUMN IF NOT EXISTS photo_urls TEXT[];
+
+-- Reporters can review the contractor assigned to their resolved report, once
+CREATE POLICY "Reporters can review their resolved reports" ON contractor_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = reviewer_id
+    AND EXISTS (
+      SELECT 1 FROM reports
+      JOIN job_assignments ON job_assignments.report_id = reports.id
+      WHERE reports.id = contractor_reviews.report_id
+        AND reports.profile_id = auth.uid()
+        AND reports.status IN ('resolved', 'closed')
+        AND job_assignments.id = contractor_reviews.assignment_id
+        AND job_assignments.contractor_id = contractor_reviews.contractor_id
+    )
+  );
+
+-- Contractor profiles are public so their review page can be shared
+DROP POLICY IF EXISTS "Contractor profiles are viewable by signed-in users" ON profiles;
+CREATE POLICY "Contractor profiles are viewable by everyone" ON profiles
+  FOR SELECT USING (role = 'Contractor');
+
+-- Public summary for a contractor's profile page (no income figures)
+CREATE OR REPLACE FUNCTION get_contractor_public_summary(target_contractor_id UUID)
+RETURNS TABLE (
+  jobs_completed BIGINT,
+  average_rating NUMERIC,
+  review_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COUNT(*) FROM job_assignments a
+      WHERE a.contractor_id = target_contractor_id
+        AND a.status = 'completed'
+    ) AS jobs_completed,
+    (
+      SELECT ROUND(AVG(r.rating)::NUMERIC, 2) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+    ) AS average_rating,
+    (
+      SELECT COUNT(*) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+    ) AS review_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contractor_public_summary(UUID) TO anon, authenticated;
@@ -0,0 +1,138 @@
+-- Trigram similarity for matching report descriptions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Number of people who +1'd a report instead of filing a duplicate
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS upvote_count INTEGER NOT NULL DEFAULT 0;
+
+-- Citizens following (and upvoting) someone else's report
+CREATE TABLE IF NOT EXISTS report_followers (
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (report_id, profile_id)
+);
+
+CREATE INDEX IF NOT EXISTS report_followers_profile_id_idx ON report_followers (profile_id);
+
+-- Enable Row Level Security
+ALTER TABLE report_followers ENABLE ROW LEVEL SECURITY;
+
+-- Followers see their own follows; reporters see who follows their report
+CREATE POLICY "Users can view their follows and followers of their reports" ON report_followers
+  FOR SELECT USING (
+    auth.uid() = profile_id
+    OR EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = report_followers.report_id
+        AND r.profile_id = auth.uid()
+    )
+  );
+
+-- Anyone signed in can follow an open report they did not file
+CREATE POLICY "Users can follow other people's open reports" ON report_followers
+  FOR INSERT WITH CHECK (
+    auth.uid() = profile_id
+    AND EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = report_followers.report_id
+        AND r.profile_id <> auth.uid()
+        AND r.status IN ('pending', 'in_progress')
+    )
+  );
+
+CREATE POLICY "Users can unfollow reports" ON report_followers
+  FOR DELETE USING (auth.uid() = profile_id);
+
+-- Keep reports.upvote_count equal to the number of followers.
+-- Runs as the owner because followers cannot update other people's reports.
+CREATE OR REPLACE FUNCTION update_report_upvote_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE reports SET upvote_count = upvote_count + 1 WHERE id = NEW.report_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE reports SET upvote_count = GREATEST(upvote_count - 1, 0) WHERE id = OLD.report_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_report_upvote_count ON report_followers;
+CREATE TRIGGER update_report_upvote_count
+  AFTER INSERT OR DELETE ON report_followers
+  FOR EACH ROW EXECUTE FUNCTION update_report_upvote_count();
+
+-- Backfill counts for any follows created before the trigger existed
+UPDATE reports r
+SET upvote_count = counts.total
+FROM (
+  SELECT report_id, COUNT(*)::INTEGER AS total
+  FROM report_followers
+  GROUP BY report_id
+) counts
+WHERE counts.report_id = r.id;
+
+-- Open reports near a point that are likely the same issue,
+-- most similar description first. Builds on reports_near_location.
+CREATE OR REPLACE FUNCTION find_similar_reports(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  search_description TEXT DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT 0.2,
+  max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_urls TEXT[],
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT,
+  upvote_count INTEGER,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    n.id,
+    n.profile_id,
+    n.location_string,
+    n.description,
+    n.latitude,
+    n.longitude,
+    n.address,
+    n.photo_urls,
+    n.status,
+    n.created_at,
+    n.updated_at,
+    n.distance_km,
+    n.reporter_name,
+    r.upvote_count,
+    CASE
+      WHEN COALESCE(search_description, '') = '' THEN 0
+      ELSE similarity(n.description, search_description)
+    END AS similarity
+  FROM reports_near_location(search_latitude, search_longitude, radius_km) n
+  JOIN reports r ON r.id = n.id
+  WHERE n.status IN ('pending', 'in_progress')
+  ORDER BY similarity DESC, n.distance_km ASC
+  LIMIT max_results;
+$$;
+
+-- Allow the API roles to call the search
+GRANT EXECUTE ON FUNCTION find_similar_reports(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
@@ -0,0 +1,146 @@
+-- Structured category and severity on every report.
+-- Must stay in sync with src/lib/report-categories.ts
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN (
+      'pothole', 'streetlight', 'drainage', 'garbage', 'signage',
+      'sidewalk', 'water_leak', 'vandalism', 'other'
+    )),
+  ADD COLUMN IF NOT EXISTS severity TEXT NOT NULL DEFAULT 'medium'
+    CHECK (severity IN ('low', 'medium', 'high', 'critical'));
+
+CREATE INDEX IF NOT EXISTS reports_category_idx ON reports (category);
+CREATE INDEX IF NOT EXISTS reports_severity_idx ON reports (severity);
+
+-- Recreate the radius search with category/severity filters and columns.
+-- The return type changes, so the old function has to be dropped first.
+DROP FUNCTION IF EXISTS reports_near_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION reports_near_location(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 5,
+  status_filter TEXT DEFAULT NULL,
+  page_limit INTEGER DEFAULT NULL,
+  page_offset INTEGER DEFAULT 0,
+  category_filter TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_urls TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(search_longitude, search_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.profile_id,
+    r.location_string,
+    r.description,
+    r.latitude::DOUBLE PRECISION,
+    r.longitude::DOUBLE PRECISION,
+    r.address,
+    r.photo_urls,
+    r.status,
+    r.category,
+    r.severity,
+    r.created_at,
+    r.updated_at,
+    ST_Distance(r.location, origin.point) / 1000 AS distance_km,
+    p.name AS reporter_name
+  FROM reports r
+  CROSS JOIN origin
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE r.location IS NOT NULL
+    AND ST_DWithin(r.location, origin.point, radius_km * 1000)
+    AND (status_filter IS NULL OR r.status = status_filter)
+    AND (category_filter IS NULL OR r.category = category_filter)
+    AND (severity_filter IS NULL OR r.severity = severity_filter)
+  ORDER BY distance_km ASC, r.created_at DESC
+  LIMIT page_limit
+  OFFSET page_offset;
+$$;
+
+-- Allow the API roles to call the search
+GRANT EXECUTE ON FUNCTION reports_near_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER, TEXT, TEXT) TO anon, authenticated;
+
+-- Duplicate search returns the new columns too
+DROP FUNCTION IF EXISTS find_similar_reports(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER);
+
+CREATE OR REPLACE FUNCTION find_similar_reports(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  search_description TEXT DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT 0.2,
+  max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_urls TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT,
+  upvote_count INTEGER,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    n.id,
+    n.profile_id,
+    n.location_string,
+    n.description,
+    n.latitude,
+    n.longitude,
+    n.address,
+    n.photo_urls,
+    n.status,
+    n.category,
+    n.severity,
+    n.created_at,
+    n.updated_at,
+    n.distance_km,
+    n.reporter_name,
+    r.upvote_count,
+    CASE
+      WHEN COALESCE(search_description, '') = '' THEN 0
+      ELSE similarity(n.description, search_description)
+    END AS similarity
+  FROM reports_near_location(search_latitude, search_longitude, radius_km) n
+  JOIN reports r ON r.id = n.id
+  WHERE n.status IN ('pending', 'in_progress')
+  ORDER BY similarity DESC, n.distance_km ASC
+  LIMIT max_results;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_similar_reports(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
@@ -0,0 +1,38 @@
+-- Track transactions through a payment provider instead of trusting
+-- whatever the reporter typed into the form
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'usd',
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  ADD COLUMN IF NOT EXISTS provider_intent_id TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Payer name and account now come from the provider's webhook
+ALTER TABLE transactions
+  ALTER COLUMN name DROP NOT NULL,
+  ALTER COLUMN account DROP NOT NULL,
+  ALTER COLUMN transaction_verified SET DEFAULT FALSE;
+
+-- Self-declared transactions were never checked by anyone.
+-- They stay pending so the reporter can pay them through checkout.
+UPDATE transactions
+SET transaction_verified = FALSE
+WHERE provider IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+-- Only the server (service role) creates or verifies transactions
+REVOKE INSERT, UPDATE, DELETE ON transactions FROM anon, authenticated;
+DROP POLICY IF EXISTS "Reporters can add transactions to their reports" ON transactions;
+
+DROP POLICY IF EXISTS "Reporters can view transactions for their reports" ON transactions;
+CREATE POLICY "Reporters can view transactions for their reports" ON transactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = transactions.report_id
+        AND r.profile_id = auth.uid()
+    )
+  );
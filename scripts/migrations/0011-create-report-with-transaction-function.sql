@@ -0,0 +1,135 @@
+-- Metadata for each uploaded report photo; reports.photo_urls is kept for existing readers
+CREATE TABLE IF NOT EXISTS report_photos (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  public_url TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (report_id, position)
+);
+
+-- Enable Row Level Security
+ALTER TABLE report_photos ENABLE ROW LEVEL SECURITY;
+
+-- Photos are as visible as the report they belong to
+CREATE POLICY "Report photos are viewable with their report" ON report_photos
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM reports r
+      WHERE r.id = report_photos.report_id
+    )
+  );
+
+-- Create a report, its photo metadata and its pending contribution in one
+-- database transaction, so a failure leaves nothing half-written.
+-- Runs as the owner because clients cannot insert into transactions directly;
+-- the reporter is always the calling user and the contribution always starts
+-- unverified (only the payment webhook verifies it).
+-- Calling it again with the same report id returns the original record,
+-- which makes replayed offline submissions safe.
+CREATE OR REPLACE FUNCTION create_report_with_transaction(
+  new_report_id UUID,
+  new_location_string TEXT,
+  new_description TEXT,
+  new_category TEXT,
+  new_severity TEXT,
+  new_latitude DOUBLE PRECISION,
+  new_longitude DOUBLE PRECISION,
+  new_address TEXT,
+  new_contribution_amount NUMERIC,
+  new_photos JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reporter_id UUID := auth.uid();
+  created_report reports;
+BEGIN
+  IF reporter_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report an incident';
+  END IF;
+
+  IF new_contribution_amount IS NULL OR new_contribution_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution amount must be greater than 0';
+  END IF;
+
+  SELECT * INTO created_report FROM reports WHERE id = new_report_id;
+
+  IF FOUND THEN
+    IF created_report.profile_id <> reporter_id THEN
+      RAISE EXCEPTION 'Report % already exists', new_report_id;
+    END IF;
+  ELSE
+    INSERT INTO reports (
+      id, profile_id, location_string, description, category, severity,
+      latitude, longitude, address, photo_urls, status
+    )
+    VALUES (
+      new_report_id,
+      reporter_id,
+      new_location_string,
+      new_description,
+      new_category,
+      new_severity,
+      new_latitude,
+      new_longitude,
+      new_address,
+      ARRAY(
+        SELECT photo->>'public_url'
+        FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position)
+        ORDER BY position
+      ),
+      'pending'
+    )
+    RETURNING * INTO created_report;
+
+    INSERT INTO report_photos (report_id, storage_path, public_url, content_type, size_bytes, position)
+    SELECT
+      created_report.id,
+      photo->>'storage_path',
+      photo->>'public_url',
+      photo->>'content_type',
+      (photo->>'size_bytes')::BIGINT,
+      position - 1
+    FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position);
+
+    INSERT INTO transactions (
+      transaction_id, report_id, amount, currency, status, transaction_verified, transaction_time
+    )
+    VALUES (
+      'TXN-' || UPPER(gen_random_uuid()::TEXT),
+      created_report.id,
+      ROUND(new_contribution_amount, 2),
+      'usd',
+      'pending',
+      FALSE,
+      NOW()
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'report', to_jsonb(created_report) - 'location',
+    'photos', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ph) ORDER BY ph.position) FROM report_photos ph WHERE ph.report_id = created_report.id),
+      '[]'::JSONB
+    ),
+    'transaction', (
+      SELECT to_jsonb(t)
+      FROM transactions t
+      WHERE t.report_id = created_report.id
+      ORDER BY t.created_at ASC
+      LIMIT 1
+    )
+  );
+END;
+$$;
+
+-- Only signed-in users can create reports through the function
+REVOKE EXECUTE ON FUNCTION create_report_with_transaction(UUID, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, NUMERIC, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_report_with_transaction(UUID, TEXT, TEXT, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, NUMERIC, JSONB) TO authenticated;
@@ -0,0 +1,72 @@
+-- New reports always start out pending, unassigned and without upvotes
+DROP POLICY IF EXISTS "Users can create their own reports" ON reports;
+CREATE POLICY "Users can create their own reports" ON reports
+  FOR INSERT WITH CHECK (
+    auth.uid() = profile_id
+    AND status = 'pending'
+    AND assigned_contractor_id IS NULL
+    AND upvote_count = 0
+  );
+
+-- Citizens can only edit their own reports
+DROP POLICY IF EXISTS "Users can update their own reports" ON reports;
+CREATE POLICY "Users can update their own reports" ON reports
+  FOR UPDATE
+  USING (auth.uid() = profile_id)
+  WITH CHECK (auth.uid() = profile_id);
+
+-- The assigned contractor can move the job along
+DROP POLICY IF EXISTS "Assigned contractors can update their reports" ON reports;
+CREATE POLICY "Assigned contractors can update their reports" ON reports
+  FOR UPDATE
+  USING (auth.uid() = assigned_contractor_id)
+  WITH CHECK (auth.uid() = assigned_contractor_id);
+
+-- RLS decides who can update a row; this decides which columns they can touch.
+-- Direct updates from the API may not reassign, re-own or upvote a report,
+-- only the assigned contractor may change its status, and contractors may
+-- not edit the report itself. Reporters change status through
+-- transition_report_status and accept_job_bid, which run as the owner and
+-- are checked by enforce_report_status_transition instead.
+CREATE OR REPLACE FUNCTION guard_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.assigned_contractor_id IS DISTINCT FROM OLD.assigned_contractor_id
+    OR NEW.upvote_count IS DISTINCT FROM OLD.upvote_count
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'These report fields cannot be changed directly';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND auth.uid() IS DISTINCT FROM OLD.assigned_contractor_id
+  THEN
+    RAISE EXCEPTION 'Only the assigned contractor can change the status of this report';
+  END IF;
+
+  -- Stored generated columns are not computed yet in BEFORE triggers
+  IF auth.uid() IS DISTINCT FROM OLD.profile_id
+    AND (to_jsonb(NEW) - 'status' - 'updated_at' - 'location')
+      IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'updated_at' - 'location')
+  THEN
+    RAISE EXCEPTION 'Only the reporter can edit this report';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_report_update ON reports;
+CREATE TRIGGER guard_report_update
+  BEFORE UPDATE ON reports
+  FOR EACH ROW EXECUTE FUNCTION guard_report_update();
+
+-- Reports are only removed by deleting the reporter's account
+REVOKE DELETE ON reports FROM anon, authenticated;
@@ -0,0 +1,43 @@
+-- Timestamps are always filled in by their defaults; make that explicit so
+-- the generated TypeScript types do not mark them as nullable
+UPDATE profiles SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE profiles SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE profiles
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN updated_at SET NOT NULL;
+
+UPDATE reports SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE reports SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE reports
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN updated_at SET NOT NULL;
+
+UPDATE transactions SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE transactions SET transaction_time = created_at WHERE transaction_time IS NULL;
+ALTER TABLE transactions
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN transaction_time SET NOT NULL;
+
+UPDATE job_bids SET created_at = NOW() WHERE created_at IS NULL;
+UPDATE job_bids SET updated_at = created_at WHERE updated_at IS NULL;
+ALTER TABLE job_bids
+  ALTER COLUMN created_at SET NOT NULL,
+  ALTER COLUMN updated_at SET NOT NULL;
+
+UPDATE job_assignments SET assigned_at = NOW() WHERE assigned_at IS NULL;
+ALTER TABLE job_assignments ALTER COLUMN assigned_at SET NOT NULL;
+
+UPDATE contractor_reviews SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE contractor_reviews ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE contractor_payments SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE contractor_payments ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE report_status_history SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE report_status_history ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE report_followers SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE report_followers ALTER COLUMN created_at SET NOT NULL;
+
+UPDATE report_photos SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE report_photos ALTER COLUMN created_at SET NOT NULL;
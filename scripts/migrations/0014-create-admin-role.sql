@@ -0,0 +1,428 @@
+-- Municipal administrators triage reports and manage users.
+-- Admins are only ever appointed by another admin (or from the SQL editor).
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('Citizen', 'Contractor', 'Admin'));
+
+-- Suspended users keep their account but cannot file reports or bid
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+
+-- Moderation state on reports
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS hidden_reason TEXT,
+  ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS reports_duplicate_of_idx ON reports (duplicate_of);
+
+-- Runs as the owner so policies on profiles can call it without recursing
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+      AND role = 'Admin'
+      AND suspended_at IS NULL
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- Users fill in their own profile, but only an admin can change a role or suspension
+CREATE OR REPLACE FUNCTION guard_profile_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role = 'Admin' OR NEW.suspended_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New profiles must be a citizen or a contractor';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+  THEN
+    RAISE EXCEPTION 'Only an administrator can change roles or suspensions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_update ON profiles;
+CREATE TRIGGER guard_profile_update
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_profile_update();
+
+-- TG_ARGV[0] names the column holding the author's profile ID
+CREATE OR REPLACE FUNCTION reject_suspended_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = (to_jsonb(NEW) ->> TG_ARGV[0])::UUID
+      AND suspended_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This account has been suspended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_suspended_author ON reports;
+CREATE TRIGGER reject_suspended_author
+  BEFORE INSERT ON reports
+  FOR EACH ROW EXECUTE FUNCTION reject_suspended_author('profile_id');
+
+DROP TRIGGER IF EXISTS reject_suspended_author ON job_bids;
+CREATE TRIGGER reject_suspended_author
+  BEFORE INSERT ON job_bids
+  FOR EACH ROW EXECUTE FUNCTION reject_suspended_author('contractor_id');
+
+-- Hidden reports stay visible to the people involved and to admins
+DROP POLICY IF EXISTS "Reports are viewable by everyone" ON reports;
+DROP POLICY IF EXISTS "Visible reports are viewable by everyone" ON reports;
+CREATE POLICY "Visible reports are viewable by everyone" ON reports
+  FOR SELECT USING (
+    hidden_at IS NULL
+    OR auth.uid() = profile_id
+    OR auth.uid() = assigned_contractor_id
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Administrators can view all profiles" ON profiles;
+CREATE POLICY "Administrators can view all profiles" ON profiles
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Administrators can view all bids" ON job_bids;
+CREATE POLICY "Administrators can view all bids" ON job_bids
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Administrators can view all assignments" ON job_assignments;
+CREATE POLICY "Administrators can view all assignments" ON job_assignments
+  FOR SELECT USING (is_admin());
+
+-- Same as 0012, plus the moderation columns, which only the admin functions below may set
+CREATE OR REPLACE FUNCTION guard_report_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.profile_id IS DISTINCT FROM OLD.profile_id
+    OR NEW.assigned_contractor_id IS DISTINCT FROM OLD.assigned_contractor_id
+    OR NEW.upvote_count IS DISTINCT FROM OLD.upvote_count
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+    OR NEW.hidden_reason IS DISTINCT FROM OLD.hidden_reason
+    OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by
+    OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+  THEN
+    RAISE EXCEPTION 'These report fields cannot be changed directly';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND auth.uid() IS DISTINCT FROM OLD.assigned_contractor_id
+  THEN
+    RAISE EXCEPTION 'Only the assigned contractor can change the status of this report';
+  END IF;
+
+  -- Stored generated columns are not computed yet in BEFORE triggers
+  IF auth.uid() IS DISTINCT FROM OLD.profile_id
+    AND (to_jsonb(NEW) - 'status' - 'updated_at' - 'location')
+      IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'updated_at' - 'location')
+  THEN
+    RAISE EXCEPTION 'Only the reporter can edit this report';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admins may move a report to any status through transition_report_status
+CREATE OR REPLACE FUNCTION enforce_report_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND auth.uid() IS NOT NULL
+    AND NOT is_admin()
+    AND NOT can_transition_report_status(OLD, NEW.status, NEW.assigned_contractor_id, auth.uid())
+  THEN
+    RAISE EXCEPTION 'You cannot move this report from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Assign (or reassign) an open report to a contractor.
+-- The contractor's pending bid sets the price when they made one.
+CREATE OR REPLACE FUNCTION admin_assign_report(
+  target_report_id UUID,
+  new_contractor_id UUID,
+  default_price NUMERIC DEFAULT NULL,
+  note TEXT DEFAULT NULL
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+  contractor profiles;
+  bid job_bids;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can assign reports';
+  END IF;
+
+  SELECT * INTO report FROM reports WHERE id = target_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF report.status NOT IN ('pending', 'in_progress') THEN
+    RAISE EXCEPTION 'Only open reports can be assigned';
+  END IF;
+
+  SELECT * INTO contractor FROM profiles WHERE id = new_contractor_id;
+  IF NOT FOUND OR contractor.role <> 'Contractor' OR contractor.suspended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Choose an active contractor';
+  END IF;
+
+  SELECT * INTO bid FROM job_bids
+  WHERE job_bids.report_id = report.id
+    AND job_bids.contractor_id = new_contractor_id
+    AND job_bids.status = 'pending';
+
+  IF bid.id IS NULL AND default_price IS NULL THEN
+    RAISE EXCEPTION 'Enter the price agreed with this contractor';
+  END IF;
+
+  UPDATE job_bids
+  SET status = CASE WHEN job_bids.id = bid.id THEN 'accepted' ELSE 'rejected' END,
+      updated_at = NOW()
+  WHERE job_bids.report_id = report.id
+    AND job_bids.status = 'pending';
+
+  PERFORM set_config('app.status_note', COALESCE(note, ''), true);
+
+  UPDATE reports
+  SET status = 'in_progress',
+      assigned_contractor_id = new_contractor_id,
+      updated_at = NOW()
+  WHERE id = report.id
+  RETURNING * INTO report;
+
+  INSERT INTO job_assignments (report_id, contractor_id, bid_id, agreed_price)
+  VALUES (report.id, new_contractor_id, bid.id, COALESCE(bid.price, default_price))
+  ON CONFLICT (report_id) DO UPDATE
+  SET contractor_id = EXCLUDED.contractor_id,
+      bid_id = EXCLUDED.bid_id,
+      agreed_price = EXCLUDED.agreed_price,
+      status = 'active',
+      assigned_at = NOW(),
+      completed_at = NULL;
+
+  RETURN report;
+END;
+$$;
+
+-- Close a duplicate report and move its reporter and followers onto the original
+CREATE OR REPLACE FUNCTION admin_merge_duplicate_report(
+  duplicate_report_id UUID,
+  original_report_id UUID
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate reports;
+  original reports;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can merge reports';
+  END IF;
+
+  IF duplicate_report_id = original_report_id THEN
+    RAISE EXCEPTION 'A report cannot be a duplicate of itself';
+  END IF;
+
+  SELECT * INTO original FROM reports WHERE id = original_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Original report not found';
+  END IF;
+
+  IF original.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'That report is itself a duplicate; merge into the report it points to';
+  END IF;
+
+  SELECT * INTO duplicate FROM reports WHERE id = duplicate_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF duplicate.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only reports nobody is working on can be merged';
+  END IF;
+
+  INSERT INTO report_followers (report_id, profile_id)
+  SELECT original.id, people.profile_id
+  FROM (
+    SELECT duplicate.profile_id
+    UNION
+    SELECT report_followers.profile_id FROM report_followers WHERE report_followers.report_id = duplicate.id
+  ) people
+  WHERE people.profile_id <> original.profile_id
+  ON CONFLICT DO NOTHING;
+
+  UPDATE job_bids
+  SET status = 'rejected', updated_at = NOW()
+  WHERE job_bids.report_id = duplicate.id
+    AND job_bids.status = 'pending';
+
+  PERFORM set_config('app.status_note', 'Merged into report ' || original.id, true);
+
+  UPDATE reports
+  SET status = 'closed',
+      duplicate_of = original.id,
+      updated_at = NOW()
+  WHERE id = duplicate.id
+  RETURNING * INTO duplicate;
+
+  RETURN duplicate;
+END;
+$$;
+
+-- Hide an abusive report from everyone but the people involved, or show it again
+CREATE OR REPLACE FUNCTION admin_set_report_hidden(
+  target_report_id UUID,
+  hidden BOOLEAN,
+  reason TEXT DEFAULT NULL
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can hide reports';
+  END IF;
+
+  UPDATE reports
+  SET hidden_at = CASE WHEN hidden THEN NOW() END,
+      hidden_reason = CASE WHEN hidden THEN NULLIF(TRIM(reason), '') END,
+      hidden_by = CASE WHEN hidden THEN auth.uid() END,
+      updated_at = NOW()
+  WHERE id = target_report_id
+  RETURNING * INTO report;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  RETURN report;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_set_profile_role(
+  target_profile_id UUID,
+  new_role TEXT
+)
+RETURNS profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change roles';
+  END IF;
+
+  IF target_profile_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  UPDATE profiles
+  SET role = new_role, updated_at = NOW()
+  WHERE id = target_profile_id
+  RETURNING * INTO profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  RETURN profile;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_set_profile_suspended(
+  target_profile_id UUID,
+  suspended BOOLEAN
+)
+RETURNS profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can suspend users';
+  END IF;
+
+  IF target_profile_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot suspend your own account';
+  END IF;
+
+  UPDATE profiles
+  SET suspended_at = CASE WHEN suspended THEN COALESCE(suspended_at, NOW()) END,
+      updated_at = NOW()
+  WHERE id = target_profile_id
+  RETURNING * INTO profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  RETURN profile;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_assign_report(UUID, UUID, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_merge_duplicate_report(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_report_hidden(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_profile_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_profile_suspended(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,204 @@
+-- Business details contractors submit for verification (one row per contractor).
+-- A contractor without a row has not applied yet, i.e. is unverified.
+CREATE TABLE IF NOT EXISTS contractor_profiles (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  business_name TEXT NOT NULL,
+  licence_number TEXT NOT NULL,
+  -- Report categories the contractor works on; must stay in sync with 0009
+  trade_categories TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (trade_categories <@ ARRAY['pothole', 'streetlight', 'drainage', 'garbage', 'signage', 'sidewalk', 'water_leak', 'vandalism', 'other']),
+  service_radius_km INTEGER NOT NULL DEFAULT 10 CHECK (service_radius_km BETWEEN 1 AND 200),
+  -- Paths in the contractor-documents bucket, under `${profile_id}/`
+  document_paths TEXT[] NOT NULL DEFAULT '{}',
+  verification_status TEXT NOT NULL DEFAULT 'unverified'
+    CHECK (verification_status IN ('unverified', 'pending_review', 'verified', 'rejected')),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  rejection_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS contractor_profiles_verification_status_idx
+  ON contractor_profiles (verification_status, submitted_at);
+
+ALTER TABLE contractor_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contractors can view their own business details" ON contractor_profiles;
+CREATE POLICY "Contractors can view their own business details" ON contractor_profiles
+  FOR SELECT USING (auth.uid() = profile_id OR is_admin());
+
+DROP POLICY IF EXISTS "Contractors can add their business details" ON contractor_profiles;
+CREATE POLICY "Contractors can add their business details" ON contractor_profiles
+  FOR INSERT WITH CHECK (
+    auth.uid() = profile_id
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role = 'Contractor'
+    )
+  );
+
+DROP POLICY IF EXISTS "Contractors can update their business details" ON contractor_profiles;
+CREATE POLICY "Contractors can update their business details" ON contractor_profiles
+  FOR UPDATE
+  USING (auth.uid() = profile_id)
+  WITH CHECK (auth.uid() = profile_id);
+
+-- Contractors may edit and submit their details until they are under review;
+-- only admin_review_contractor can verify or reject them.
+CREATE OR REPLACE FUNCTION guard_contractor_profile_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.verification_status IN ('pending_review', 'verified') THEN
+    RAISE EXCEPTION 'Your details cannot be changed while they are under review or after verification';
+  END IF;
+
+  IF NEW.verification_status NOT IN ('unverified', 'pending_review') THEN
+    RAISE EXCEPTION 'Only an administrator can verify contractors';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.rejection_reason := OLD.rejection_reason;
+  ELSE
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.rejection_reason := NULL;
+  END IF;
+
+  NEW.submitted_at := CASE WHEN NEW.verification_status = 'pending_review' THEN NOW() END;
+  NEW.updated_at := NOW();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_contractor_profile_update ON contractor_profiles;
+CREATE TRIGGER guard_contractor_profile_update
+  BEFORE INSERT OR UPDATE ON contractor_profiles
+  FOR EACH ROW EXECUTE FUNCTION guard_contractor_profile_update();
+
+-- Approve or reject an application that is waiting for review
+CREATE OR REPLACE FUNCTION admin_review_contractor(
+  target_profile_id UUID,
+  approve BOOLEAN,
+  reason TEXT DEFAULT NULL
+)
+RETURNS contractor_profiles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application contractor_profiles;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can review contractors';
+  END IF;
+
+  SELECT * INTO application FROM contractor_profiles WHERE profile_id = target_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This contractor has not applied yet';
+  END IF;
+
+  IF application.verification_status <> 'pending_review' THEN
+    RAISE EXCEPTION 'This application is not waiting for review';
+  END IF;
+
+  IF NOT approve AND COALESCE(TRIM(reason), '') = '' THEN
+    RAISE EXCEPTION 'Tell the contractor why their application was rejected';
+  END IF;
+
+  UPDATE contractor_profiles
+  SET verification_status = CASE WHEN approve THEN 'verified' ELSE 'rejected' END,
+      reviewed_at = NOW(),
+      reviewed_by = auth.uid(),
+      rejection_reason = CASE WHEN approve THEN NULL ELSE TRIM(reason) END,
+      updated_at = NOW()
+  WHERE profile_id = target_profile_id
+  RETURNING * INTO application;
+
+  RETURN application;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_review_contractor(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Only verified contractors can bid
+DROP POLICY IF EXISTS "Contractors can bid on pending reports" ON job_bids;
+CREATE POLICY "Contractors can bid on pending reports" ON job_bids
+  FOR INSERT WITH CHECK (
+    auth.uid() = contractor_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      JOIN contractor_profiles ON contractor_profiles.profile_id = profiles.id
+      WHERE profiles.id = auth.uid()
+        AND profiles.role = 'Contractor'
+        AND contractor_profiles.verification_status = 'verified'
+    )
+    AND EXISTS (
+      SELECT 1 FROM reports
+      WHERE reports.id = job_bids.report_id
+        AND reports.status = 'pending'
+        AND reports.profile_id <> auth.uid()
+    )
+  );
+
+-- Assignments made by an admin skip bidding, so check verification there too
+CREATE OR REPLACE FUNCTION require_verified_contractor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM contractor_profiles
+    WHERE profile_id = NEW.contractor_id
+      AND verification_status = 'verified'
+  ) THEN
+    RAISE EXCEPTION 'Only verified contractors can be assigned work';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_verified_contractor ON job_assignments;
+CREATE TRIGGER require_verified_contractor
+  BEFORE INSERT OR UPDATE OF contractor_id ON job_assignments
+  FOR EACH ROW EXECUTE FUNCTION require_verified_contractor();
+
+-- Private bucket for licences and insurance certificates, stored under `${profile.id}/`
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('contractor-documents', 'contractor-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Contractors and admins can view contractor documents" ON storage.objects;
+CREATE POLICY "Contractors and admins can view contractor documents" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'contractor-documents'
+    AND ((storage.foldername(name))[1] = auth.uid()::TEXT OR is_admin())
+  );
+
+DROP POLICY IF EXISTS "Contractors can upload documents to their own folder" ON storage.objects;
+CREATE POLICY "Contractors can upload documents to their own folder" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'contractor-documents'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Contractors can delete documents in their own folder" ON storage.objects;
+CREATE POLICY "Contractors can delete documents in their own folder" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'contractor-documents'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
@@ -0,0 +1,121 @@
+-- Photos are resized and stripped of EXIF metadata on the client before upload,
+-- and each one gets a small thumbnail for list views.
+ALTER TABLE report_photos ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+ALTER TABLE report_photos ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+-- Parallel to reports.photo_urls; falls back to the full photo when there is no thumbnail
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS thumbnail_urls TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE reports SET thumbnail_urls = photo_urls
+WHERE thumbnail_urls = '{}' AND photo_urls IS NOT NULL;
+
+-- Same as 0011, but also stores the thumbnails
+CREATE OR REPLACE FUNCTION create_report_with_transaction(
+  new_report_id UUID,
+  new_location_string TEXT,
+  new_description TEXT,
+  new_category TEXT,
+  new_severity TEXT,
+  new_latitude DOUBLE PRECISION,
+  new_longitude DOUBLE PRECISION,
+  new_address TEXT,
+  new_contribution_amount NUMERIC,
+  new_photos JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reporter_id UUID := auth.uid();
+  created_report reports;
+BEGIN
+  IF reporter_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report an incident';
+  END IF;
+
+  IF new_contribution_amount IS NULL OR new_contribution_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution amount must be greater than 0';
+  END IF;
+
+  SELECT * INTO created_report FROM reports WHERE id = new_report_id;
+
+  IF FOUND THEN
+    IF created_report.profile_id <> reporter_id THEN
+      RAISE EXCEPTION 'Report % already exists', new_report_id;
+    END IF;
+  ELSE
+    INSERT INTO reports (
+      id, profile_id, location_string, description, category, severity,
+      latitude, longitude, address, photo_urls, thumbnail_urls, status
+    )
+    VALUES (
+      new_report_id,
+      reporter_id,
+      new_location_string,
+      new_description,
+      new_category,
+      new_severity,
+      new_latitude,
+      new_longitude,
+      new_address,
+      ARRAY(
+        SELECT photo->>'public_url'
+        FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position)
+        ORDER BY position
+      ),
+      ARRAY(
+        SELECT COALESCE(photo->>'thumbnail_url', photo->>'public_url')
+        FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position)
+        ORDER BY position
+      ),
+      'pending'
+    )
+    RETURNING * INTO created_report;
+
+    INSERT INTO report_photos (
+      report_id, storage_path, public_url, thumbnail_path, thumbnail_url,
+      content_type, size_bytes, position
+    )
+    SELECT
+      created_report.id,
+      photo->>'storage_path',
+      photo->>'public_url',
+      photo->>'thumbnail_path',
+      photo->>'thumbnail_url',
+      photo->>'content_type',
+      (photo->>'size_bytes')::BIGINT,
+      position - 1
+    FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position);
+
+    INSERT INTO transactions (
+      transaction_id, report_id, amount, currency, status, transaction_verified, transaction_time
+    )
+    VALUES (
+      'TXN-' || UPPER(gen_random_uuid()::TEXT),
+      created_report.id,
+      ROUND(new_contribution_amount, 2),
+      'usd',
+      'pending',
+      FALSE,
+      NOW()
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'report', to_jsonb(created_report) - 'location',
+    'photos', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ph) ORDER BY ph.position) FROM report_photos ph WHERE ph.report_id = created_report.id),
+      '[]'::JSONB
+    ),
+    'transaction', (
+      SELECT to_jsonb(t)
+      FROM transactions t
+      WHERE t.report_id = created_report.id
+      ORDER BY t.created_at ASC
+      LIMIT 1
+    )
+  );
+END;
+$$;
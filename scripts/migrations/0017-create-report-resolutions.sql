@@ -0,0 +1,128 @@
+-- Evidence the assigned contractor submits when they finish the work: "after"
+-- photos and a completion note. A reopened report gets a new row when it is
+-- resolved again, so the latest row is the current evidence.
+CREATE TABLE IF NOT EXISTS report_resolutions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  contractor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  note TEXT NOT NULL CHECK (LENGTH(TRIM(note)) > 0),
+  -- Parallel arrays in display order, stored in report-images under `${contractor_id}/`
+  photo_paths TEXT[] NOT NULL,
+  photo_urls TEXT[] NOT NULL CHECK (CARDINALITY(photo_urls) > 0),
+  thumbnail_urls TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS report_resolutions_report_id_idx ON report_resolutions (report_id, created_at);
+
+-- Rows are only written by resolve_report
+ALTER TABLE report_resolutions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Resolution evidence is viewable by everyone" ON report_resolutions;
+CREATE POLICY "Resolution evidence is viewable by everyone" ON report_resolutions
+  FOR SELECT USING (true);
+
+-- A report can only become resolved once evidence was submitted since the
+-- work last started. Admins and trusted callers (SQL editor) are exempt.
+CREATE OR REPLACE FUNCTION require_resolution_evidence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'resolved'
+    OR OLD.status = 'resolved'
+    OR auth.uid() IS NULL
+    OR is_admin()
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM report_resolutions rr
+    WHERE rr.report_id = NEW.id
+      AND rr.created_at >= COALESCE(
+        (
+          SELECT MAX(h.created_at) FROM report_status_history h
+          WHERE h.report_id = NEW.id AND h.to_status = 'in_progress'
+        ),
+        '-infinity'::TIMESTAMPTZ
+      )
+  ) THEN
+    RAISE EXCEPTION 'Upload after photos and a completion note to resolve this report';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_resolution_evidence ON reports;
+CREATE TRIGGER require_resolution_evidence
+  BEFORE UPDATE OF status ON reports
+  FOR EACH ROW EXECUTE FUNCTION require_resolution_evidence();
+
+-- Save the evidence and mark the report resolved in one transaction.
+-- new_photos is an array of { storage_path, public_url, thumbnail_url }.
+CREATE OR REPLACE FUNCTION resolve_report(
+  target_report_id UUID,
+  completion_note TEXT,
+  new_photos JSONB
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+BEGIN
+  SELECT * INTO report FROM reports WHERE id = target_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF report.assigned_contractor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the assigned contractor can resolve this report';
+  END IF;
+
+  IF report.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only reports in progress can be resolved';
+  END IF;
+
+  IF COALESCE(TRIM(completion_note), '') = '' THEN
+    RAISE EXCEPTION 'Describe the work you did';
+  END IF;
+
+  IF new_photos IS NULL OR jsonb_array_length(new_photos) = 0 THEN
+    RAISE EXCEPTION 'Add at least one photo of the finished work';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(new_photos) AS p(photo)
+    WHERE photo->>'storage_path' NOT LIKE auth.uid()::TEXT || '/%'
+  ) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to your own folder';
+  END IF;
+
+  INSERT INTO report_resolutions (report_id, contractor_id, note, photo_paths, photo_urls, thumbnail_urls)
+  SELECT
+    target_report_id,
+    auth.uid(),
+    TRIM(completion_note),
+    ARRAY_AGG(photo->>'storage_path' ORDER BY position),
+    ARRAY_AGG(photo->>'public_url' ORDER BY position),
+    ARRAY_AGG(COALESCE(photo->>'thumbnail_url', photo->>'public_url') ORDER BY position)
+  FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position);
+
+  PERFORM set_config('app.status_note', TRIM(completion_note), true);
+
+  UPDATE reports
+  SET status = 'resolved',
+      updated_at = NOW()
+  WHERE id = target_report_id
+  RETURNING * INTO report;
+
+  RETURN report;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_report(UUID, TEXT, JSONB) TO authenticated;
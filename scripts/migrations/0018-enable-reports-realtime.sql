@@ -0,0 +1,14 @@
+-- Stream report inserts and updates to clients over Supabase Realtime. Clients
+-- only receive rows their SELECT policies allow, so hidden reports stay hidden.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'reports'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE reports;
+  END IF;
+END;
+$$;
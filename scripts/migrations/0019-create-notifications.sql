@@ -0,0 +1,201 @@
+-- Notifications for people involved in a report: the reporter, its followers
+-- and the assigned contractor. Rows are written by notify_report_audience;
+-- email and web push are delivered later by POST /api/notifications/dispatch.
+
+-- Channels each user wants. Users without a row get the column defaults.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  email BOOLEAN NOT NULL DEFAULT TRUE,
+  web_push BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view their notification preferences" ON notification_preferences
+  FOR SELECT USING (auth.uid() = profile_id);
+
+DROP POLICY IF EXISTS "Users can create their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can create their notification preferences" ON notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = profile_id);
+
+DROP POLICY IF EXISTS "Users can update their notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update their notification preferences" ON notification_preferences
+  FOR UPDATE USING (auth.uid() = profile_id) WITH CHECK (auth.uid() = profile_id);
+
+-- Browsers a user enabled web push on, as returned by PushManager.subscribe()
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  endpoint TEXT PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_profile_id_idx ON push_subscriptions (profile_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can manage their push subscriptions" ON push_subscriptions
+  FOR ALL USING (auth.uid() = profile_id) WITH CHECK (auth.uid() = profile_id);
+
+-- One row per recipient. Channels that were off when the notification was
+-- created are 'skipped'; 'pending' ones wait for the dispatcher.
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('status_change', 'comment')),
+  title TEXT NOT NULL,
+  body TEXT,
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  email_status TEXT NOT NULL DEFAULT 'skipped' CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+  push_status TEXT NOT NULL DEFAULT 'skipped' CHECK (push_status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_attempts INTEGER NOT NULL DEFAULT 0,
+  push_attempts INTEGER NOT NULL DEFAULT 0,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_inbox_idx ON notifications (profile_id, created_at DESC) WHERE in_app;
+CREATE INDEX IF NOT EXISTS notifications_email_pending_idx ON notifications (created_at) WHERE email_status = 'pending';
+CREATE INDEX IF NOT EXISTS notifications_push_pending_idx ON notifications (created_at) WHERE push_status = 'pending';
+
+-- Users read their own inbox; only notify_report_audience and the
+-- dispatcher (service role) write
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their notifications" ON notifications;
+CREATE POLICY "Users can view their notifications" ON notifications
+  FOR SELECT USING (auth.uid() = profile_id AND in_app);
+
+-- Notify everyone involved in a report except the person who caused the event.
+-- Not callable through the API; triggers call it with the owner's rights.
+CREATE OR REPLACE FUNCTION notify_report_audience(
+  target_report_id UUID,
+  event_actor_id UUID,
+  event_type TEXT,
+  event_title TEXT,
+  event_body TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (
+    profile_id, report_id, actor_id, type, title, body, in_app, email_status, push_status
+  )
+  SELECT
+    audience.profile_id,
+    target_report_id,
+    event_actor_id,
+    event_type,
+    event_title,
+    event_body,
+    COALESCE(prefs.in_app, TRUE),
+    CASE WHEN COALESCE(prefs.email, TRUE) THEN 'pending' ELSE 'skipped' END,
+    CASE
+      WHEN COALESCE(prefs.web_push, FALSE)
+        AND EXISTS (SELECT 1 FROM push_subscriptions ps WHERE ps.profile_id = audience.profile_id)
+      THEN 'pending'
+      ELSE 'skipped'
+    END
+  FROM (
+    SELECT r.profile_id FROM reports r WHERE r.id = target_report_id
+    UNION
+    SELECT r.assigned_contractor_id FROM reports r
+    WHERE r.id = target_report_id AND r.assigned_contractor_id IS NOT NULL
+    UNION
+    SELECT f.profile_id FROM report_followers f WHERE f.report_id = target_report_id
+  ) audience
+  LEFT JOIN notification_preferences prefs ON prefs.profile_id = audience.profile_id
+  WHERE audience.profile_id IS DISTINCT FROM event_actor_id
+    AND (COALESCE(prefs.in_app, TRUE) OR COALESCE(prefs.email, TRUE) OR COALESCE(prefs.web_push, FALSE));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_report_audience(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Status changes come from report_status_history, so every path that moves a
+-- report (RPCs, admin actions, bid acceptance) notifies the same way
+CREATE OR REPLACE FUNCTION notify_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+BEGIN
+  -- The first entry is the report being filed
+  IF NEW.from_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO report FROM reports WHERE id = NEW.report_id;
+
+  PERFORM notify_report_audience(
+    NEW.report_id,
+    NEW.actor_id,
+    'status_change',
+    CASE NEW.to_status
+      WHEN 'in_progress' THEN 'Work has started on a report'
+      WHEN 'resolved' THEN 'A report was resolved'
+      WHEN 'closed' THEN 'A report was closed'
+      ELSE 'A report is open for bids again'
+    END,
+    CONCAT_WS(E'\n', COALESCE(report.address, report.location_string), NEW.note)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_report_status_change ON report_status_history;
+CREATE TRIGGER notify_report_status_change
+  AFTER INSERT ON report_status_history
+  FOR EACH ROW EXECUTE FUNCTION notify_report_status_change();
+
+-- Mark some or all of the caller's notifications as read
+CREATE OR REPLACE FUNCTION mark_notifications_read(notification_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE notifications
+  SET read_at = NOW()
+  WHERE profile_id = auth.uid()
+    AND read_at IS NULL
+    AND (notification_ids IS NULL OR id = ANY(notification_ids));
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_notifications_read(UUID[]) TO authenticated;
+
+-- Stream new notifications to the bell
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
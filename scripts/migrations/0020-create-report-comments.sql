@@ -0,0 +1,306 @@
+-- Threaded discussion on a report. Comments are soft-deleted so replies keep
+-- their place in the thread, and admins can hide comments that people flag.
+CREATE TABLE IF NOT EXISTS report_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES report_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL DEFAULT '',
+  -- Parallel arrays in display order, stored in report-images under `${profile_id}/`
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  photo_urls TEXT[] NOT NULL DEFAULT '{}',
+  thumbnail_urls TEXT[] NOT NULL DEFAULT '{}',
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  hidden_reason TEXT,
+  hidden_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT report_comments_body_check CHECK (
+    deleted_at IS NOT NULL
+    OR (LENGTH(TRIM(body)) > 0 AND LENGTH(body) <= 2000)
+  ),
+  CONSTRAINT report_comments_photo_limit CHECK (CARDINALITY(photo_urls) <= 3)
+);
+
+CREATE INDEX IF NOT EXISTS report_comments_report_id_idx ON report_comments (report_id, created_at);
+CREATE INDEX IF NOT EXISTS report_comments_parent_id_idx ON report_comments (parent_id);
+
+-- People flagging a comment for moderators. One flag per person per comment.
+CREATE TABLE IF NOT EXISTS report_comment_flags (
+  comment_id UUID NOT NULL REFERENCES report_comments(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (comment_id, profile_id)
+);
+
+ALTER TABLE report_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_comment_flags ENABLE ROW LEVEL SECURITY;
+
+-- Threads are read through report_comment_thread, which adds author names.
+-- Direct reads are for authors and admins.
+DROP POLICY IF EXISTS "Users can view their comments" ON report_comments;
+CREATE POLICY "Users can view their comments" ON report_comments
+  FOR SELECT USING (auth.uid() = profile_id OR is_admin());
+
+DROP POLICY IF EXISTS "Users can comment on reports they can see" ON report_comments;
+CREATE POLICY "Users can comment on reports they can see" ON report_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = profile_id
+    AND deleted_at IS NULL
+    AND hidden_at IS NULL
+    AND EXISTS (SELECT 1 FROM reports r WHERE r.id = report_comments.report_id)
+  );
+
+DROP POLICY IF EXISTS "Users can edit their comments" ON report_comments;
+CREATE POLICY "Users can edit their comments" ON report_comments
+  FOR UPDATE USING (auth.uid() = profile_id) WITH CHECK (auth.uid() = profile_id);
+
+REVOKE DELETE ON report_comments FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Users can view their flags" ON report_comment_flags;
+CREATE POLICY "Users can view their flags" ON report_comment_flags
+  FOR SELECT USING (auth.uid() = profile_id OR is_admin());
+
+DROP POLICY IF EXISTS "Users can flag comments" ON report_comment_flags;
+CREATE POLICY "Users can flag comments" ON report_comment_flags
+  FOR INSERT WITH CHECK (auth.uid() = profile_id);
+
+DROP POLICY IF EXISTS "Administrators can dismiss flags" ON report_comment_flags;
+CREATE POLICY "Administrators can dismiss flags" ON report_comment_flags
+  FOR DELETE USING (is_admin());
+
+DROP TRIGGER IF EXISTS reject_suspended_author ON report_comments;
+CREATE TRIGGER reject_suspended_author
+  BEFORE INSERT ON report_comments
+  FOR EACH ROW EXECUTE FUNCTION reject_suspended_author('profile_id');
+
+-- Replies must stay in their parent's report
+CREATE OR REPLACE FUNCTION check_report_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM report_comments c
+    WHERE c.id = NEW.parent_id AND c.report_id = NEW.report_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same report as their parent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_report_comment_parent ON report_comments;
+CREATE TRIGGER check_report_comment_parent
+  BEFORE INSERT ON report_comments
+  FOR EACH ROW EXECUTE FUNCTION check_report_comment_parent();
+
+-- Authors may only change the text of a live comment; deleting and hiding go
+-- through the functions below
+CREATE OR REPLACE FUNCTION guard_report_comment_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL OR OLD.hidden_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This comment can no longer be edited';
+  END IF;
+
+  IF (to_jsonb(NEW) - 'body' - 'edited_at') IS DISTINCT FROM (to_jsonb(OLD) - 'body' - 'edited_at') THEN
+    RAISE EXCEPTION 'Only the text of a comment can be edited';
+  END IF;
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_report_comment_update ON report_comments;
+CREATE TRIGGER guard_report_comment_update
+  BEFORE UPDATE ON report_comments
+  FOR EACH ROW EXECUTE FUNCTION guard_report_comment_update();
+
+-- Tell the people involved in the report (see 0019)
+CREATE OR REPLACE FUNCTION notify_report_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_report_audience(
+    NEW.report_id,
+    NEW.profile_id,
+    'comment',
+    CASE WHEN NEW.parent_id IS NULL THEN 'New comment on a report' ELSE 'New reply on a report' END,
+    LEFT(NEW.body, 280)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_report_comment ON report_comments;
+CREATE TRIGGER notify_report_comment
+  AFTER INSERT ON report_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_report_comment();
+
+-- A report's comments, oldest first, with what the thread needs to show about
+-- each author. Deleted comments keep their place with no content; hidden ones
+-- do too, except for their author and admins.
+CREATE OR REPLACE FUNCTION report_comment_thread(target_report_id UUID)
+RETURNS TABLE (
+  id UUID,
+  report_id UUID,
+  parent_id UUID,
+  profile_id UUID,
+  body TEXT,
+  photo_urls TEXT[],
+  thumbnail_urls TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  hidden_reason TEXT,
+  author_name TEXT,
+  author_role TEXT,
+  author_is_reporter BOOLEAN,
+  author_is_assigned_contractor BOOLEAN,
+  flag_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+  caller_is_admin BOOLEAN := is_admin();
+BEGIN
+  SELECT * INTO report FROM reports r WHERE r.id = target_report_id;
+
+  -- Same visibility as the reports SELECT policy
+  IF NOT FOUND OR NOT (
+    report.hidden_at IS NULL
+    OR auth.uid() = report.profile_id
+    OR auth.uid() = report.assigned_contractor_id
+    OR caller_is_admin
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.report_id,
+    c.parent_id,
+    c.profile_id,
+    CASE WHEN visible.show_content THEN c.body ELSE '' END,
+    CASE WHEN visible.show_content THEN c.photo_urls ELSE '{}'::TEXT[] END,
+    CASE WHEN visible.show_content THEN c.thumbnail_urls ELSE '{}'::TEXT[] END,
+    c.created_at,
+    c.edited_at,
+    c.deleted_at,
+    c.hidden_at,
+    CASE WHEN caller_is_admin OR auth.uid() = c.profile_id THEN c.hidden_reason END,
+    p.name,
+    p.role,
+    c.profile_id IS NOT DISTINCT FROM report.profile_id,
+    c.profile_id IS NOT DISTINCT FROM report.assigned_contractor_id,
+    CASE
+      WHEN caller_is_admin THEN (SELECT COUNT(*)::INTEGER FROM report_comment_flags f WHERE f.comment_id = c.id)
+      ELSE 0
+    END
+  FROM report_comments c
+  LEFT JOIN profiles p ON p.id = c.profile_id
+  CROSS JOIN LATERAL (
+    SELECT c.deleted_at IS NULL
+      AND (c.hidden_at IS NULL OR caller_is_admin OR auth.uid() = c.profile_id) AS show_content
+  ) visible
+  WHERE c.report_id = target_report_id
+  ORDER BY c.created_at ASC;
+END;
+$$;
+
+-- Soft-delete a comment. Authors delete their own; admins can delete any.
+CREATE OR REPLACE FUNCTION delete_report_comment(target_comment_id UUID)
+RETURNS report_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  comment report_comments;
+BEGIN
+  SELECT * INTO comment FROM report_comments WHERE id = target_comment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF comment.profile_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'You can only delete your own comments';
+  END IF;
+
+  UPDATE report_comments
+  SET deleted_at = COALESCE(deleted_at, NOW()),
+      body = '',
+      photo_paths = '{}',
+      photo_urls = '{}',
+      thumbnail_urls = '{}'
+  WHERE id = target_comment_id
+  RETURNING * INTO comment;
+
+  RETURN comment;
+END;
+$$;
+
+-- Hide or restore a comment. Hiding clears its flags, since they were dealt with.
+CREATE OR REPLACE FUNCTION admin_set_comment_hidden(
+  target_comment_id UUID,
+  hidden BOOLEAN,
+  reason TEXT DEFAULT NULL
+)
+RETURNS report_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  comment report_comments;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can hide comments';
+  END IF;
+
+  UPDATE report_comments
+  SET hidden_at = CASE WHEN hidden THEN NOW() END,
+      hidden_reason = CASE WHEN hidden THEN NULLIF(TRIM(reason), '') END,
+      hidden_by = CASE WHEN hidden THEN auth.uid() END
+  WHERE id = target_comment_id
+  RETURNING * INTO comment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF hidden THEN
+    DELETE FROM report_comment_flags WHERE comment_id = target_comment_id;
+  END IF;
+
+  RETURN comment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_comment_thread(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_report_comment(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_comment_hidden(UUID, BOOLEAN, TEXT) TO authenticated;
@@ -0,0 +1,39 @@
+-- What the public report page shows about the people and money behind a
+-- report. Citizen profiles and transactions are private, so only the
+-- reporter's name and the totals of completed contributions are exposed.
+CREATE OR REPLACE FUNCTION get_report_public_summary(target_report_id UUID)
+RETURNS TABLE (
+  reporter_name TEXT,
+  contribution_count BIGINT,
+  contribution_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.name AS reporter_name,
+    (
+      SELECT COUNT(*) FROM transactions t
+      WHERE t.report_id = r.id
+        AND t.status = 'succeeded'
+    ) AS contribution_count,
+    (
+      SELECT COALESCE(SUM(t.amount), 0) FROM transactions t
+      WHERE t.report_id = r.id
+        AND t.status = 'succeeded'
+    ) AS contribution_total
+  FROM reports r
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE r.id = target_report_id
+    -- Same visibility as the reports SELECT policy
+    AND (
+      r.hidden_at IS NULL
+      OR auth.uid() = r.profile_id
+      OR auth.uid() = r.assigned_contractor_id
+      OR is_admin()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_report_public_summary(UUID) TO anon, authenticated;
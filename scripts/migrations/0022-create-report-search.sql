@@ -0,0 +1,215 @@
+-- Full-text search over reports for Locate Specific Report, with filters for
+-- status, category, severity, date range and distance, relevance ranking,
+-- paging and per-facet counts. All input arrives as function arguments, so
+-- nothing the user types is ever spliced into a query.
+
+-- The searchable text of a report. Places weigh more than the description.
+CREATE OR REPLACE FUNCTION report_search_document(location_string TEXT, address TEXT, description TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, COALESCE(location_string, '') || ' ' || COALESCE(address, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(description, '')), 'B');
+$$;
+
+-- Queries must use the same expression to be served by this index
+CREATE INDEX IF NOT EXISTS reports_search_document_idx
+  ON reports USING GIN (report_search_document(location_string, address, description));
+
+CREATE INDEX IF NOT EXISTS reports_created_at_idx ON reports (created_at DESC);
+
+-- Turn free text into a query that matches every word as a prefix, so "Oak"
+-- finds "Oak Avenue". Punctuation is dropped rather than parsed, which keeps
+-- tsquery syntax out of user input. Returns NULL when there is nothing to search.
+CREATE OR REPLACE FUNCTION report_search_query(search_text TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT NULLIF(
+    to_tsquery('english'::regconfig, string_agg(term || ':*', ' & ')),
+    ''::tsquery
+  )
+  FROM regexp_split_to_table(LOWER(COALESCE(search_text, '')), '[^[:alnum:]]+') AS term
+  WHERE term <> '';
+$$;
+
+-- Reports matching the text, severity, date and distance filters. Status and
+-- category are left to the callers so the facet counts can ignore their own
+-- filter. Runs as the caller, so hidden reports stay hidden.
+CREATE OR REPLACE FUNCTION report_search_matches(
+  search_text TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_latitude DOUBLE PRECISION DEFAULT NULL,
+  search_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  status TEXT,
+  category TEXT,
+  rank REAL,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH params AS (
+    SELECT
+      report_search_query(search_text) AS query,
+      CASE
+        WHEN search_latitude IS NOT NULL AND search_longitude IS NOT NULL
+          THEN ST_SetSRID(ST_MakePoint(search_longitude, search_latitude), 4326)::geography
+      END AS origin
+  )
+  SELECT
+    r.id,
+    r.status,
+    r.category,
+    CASE
+      WHEN p.query IS NULL THEN 0
+      ELSE ts_rank_cd(report_search_document(r.location_string, r.address, r.description), p.query)
+    END AS rank,
+    CASE
+      WHEN p.origin IS NOT NULL AND r.location IS NOT NULL THEN ST_Distance(r.location, p.origin) / 1000
+    END AS distance_km
+  FROM reports r
+  CROSS JOIN params p
+  WHERE (p.query IS NULL OR report_search_document(r.location_string, r.address, r.description) @@ p.query)
+    AND (severity_filter IS NULL OR r.severity = severity_filter)
+    AND (created_after IS NULL OR r.created_at >= created_after)
+    AND (created_before IS NULL OR r.created_at < created_before)
+    AND (
+      radius_km IS NULL
+      OR p.origin IS NULL
+      OR (r.location IS NOT NULL AND ST_DWithin(r.location, p.origin, radius_km * 1000))
+    );
+$$;
+
+-- One page of matching reports. sort_by is 'relevance' (falls back to newest
+-- without search text), 'newest' or 'distance' (needs a search location).
+-- total_count is the number of matches across all pages.
+CREATE OR REPLACE FUNCTION search_reports(
+  search_text TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  category_filter TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_latitude DOUBLE PRECISION DEFAULT NULL,
+  search_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_limit INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_urls TEXT[],
+  thumbnail_urls TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  upvote_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  reporter_name TEXT,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    r.id,
+    r.profile_id,
+    r.location_string,
+    r.description,
+    r.latitude::DOUBLE PRECISION,
+    r.longitude::DOUBLE PRECISION,
+    r.address,
+    r.photo_urls,
+    r.thumbnail_urls,
+    r.status,
+    r.category,
+    r.severity,
+    r.upvote_count,
+    r.created_at,
+    r.updated_at,
+    p.name AS reporter_name,
+    m.rank,
+    m.distance_km,
+    COUNT(*) OVER () AS total_count
+  FROM report_search_matches(
+    search_text, severity_filter, created_after, created_before, search_latitude, search_longitude, radius_km
+  ) m
+  JOIN reports r ON r.id = m.id
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE (status_filter IS NULL OR m.status = status_filter)
+    AND (category_filter IS NULL OR m.category = category_filter)
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN sort_by = 'distance' THEN m.distance_km END ASC NULLS LAST,
+    r.created_at DESC,
+    r.id
+  LIMIT LEAST(GREATEST(COALESCE(page_limit, 20), 1), 100)
+  OFFSET GREATEST(COALESCE(page_offset, 0), 0);
+$$;
+
+-- How many matches each status and category has. Each facet applies every
+-- filter except its own, so the counts show what picking another value gives.
+CREATE OR REPLACE FUNCTION search_report_facets(
+  search_text TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  category_filter TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_latitude DOUBLE PRECISION DEFAULT NULL,
+  search_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  report_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH matches AS (
+    SELECT m.status, m.category
+    FROM report_search_matches(
+      search_text, severity_filter, created_after, created_before, search_latitude, search_longitude, radius_km
+    ) m
+  )
+  SELECT 'status', matches.status, COUNT(*)
+  FROM matches
+  WHERE category_filter IS NULL OR matches.category = category_filter
+  GROUP BY matches.status
+  UNION ALL
+  SELECT 'category', matches.category, COUNT(*)
+  FROM matches
+  WHERE status_filter IS NULL OR matches.status = status_filter
+  GROUP BY matches.category;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_search_matches(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_reports(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_report_facets(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
@@ -0,0 +1,20 @@
+-- The parent check ran as the person replying, and report_comments only lets
+-- people read their own comments directly, so replies to anyone else's comment
+-- were rejected. It only answers whether the parent is on the same report.
+CREATE OR REPLACE FUNCTION check_report_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM report_comments c
+    WHERE c.id = NEW.parent_id AND c.report_id = NEW.report_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same report as their parent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
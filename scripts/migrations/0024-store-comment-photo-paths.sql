@@ -0,0 +1,153 @@
+-- Comment photos are stored as paths in the author's report-images folder
+-- only. Clients used to send the URLs too, and the thread showed whatever they
+-- sent, so a comment could embed any outside image. The app now builds the
+-- public URLs from the paths.
+ALTER TABLE report_comments ADD COLUMN IF NOT EXISTS thumbnail_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Uploads keep thumbnails under `${profile_id}/thumbnails/` with the same name
+UPDATE report_comments
+SET thumbnail_paths = ARRAY(
+  SELECT regexp_replace(path, '^([^/]+)/', '\1/thumbnails/')
+  FROM unnest(photo_paths) WITH ORDINALITY AS p(path, position)
+  ORDER BY position
+)
+WHERE CARDINALITY(thumbnail_paths) <> CARDINALITY(photo_paths);
+
+-- Drop photos that were never in their author's folder
+UPDATE report_comments c
+SET photo_paths = '{}', thumbnail_paths = '{}'
+WHERE EXISTS (
+  SELECT 1 FROM unnest(c.photo_paths || c.thumbnail_paths) AS path
+  WHERE c.profile_id IS NULL OR path NOT LIKE c.profile_id::TEXT || '/%'
+);
+
+ALTER TABLE report_comments DROP CONSTRAINT IF EXISTS report_comments_photo_limit;
+ALTER TABLE report_comments ADD CONSTRAINT report_comments_photo_limit CHECK (
+  CARDINALITY(photo_paths) <= 3
+  AND CARDINALITY(thumbnail_paths) = CARDINALITY(photo_paths)
+);
+
+DROP POLICY IF EXISTS "Users can comment on reports they can see" ON report_comments;
+CREATE POLICY "Users can comment on reports they can see" ON report_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = profile_id
+    AND deleted_at IS NULL
+    AND hidden_at IS NULL
+    AND EXISTS (SELECT 1 FROM reports r WHERE r.id = report_comments.report_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(photo_paths || thumbnail_paths) AS path
+      WHERE path NOT LIKE auth.uid()::TEXT || '/%'
+    )
+  );
+
+-- The thread returns paths instead of URLs, so its return type changes
+DROP FUNCTION IF EXISTS report_comment_thread(UUID);
+
+ALTER TABLE report_comments DROP COLUMN IF EXISTS photo_urls;
+ALTER TABLE report_comments DROP COLUMN IF EXISTS thumbnail_urls;
+
+CREATE OR REPLACE FUNCTION report_comment_thread(target_report_id UUID)
+RETURNS TABLE (
+  id UUID,
+  report_id UUID,
+  parent_id UUID,
+  profile_id UUID,
+  body TEXT,
+  photo_paths TEXT[],
+  thumbnail_paths TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  hidden_reason TEXT,
+  author_name TEXT,
+  author_role TEXT,
+  author_is_reporter BOOLEAN,
+  author_is_assigned_contractor BOOLEAN,
+  flag_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+  caller_is_admin BOOLEAN := is_admin();
+BEGIN
+  SELECT * INTO report FROM reports r WHERE r.id = target_report_id;
+
+  -- Same visibility as the reports SELECT policy
+  IF NOT FOUND OR NOT (
+    report.hidden_at IS NULL
+    OR auth.uid() = report.profile_id
+    OR auth.uid() = report.assigned_contractor_id
+    OR caller_is_admin
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.report_id,
+    c.parent_id,
+    c.profile_id,
+    CASE WHEN visible.show_content THEN c.body ELSE '' END,
+    CASE WHEN visible.show_content THEN c.photo_paths ELSE '{}'::TEXT[] END,
+    CASE WHEN visible.show_content THEN c.thumbnail_paths ELSE '{}'::TEXT[] END,
+    c.created_at,
+    c.edited_at,
+    c.deleted_at,
+    c.hidden_at,
+    CASE WHEN caller_is_admin OR auth.uid() = c.profile_id THEN c.hidden_reason END,
+    p.name,
+    p.role,
+    c.profile_id IS NOT DISTINCT FROM report.profile_id,
+    c.profile_id IS NOT DISTINCT FROM report.assigned_contractor_id,
+    CASE
+      WHEN caller_is_admin THEN (SELECT COUNT(*)::INTEGER FROM report_comment_flags f WHERE f.comment_id = c.id)
+      ELSE 0
+    END
+  FROM report_comments c
+  LEFT JOIN profiles p ON p.id = c.profile_id
+  CROSS JOIN LATERAL (
+    SELECT c.deleted_at IS NULL
+      AND (c.hidden_at IS NULL OR caller_is_admin OR auth.uid() = c.profile_id) AS show_content
+  ) visible
+  WHERE c.report_id = target_report_id
+  ORDER BY c.created_at ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_report_comment(target_comment_id UUID)
+RETURNS report_comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  comment report_comments;
+BEGIN
+  SELECT * INTO comment FROM report_comments WHERE id = target_comment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF comment.profile_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'You can only delete your own comments';
+  END IF;
+
+  UPDATE report_comments
+  SET deleted_at = COALESCE(deleted_at, NOW()),
+      body = '',
+      photo_paths = '{}',
+      thumbnail_paths = '{}'
+  WHERE id = target_comment_id
+  RETURNING * INTO comment;
+
+  RETURN comment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION report_comment_thread(UUID) TO anon, authenticated;
@@ -0,0 +1,76 @@
+-- The dispatcher is called by a webhook on every notifications insert, and
+-- one status change inserts a row per follower, so calls overlap. Each call
+-- now claims its batch before sending so no two calls send the same
+-- notification, and failed deliveries wait before they are retried.
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS email_next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS push_next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- 'sending' marks a delivery claimed by a dispatcher
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_email_status_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_email_status_check
+  CHECK (email_status IN ('pending', 'sending', 'sent', 'failed', 'skipped'));
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_push_status_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_push_status_check
+  CHECK (push_status IN ('pending', 'sending', 'sent', 'failed', 'skipped'));
+
+DROP INDEX IF EXISTS notifications_email_pending_idx;
+DROP INDEX IF EXISTS notifications_push_pending_idx;
+CREATE INDEX IF NOT EXISTS notifications_email_due_idx ON notifications (email_next_attempt_at)
+  WHERE email_status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS notifications_push_due_idx ON notifications (push_next_attempt_at)
+  WHERE push_status IN ('pending', 'sending');
+
+-- Claim up to batch_size due deliveries on one channel, oldest first, and
+-- count the attempt. Rows locked by a concurrent claim are skipped. A claim
+-- lasts lease_seconds; a dispatcher that dies mid-batch leaves its rows in
+-- 'sending', and they become due again once the lease runs out.
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(
+  channel TEXT,
+  batch_size INTEGER DEFAULT 50,
+  lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF channel = 'email' THEN
+    RETURN QUERY
+    UPDATE notifications n
+    SET email_status = 'sending',
+        email_attempts = n.email_attempts + 1,
+        email_next_attempt_at = NOW() + make_interval(secs => lease_seconds)
+    WHERE n.id IN (
+      SELECT due.id FROM notifications due
+      WHERE due.email_status IN ('pending', 'sending')
+        AND due.email_next_attempt_at <= NOW()
+      ORDER BY due.created_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*;
+  ELSIF channel = 'push' THEN
+    RETURN QUERY
+    UPDATE notifications n
+    SET push_status = 'sending',
+        push_attempts = n.push_attempts + 1,
+        push_next_attempt_at = NOW() + make_interval(secs => lease_seconds)
+    WHERE n.id IN (
+      SELECT due.id FROM notifications due
+      WHERE due.push_status IN ('pending', 'sending')
+        AND due.push_next_attempt_at <= NOW()
+      ORDER BY due.created_at
+      LIMIT batch_size
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*;
+  ELSE
+    RAISE EXCEPTION 'Unknown notification channel: %', channel;
+  END IF;
+END;
+$$;
+
+-- Only the dispatcher, which uses the service role, claims deliveries
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notification_deliveries(TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,52 @@
+-- Income is what a contractor has actually been paid: settled payouts
+-- (status 'paid') for jobs that are still completed, dated by when they were
+-- paid. A payout stays pending until the reporter closes the report, which
+-- settles it (0027), so a job that is resolved but not yet closed does not
+-- count as income yet.
+CREATE OR REPLACE FUNCTION get_contractor_stats(
+  target_contractor_id UUID,
+  since TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  jobs_assigned BIGINT,
+  jobs_completed BIGINT,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  total_income NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    (
+      SELECT COUNT(*) FROM job_assignments a
+      WHERE a.contractor_id = target_contractor_id
+        AND a.status <> 'cancelled'
+        AND (since IS NULL OR a.assigned_at >= since)
+    ) AS jobs_assigned,
+    (
+      SELECT COUNT(*) FROM job_assignments a
+      WHERE a.contractor_id = target_contractor_id
+        AND a.status = 'completed'
+        AND (since IS NULL OR a.completed_at >= since)
+    ) AS jobs_completed,
+    (
+      SELECT ROUND(AVG(r.rating)::NUMERIC, 2) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+        AND (since IS NULL OR r.created_at >= since)
+    ) AS average_rating,
+    (
+      SELECT COUNT(*) FROM contractor_reviews r
+      WHERE r.contractor_id = target_contractor_id
+        AND (since IS NULL OR r.created_at >= since)
+    ) AS review_count,
+    (
+      SELECT COALESCE(SUM(p.amount), 0) FROM contractor_payments p
+      JOIN job_assignments a ON a.id = p.assignment_id
+      WHERE p.contractor_id = target_contractor_id
+        AND p.status = 'paid'
+        AND a.status = 'completed'
+        AND (since IS NULL OR p.paid_at >= since)
+    ) AS total_income;
+$$;
@@ -0,0 +1,138 @@
+-- Follow-ups to the status trigger from 0006:
+-- * a contractor's payout was created 'pending' and never settled; it is now
+--   paid when the reporter confirms the fix by closing the report
+-- * releasing a job left its bids accepted or rejected, and one bid per
+--   contractor per report meant nobody who had bid could bid again
+-- * citizens cannot read other people's profiles, so the timeline showed
+--   no actor for them; the actor's name and role now live on the row
+
+-- Record every status change and keep the job assignment in step
+CREATE OR REPLACE FUNCTION record_report_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment job_assignments;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO report_status_history (report_id, from_status, to_status, actor_id)
+    VALUES (NEW.id, NULL, NEW.status, NEW.profile_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO report_status_history (report_id, from_status, to_status, actor_id, note)
+  VALUES (
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.status_note', true), '')
+  );
+
+  SELECT * INTO assignment FROM job_assignments WHERE report_id = NEW.id;
+  IF FOUND THEN
+    IF NEW.status = 'resolved' THEN
+      UPDATE job_assignments
+      SET status = 'completed', completed_at = NOW()
+      WHERE id = assignment.id;
+
+      INSERT INTO contractor_payments (assignment_id, contractor_id, amount)
+      VALUES (assignment.id, assignment.contractor_id, assignment.agreed_price);
+    ELSIF OLD.status = 'resolved' AND NEW.status = 'in_progress' THEN
+      UPDATE job_assignments
+      SET status = 'active', completed_at = NULL
+      WHERE id = assignment.id;
+
+      DELETE FROM contractor_payments
+      WHERE assignment_id = assignment.id AND status = 'pending';
+    ELSIF OLD.status = 'resolved' AND NEW.status = 'closed' THEN
+      UPDATE contractor_payments
+      SET status = 'paid', paid_at = NOW()
+      WHERE assignment_id = assignment.id AND status = 'pending';
+    ELSIF NEW.status = 'pending' THEN
+      UPDATE job_assignments
+      SET status = 'cancelled'
+      WHERE id = assignment.id;
+
+      -- The job is open again: the other offers stand, and whoever gave it
+      -- back is free to bid on it later
+      DELETE FROM job_bids
+      WHERE report_id = NEW.id AND status = 'accepted';
+
+      UPDATE job_bids
+      SET status = 'pending', updated_at = NOW()
+      WHERE report_id = NEW.id AND status = 'rejected';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Settle payouts for reports that were already closed
+UPDATE contractor_payments p
+SET status = 'paid', paid_at = COALESCE(
+  (
+    SELECT MAX(h.created_at) FROM report_status_history h
+    WHERE h.report_id = a.report_id AND h.to_status = 'closed'
+  ),
+  NOW()
+)
+FROM job_assignments a
+JOIN reports r ON r.id = a.report_id
+WHERE a.id = p.assignment_id
+  AND p.status = 'pending'
+  AND r.status = 'closed';
+
+-- Reopen bids on jobs that were released before this migration
+DELETE FROM job_bids b
+USING reports r
+WHERE r.id = b.report_id
+  AND r.status = 'pending'
+  AND b.status = 'accepted';
+
+UPDATE job_bids b
+SET status = 'pending', updated_at = NOW()
+FROM reports r
+WHERE r.id = b.report_id
+  AND r.status = 'pending'
+  AND b.status = 'rejected';
+
+-- Copy who made each change onto the history row
+ALTER TABLE report_status_history
+  ADD COLUMN IF NOT EXISTS actor_name TEXT,
+  ADD COLUMN IF NOT EXISTS actor_role TEXT;
+
+CREATE OR REPLACE FUNCTION fill_report_status_actor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.actor_id IS NOT NULL THEN
+    SELECT p.name, p.role INTO NEW.actor_name, NEW.actor_role
+    FROM profiles p
+    WHERE p.id = NEW.actor_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS fill_report_status_actor ON report_status_history;
+CREATE TRIGGER fill_report_status_actor
+  BEFORE INSERT ON report_status_history
+  FOR EACH ROW EXECUTE FUNCTION fill_report_status_actor();
+
+UPDATE report_status_history h
+SET actor_name = p.name, actor_role = p.role
+FROM profiles p
+WHERE p.id = h.actor_id
+  AND h.actor_name IS NULL;
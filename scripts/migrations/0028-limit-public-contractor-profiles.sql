@@ -0,0 +1,16 @@
+-- 0007 made every contractor's profiles row readable by anyone, which exposed
+-- all of its columns (age, gender and anything added later) to signed-out
+-- visitors. The row is private again; what the site shows about a contractor
+-- comes from this view, which carries only the public fields.
+DROP POLICY IF EXISTS "Contractor profiles are viewable by everyone" ON profiles;
+
+-- Runs as its owner, so it reads past the profiles policies; the column list
+-- is what keeps the rest of the row private
+CREATE OR REPLACE VIEW public_contractor_profiles
+WITH (security_barrier = true)
+AS
+  SELECT p.id, p.name, p.profession
+  FROM profiles p
+  WHERE p.role = 'Contractor';
+
+GRANT SELECT ON public_contractor_profiles TO anon, authenticated;
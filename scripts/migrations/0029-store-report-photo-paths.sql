@@ -0,0 +1,401 @@
+-- Report photos are stored as paths in the reporter's report-images folder
+-- only. create_report_with_transaction used to copy whatever URLs and paths
+-- the client sent, so a public report could show any outside image or
+-- another user's upload. The app now builds the public URLs from the paths.
+
+-- Whether every path sits in the given user's folder
+CREATE OR REPLACE FUNCTION storage_paths_in_folder(paths TEXT[], folder UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT folder IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM unnest(paths) AS path
+    WHERE path IS NULL OR path NOT LIKE folder::TEXT || '/%'
+  );
+$$;
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS thumbnail_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Reports filed since 0011 have their paths in report_photos
+UPDATE reports r
+SET photo_paths = ARRAY(
+      SELECT ph.storage_path FROM report_photos ph
+      WHERE ph.report_id = r.id
+      ORDER BY ph.position
+    ),
+    thumbnail_paths = ARRAY(
+      SELECT COALESCE(ph.thumbnail_path, ph.storage_path) FROM report_photos ph
+      WHERE ph.report_id = r.id
+      ORDER BY ph.position
+    )
+WHERE EXISTS (SELECT 1 FROM report_photos ph WHERE ph.report_id = r.id);
+
+-- Older reports only kept public URLs, which end in the path
+UPDATE reports r
+SET photo_paths = ARRAY(
+      SELECT substring(url FROM '/object/public/report-images/(.+)$')
+      FROM unnest(r.photo_urls) WITH ORDINALITY AS u(url, position)
+      ORDER BY position
+    ),
+    thumbnail_paths = ARRAY(
+      SELECT substring(url FROM '/object/public/report-images/(.+)$')
+      FROM unnest(r.thumbnail_urls) WITH ORDINALITY AS u(url, position)
+      ORDER BY position
+    )
+WHERE NOT EXISTS (SELECT 1 FROM report_photos ph WHERE ph.report_id = r.id)
+  AND CARDINALITY(r.photo_urls) > 0;
+
+-- Drop photos that were never in their reporter's folder
+UPDATE reports
+SET photo_paths = '{}', thumbnail_paths = '{}'
+WHERE CARDINALITY(thumbnail_paths) <> CARDINALITY(photo_paths)
+  OR NOT storage_paths_in_folder(photo_paths || thumbnail_paths, profile_id);
+
+DELETE FROM report_photos ph
+USING reports r
+WHERE r.id = ph.report_id
+  AND NOT storage_paths_in_folder(ARRAY_REMOVE(ARRAY[ph.storage_path, ph.thumbnail_path], NULL), r.profile_id);
+
+-- Also covers direct inserts and edits by the reporter
+ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_photo_paths_check;
+ALTER TABLE reports ADD CONSTRAINT reports_photo_paths_check CHECK (
+  CARDINALITY(thumbnail_paths) = CARDINALITY(photo_paths)
+  AND storage_paths_in_folder(photo_paths || thumbnail_paths, profile_id)
+);
+
+-- The functions below return paths instead of URLs, so their return types change
+DROP FUNCTION IF EXISTS find_similar_reports(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER);
+DROP FUNCTION IF EXISTS reports_near_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER, TEXT, TEXT);
+DROP FUNCTION IF EXISTS search_reports(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER);
+
+ALTER TABLE reports DROP COLUMN IF EXISTS photo_urls;
+ALTER TABLE reports DROP COLUMN IF EXISTS thumbnail_urls;
+ALTER TABLE report_photos DROP COLUMN IF EXISTS public_url;
+ALTER TABLE report_photos DROP COLUMN IF EXISTS thumbnail_url;
+
+-- Same as 0016, but takes paths only and checks they are the reporter's.
+-- new_photos is an array of { storage_path, thumbnail_path, content_type, size_bytes }.
+CREATE OR REPLACE FUNCTION create_report_with_transaction(
+  new_report_id UUID,
+  new_location_string TEXT,
+  new_description TEXT,
+  new_category TEXT,
+  new_severity TEXT,
+  new_latitude DOUBLE PRECISION,
+  new_longitude DOUBLE PRECISION,
+  new_address TEXT,
+  new_contribution_amount NUMERIC,
+  new_photos JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reporter_id UUID := auth.uid();
+  created_report reports;
+BEGIN
+  IF reporter_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to report an incident';
+  END IF;
+
+  IF new_contribution_amount IS NULL OR new_contribution_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution amount must be greater than 0';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(new_photos, '[]'::JSONB)) AS p(photo)
+    WHERE COALESCE(photo->>'storage_path', '') NOT LIKE reporter_id::TEXT || '/%'
+      OR COALESCE(photo->>'thumbnail_path', photo->>'storage_path') NOT LIKE reporter_id::TEXT || '/%'
+  ) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to your own folder';
+  END IF;
+
+  SELECT * INTO created_report FROM reports WHERE id = new_report_id;
+
+  IF FOUND THEN
+    IF created_report.profile_id <> reporter_id THEN
+      RAISE EXCEPTION 'Report % already exists', new_report_id;
+    END IF;
+  ELSE
+    INSERT INTO reports (
+      id, profile_id, location_string, description, category, severity,
+      latitude, longitude, address, photo_paths, thumbnail_paths, status
+    )
+    VALUES (
+      new_report_id,
+      reporter_id,
+      new_location_string,
+      new_description,
+      new_category,
+      new_severity,
+      new_latitude,
+      new_longitude,
+      new_address,
+      ARRAY(
+        SELECT photo->>'storage_path'
+        FROM jsonb_array_elements(COALESCE(new_photos, '[]'::JSONB)) WITH ORDINALITY AS p(photo, position)
+        ORDER BY position
+      ),
+      ARRAY(
+        SELECT COALESCE(photo->>'thumbnail_path', photo->>'storage_path')
+        FROM jsonb_array_elements(COALESCE(new_photos, '[]'::JSONB)) WITH ORDINALITY AS p(photo, position)
+        ORDER BY position
+      ),
+      'pending'
+    )
+    RETURNING * INTO created_report;
+
+    INSERT INTO report_photos (
+      report_id, storage_path, thumbnail_path, content_type, size_bytes, position
+    )
+    SELECT
+      created_report.id,
+      photo->>'storage_path',
+      photo->>'thumbnail_path',
+      photo->>'content_type',
+      (photo->>'size_bytes')::BIGINT,
+      position - 1
+    FROM jsonb_array_elements(COALESCE(new_photos, '[]'::JSONB)) WITH ORDINALITY AS p(photo, position);
+
+    INSERT INTO transactions (
+      transaction_id, report_id, amount, currency, status, transaction_verified, transaction_time
+    )
+    VALUES (
+      'TXN-' || UPPER(gen_random_uuid()::TEXT),
+      created_report.id,
+      ROUND(new_contribution_amount, 2),
+      'usd',
+      'pending',
+      FALSE,
+      NOW()
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'report', to_jsonb(created_report) - 'location',
+    'photos', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ph) ORDER BY ph.position) FROM report_photos ph WHERE ph.report_id = created_report.id),
+      '[]'::JSONB
+    ),
+    'transaction', (
+      SELECT to_jsonb(t)
+      FROM transactions t
+      WHERE t.report_id = created_report.id
+      ORDER BY t.created_at ASC
+      LIMIT 1
+    )
+  );
+END;
+$$;
+
+-- Same as 0009, with photo paths instead of URLs
+CREATE OR REPLACE FUNCTION reports_near_location(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION DEFAULT 5,
+  status_filter TEXT DEFAULT NULL,
+  page_limit INTEGER DEFAULT NULL,
+  page_offset INTEGER DEFAULT 0,
+  category_filter TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_paths TEXT[],
+  thumbnail_paths TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(search_longitude, search_latitude), 4326)::geography AS point
+  )
+  SELECT
+    r.id,
+    r.profile_id,
+    r.location_string,
+    r.description,
+    r.latitude::DOUBLE PRECISION,
+    r.longitude::DOUBLE PRECISION,
+    r.address,
+    r.photo_paths,
+    r.thumbnail_paths,
+    r.status,
+    r.category,
+    r.severity,
+    r.created_at,
+    r.updated_at,
+    ST_Distance(r.location, origin.point) / 1000 AS distance_km,
+    p.name AS reporter_name
+  FROM reports r
+  CROSS JOIN origin
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE r.location IS NOT NULL
+    AND ST_DWithin(r.location, origin.point, radius_km * 1000)
+    AND (status_filter IS NULL OR r.status = status_filter)
+    AND (category_filter IS NULL OR r.category = category_filter)
+    AND (severity_filter IS NULL OR r.severity = severity_filter)
+  ORDER BY distance_km ASC, r.created_at DESC
+  LIMIT page_limit
+  OFFSET page_offset;
+$$;
+
+-- Same as 0009, with photo paths instead of URLs
+CREATE OR REPLACE FUNCTION find_similar_reports(
+  search_latitude DOUBLE PRECISION,
+  search_longitude DOUBLE PRECISION,
+  search_description TEXT DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT 0.2,
+  max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_paths TEXT[],
+  thumbnail_paths TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  reporter_name TEXT,
+  upvote_count INTEGER,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    n.id,
+    n.profile_id,
+    n.location_string,
+    n.description,
+    n.latitude,
+    n.longitude,
+    n.address,
+    n.photo_paths,
+    n.thumbnail_paths,
+    n.status,
+    n.category,
+    n.severity,
+    n.created_at,
+    n.updated_at,
+    n.distance_km,
+    n.reporter_name,
+    r.upvote_count,
+    CASE
+      WHEN COALESCE(search_description, '') = '' THEN 0
+      ELSE similarity(n.description, search_description)
+    END AS similarity
+  FROM reports_near_location(search_latitude, search_longitude, radius_km) n
+  JOIN reports r ON r.id = n.id
+  WHERE n.status IN ('pending', 'in_progress')
+  ORDER BY similarity DESC, n.distance_km ASC
+  LIMIT max_results;
+$$;
+
+-- Same as 0022, with photo paths instead of URLs
+CREATE OR REPLACE FUNCTION search_reports(
+  search_text TEXT DEFAULT NULL,
+  status_filter TEXT DEFAULT NULL,
+  category_filter TEXT DEFAULT NULL,
+  severity_filter TEXT DEFAULT NULL,
+  created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  search_latitude DOUBLE PRECISION DEFAULT NULL,
+  search_longitude DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_limit INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  profile_id UUID,
+  location_string TEXT,
+  description TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  photo_paths TEXT[],
+  thumbnail_paths TEXT[],
+  status TEXT,
+  category TEXT,
+  severity TEXT,
+  upvote_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  reporter_name TEXT,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    r.id,
+    r.profile_id,
+    r.location_string,
+    r.description,
+    r.latitude::DOUBLE PRECISION,
+    r.longitude::DOUBLE PRECISION,
+    r.address,
+    r.photo_paths,
+    r.thumbnail_paths,
+    r.status,
+    r.category,
+    r.severity,
+    r.upvote_count,
+    r.created_at,
+    r.updated_at,
+    p.name AS reporter_name,
+    m.rank,
+    m.distance_km,
+    COUNT(*) OVER () AS total_count
+  FROM report_search_matches(
+    search_text, severity_filter, created_after, created_before, search_latitude, search_longitude, radius_km
+  ) m
+  JOIN reports r ON r.id = m.id
+  LEFT JOIN profiles p ON p.id = r.profile_id
+  WHERE (status_filter IS NULL OR m.status = status_filter)
+    AND (category_filter IS NULL OR m.category = category_filter)
+  ORDER BY
+    CASE WHEN sort_by = 'relevance' THEN m.rank END DESC NULLS LAST,
+    CASE WHEN sort_by = 'distance' THEN m.distance_km END ASC NULLS LAST,
+    r.created_at DESC,
+    r.id
+  LIMIT LEAST(GREATEST(COALESCE(page_limit, 20), 1), 100)
+  OFFSET GREATEST(COALESCE(page_offset, 0), 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION reports_near_location(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_similar_reports(DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_reports(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,38 @@
+-- Review photos are stored as paths in the reviewer's report-images folder.
+-- photo_urls was filled in by the client and shown on the public contractor
+-- page, so a review could embed any outside image or tracking URL. The app
+-- now builds the public URLs from the paths.
+ALTER TABLE contractor_reviews ADD COLUMN IF NOT EXISTS photo_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Uploaded review photos kept their public URL, which ends in the path
+UPDATE contractor_reviews
+SET photo_paths = ARRAY(
+  SELECT substring(url FROM '/object/public/report-images/(.+)$')
+  FROM unnest(photo_urls) WITH ORDINALITY AS u(url, position)
+  ORDER BY position
+)
+WHERE CARDINALITY(photo_urls) > 0;
+
+-- Drop photos that were never in their reviewer's folder
+UPDATE contractor_reviews
+SET photo_paths = '{}'
+WHERE NOT storage_paths_in_folder(photo_paths, reviewer_id);
+
+ALTER TABLE contractor_reviews DROP COLUMN IF EXISTS photo_urls;
+
+-- Same as 0007, but photos must be in the reviewer's own folder
+DROP POLICY IF EXISTS "Reporters can review their resolved reports" ON contractor_reviews;
+CREATE POLICY "Reporters can review their resolved reports" ON contractor_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = reviewer_id
+    AND storage_paths_in_folder(photo_paths, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM reports
+      JOIN job_assignments ON job_assignments.report_id = reports.id
+      WHERE reports.id = contractor_reviews.report_id
+        AND reports.profile_id = auth.uid()
+        AND reports.status IN ('resolved', 'closed')
+        AND job_assignments.id = contractor_reviews.assignment_id
+        AND job_assignments.contractor_id = contractor_reviews.contractor_id
+    )
+  );
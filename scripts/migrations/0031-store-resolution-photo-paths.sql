@@ -0,0 +1,96 @@
+-- resolve_report checked that each photo's storage path was the contractor's,
+-- but stored the public and thumbnail URLs the client sent alongside it, so
+-- the evidence shown on a report could point anywhere. Resolutions now keep
+-- paths only, and the app builds the public URLs from them.
+ALTER TABLE report_resolutions ADD COLUMN IF NOT EXISTS thumbnail_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Thumbnail URLs end in their path; fall back to the full photo for any
+-- thumbnail outside the contractor's folder
+UPDATE report_resolutions rr
+SET thumbnail_paths = ARRAY(
+  SELECT CASE
+    WHEN storage_paths_in_folder(ARRAY[thumbnail_path], rr.contractor_id) THEN thumbnail_path
+    ELSE photo_path
+  END
+  FROM unnest(rr.photo_paths, rr.thumbnail_urls) WITH ORDINALITY AS p(photo_path, thumbnail_url, position)
+  CROSS JOIN LATERAL substring(thumbnail_url FROM '/object/public/report-images/(.+)$') AS thumbnail_path
+  WHERE photo_path IS NOT NULL
+  ORDER BY position
+)
+WHERE CARDINALITY(rr.thumbnail_paths) <> CARDINALITY(rr.photo_paths);
+
+ALTER TABLE report_resolutions DROP COLUMN IF EXISTS photo_urls;
+ALTER TABLE report_resolutions DROP COLUMN IF EXISTS thumbnail_urls;
+
+ALTER TABLE report_resolutions DROP CONSTRAINT IF EXISTS report_resolutions_photo_paths_check;
+ALTER TABLE report_resolutions ADD CONSTRAINT report_resolutions_photo_paths_check CHECK (
+  CARDINALITY(photo_paths) > 0
+  AND CARDINALITY(thumbnail_paths) = CARDINALITY(photo_paths)
+);
+
+-- Same as 0017, but stores the checked paths instead of the client's URLs.
+-- new_photos is an array of { storage_path, thumbnail_path }.
+CREATE OR REPLACE FUNCTION resolve_report(
+  target_report_id UUID,
+  completion_note TEXT,
+  new_photos JSONB
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report reports;
+BEGIN
+  SELECT * INTO report FROM reports WHERE id = target_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF report.assigned_contractor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the assigned contractor can resolve this report';
+  END IF;
+
+  IF report.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only reports in progress can be resolved';
+  END IF;
+
+  IF COALESCE(TRIM(completion_note), '') = '' THEN
+    RAISE EXCEPTION 'Describe the work you did';
+  END IF;
+
+  IF new_photos IS NULL OR jsonb_array_length(new_photos) = 0 THEN
+    RAISE EXCEPTION 'Add at least one photo of the finished work';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(new_photos) AS p(photo)
+    WHERE NOT storage_paths_in_folder(
+      ARRAY[photo->>'storage_path', COALESCE(photo->>'thumbnail_path', photo->>'storage_path')],
+      auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to your own folder';
+  END IF;
+
+  INSERT INTO report_resolutions (report_id, contractor_id, note, photo_paths, thumbnail_paths)
+  SELECT
+    target_report_id,
+    auth.uid(),
+    TRIM(completion_note),
+    ARRAY_AGG(photo->>'storage_path' ORDER BY position),
+    ARRAY_AGG(COALESCE(photo->>'thumbnail_path', photo->>'storage_path') ORDER BY position)
+  FROM jsonb_array_elements(new_photos) WITH ORDINALITY AS p(photo, position);
+
+  PERFORM set_config('app.status_note', TRIM(completion_note), true);
+
+  UPDATE reports
+  SET status = 'resolved',
+      updated_at = NOW()
+  WHERE id = target_report_id
+  RETURNING * INTO report;
+
+  RETURN report;
+END;
+$$;
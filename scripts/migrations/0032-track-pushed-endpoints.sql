@@ -0,0 +1,6 @@
+-- A push is sent to every browser the recipient subscribed, and a retry used
+-- to send it to all of them again, so browsers that already had it got it
+-- twice. The dispatcher records each endpoint it reached here and only
+-- retries the ones that are missing.
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS push_sent_endpoints TEXT[] NOT NULL DEFAULT '{}';
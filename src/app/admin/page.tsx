@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AdminCommentQueue } from "@/components/admin-comment-queue"
+import { AdminContractorApplications } from "@/components/admin-contractor-applications"
+import { AdminReportQueue } from "@/components/admin-report-queue"
+import { AdminUserList } from "@/components/admin-user-list"
+import { useRequireProfile } from "@/components/supabase-provider"
+
+type AdminTab = "reports" | "comments" | "contractors" | "users"
+
+export default function AdminConsolePage() {
+  const { profile, isAllowed, isLoading, profileError, refreshProfile, signOut } = useRequireProfile()
+  const [tab, setTab] = useState<AdminTab>("reports")
+
+  if (profileError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-red-600">{profileError}</p>
+          <Button onClick={refreshProfile}>Try Again</Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (isLoading || !profile || !isAllowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen p-6 bg-gray-50">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Moderation Console</h1>
+            <p className="text-gray-600">Signed in as {profile.name} (Admin)</p>
+          </div>
+          <Button variant="outline" onClick={signOut}>
+            Sign Out
+          </Button>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <Button variant={tab === "reports" ? "default" : "outline"} onClick={() => setTab("reports")}>
+            Reports
+          </Button>
+          <Button variant={tab === "comments" ? "default" : "outline"} onClick={() => setTab("comments")}>
+            Comments
+          </Button>
+          <Button variant={tab === "contractors" ? "default" : "outline"} onClick={() => setTab("contractors")}>
+            Contractors
+          </Button>
+          <Button variant={tab === "users" ? "default" : "outline"} onClick={() => setTab("users")}>
+            Users
+          </Button>
+        </div>
+
+        {tab === "reports" && <AdminReportQueue />}
+        {tab === "comments" && <AdminCommentQueue />}
+        {tab === "contractors" && <AdminContractorApplications />}
+        {tab === "users" && <AdminUserList currentProfileId={profile.id} />}
+      </div>
+    </div>
+  )
+}
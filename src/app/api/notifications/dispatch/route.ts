@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { dispatchPendingNotifications, isAuthorizedDispatchRequest } from '@/lib/notifications'
+
+// Called by a scheduler or a Supabase database webhook on notifications
+// inserts. Each call claims and sends its own batch, so calls can overlap.
+// Failed deliveries wait before being retried, so a scheduler is still needed
+// to pick them up when no new notifications arrive.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedDispatchRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  } catch (error) {
+    console.error('Error authorizing notification dispatch:', error)
+    return NextResponse.json({ error: 'Notification dispatch is not configured' }, { status: 500 })
+  }
+
+  try {
+    const result = await dispatchPendingNotifications(request.nextUrl.origin)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error dispatching notifications:', error)
+    return NextResponse.json({ error: 'Failed to dispatch notifications' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createAdminClient, getUserFromRequest } from '@/lib/supabase-admin'
+import { PAYMENT_CURRENCY, getPaymentProvider } from '@/lib/payments'
+
+interface CreateIntentBody {
+  // Pending transaction created alongside its report by create_report_with_transaction
+  transactionId?: string
+}
+
+const RETURN_PATH = '/my-contributions'
+
+export async function POST(request: NextRequest) {
+  const user = await getUserFromRequest(request)
+  if (!user) {
+    return NextResponse.json({ error: 'You need to be signed in to pay' }, { status: 401 })
+  }
+
+  let body: CreateIntentBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!body.transactionId) {
+    return NextResponse.json({ error: 'A transaction is required' }, { status: 400 })
+  }
+
+  try {
+    const admin = createAdminClient()
+    const provider = getPaymentProvider()
+
+    const { data: transaction, error } = await admin
+      .from('transactions')
+      .select('id, transaction_id, amount, status, report:reports!inner(profile_id)')
+      .eq('transaction_id', body.transactionId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load transaction: ${error.message}`)
+
+    if (!transaction || transaction.report.profile_id !== user.id) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+    if (transaction.status !== 'pending') {
+      return NextResponse.json({ error: 'This transaction has already been processed' }, { status: 409 })
+    }
+
+    const intent = await provider.createPaymentIntent({
+      transactionId: transaction.transaction_id,
+      amount: Number(transaction.amount),
+      currency: PAYMENT_CURRENCY,
+      description: `Contribution ${transaction.transaction_id}`,
+      returnPath: RETURN_PATH
+    })
+
+    const { error: updateError } = await admin
+      .from('transactions')
+      .update({ provider: provider.name, provider_intent_id: intent.providerIntentId })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+
+    if (updateError) throw new Error(`Failed to update transaction: ${updateError.message}`)
+
+    return NextResponse.json({ transactionId: transaction.transaction_id, checkoutUrl: intent.checkoutUrl })
+  } catch (error) {
+    console.error('Error creating payment intent:', error)
+    return NextResponse.json({ error: 'Failed to start payment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createAdminClient, getUserFromRequest } from '@/lib/supabase-admin'
+import {
+  PAYMENT_SIGNATURE_HEADER,
+  isMockPaymentProviderEnabled,
+  signPaymentPayload,
+  type PaymentWebhookEvent
+} from '@/lib/payments'
+
+interface ConfirmBody {
+  intentId?: string
+  outcome?: 'succeeded' | 'failed'
+}
+
+// Plays the part of the provider for the mock checkout page: it sends our own
+// webhook route the same signed call a real provider would. It takes the
+// payer's word for the outcome, so it does not exist in production.
+export async function POST(request: NextRequest) {
+  if (!isMockPaymentProviderEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const user = await getUserFromRequest(request)
+  if (!user) {
+    return NextResponse.json({ error: 'You need to be signed in to pay' }, { status: 401 })
+  }
+
+  let body: ConfirmBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!body.intentId || (body.outcome !== 'succeeded' && body.outcome !== 'failed')) {
+    return NextResponse.json({ error: 'An intent and outcome are required' }, { status: 400 })
+  }
+
+  try {
+    const { data: transaction, error } = await createAdminClient()
+      .from('transactions')
+      .select('transaction_id, amount, currency, report:reports!inner(profile_id)')
+      .eq('provider_intent_id', body.intentId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load transaction: ${error.message}`)
+
+    if (!transaction || transaction.report.profile_id !== user.id) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+    }
+
+    const event: PaymentWebhookEvent = {
+      type: body.outcome === 'succeeded' ? 'payment_intent.succeeded' : 'payment_intent.failed',
+      providerIntentId: body.intentId,
+      transactionId: transaction.transaction_id,
+      amount: Number(transaction.amount),
+      currency: transaction.currency,
+      payerName: 'Mock Card',
+      payerAccount: '**** 4242'
+    }
+    const rawBody = JSON.stringify(event)
+
+    const webhookResponse = await fetch(new URL('/api/payments/webhook', request.nextUrl.origin), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [PAYMENT_SIGNATURE_HEADER]: signPaymentPayload(rawBody)
+      },
+      body: rawBody
+    })
+
+    if (!webhookResponse.ok) {
+      throw new Error(`Webhook rejected mock payment with status ${webhookResponse.status}`)
+    }
+
+    return NextResponse.json({ status: body.outcome })
+  } catch (error) {
+    console.error('Error confirming mock payment:', error)
+    return NextResponse.json({ error: 'Failed to confirm payment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-admin'
+import { getPaymentProvider } from '@/lib/payments'
+
+// Providers retry until they get a 2xx, so every outcome that should not be
+// retried (already processed, unknown intent) still answers 200.
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text()
+
+  let event
+  try {
+    event = getPaymentProvider().parseWebhook(rawBody, request.headers)
+  } catch (error) {
+    console.error('Error parsing payment webhook:', error)
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
+  }
+
+  if (!event) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 })
+  }
+
+  try {
+    const admin = createAdminClient()
+
+    const { data: transaction, error } = await admin
+      .from('transactions')
+      .select('id, transaction_id, amount, currency, status')
+      .eq('provider_intent_id', event.providerIntentId)
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to load transaction: ${error.message}`)
+
+    if (!transaction || transaction.transaction_id !== event.transactionId) {
+      console.error('Payment webhook for unknown intent:', event.providerIntentId)
+      return NextResponse.json({ received: true })
+    }
+
+    if (transaction.status !== 'pending') {
+      return NextResponse.json({ received: true })
+    }
+
+    const amountMatches = Number(transaction.amount) === event.amount && transaction.currency === event.currency
+    const succeeded = event.type === 'payment_intent.succeeded' && amountMatches
+
+    if (event.type === 'payment_intent.succeeded' && !amountMatches) {
+      console.error('Payment webhook amount mismatch for transaction:', transaction.transaction_id)
+    }
+
+    const { error: updateError } = await admin
+      .from('transactions')
+      .update({
+        status: succeeded ? 'succeeded' : 'failed',
+        transaction_verified: succeeded,
+        verified_at: succeeded ? new Date().toISOString() : null,
+        name: event.payerName ?? null,
+        account: event.payerAccount ?? null,
+        transaction_time: new Date().toISOString()
+      })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+
+    if (updateError) throw new Error(`Failed to update transaction: ${updateError.message}`)
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error('Error handling payment webhook:', error)
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 })
+  }
+}
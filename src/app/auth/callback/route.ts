@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { LOGIN_PATH, getSafeRedirectPath } from '@/lib/route-access'
+
+// Landing point for email confirmation, magic link, password reset and OAuth sign-ins.
+// `next` defaults to the home page, which shows the questionnaire until the user has a profile.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const code = searchParams.get('code')
+  // Sign-in links can be crafted by anyone, so `next` must stay on this site
+  const next = getSafeRedirectPath(searchParams.get('next'), request.url)
+
+  const redirectToLogin = (message: string) => {
+    const url = new URL(LOGIN_PATH, request.url)
+    url.searchParams.set('error', message)
+    return NextResponse.redirect(url)
+  }
+
+  if (!code) {
+    // Providers report a declined consent or an expired link this way
+    return redirectToLogin(searchParams.get('error_description') ?? 'This sign-in link is invalid or has expired')
+  }
+
+  const supabase = await createServerSupabaseClient()
+  const { error } = await supabase.auth.exchangeCodeForSession(code)
+
+  if (error) {
+    console.error('Error exchanging auth code:', error)
+    return redirectToLogin('This sign-in link is invalid or has expired')
+  }
+
+  return NextResponse.redirect(new URL(next, request.url))
+}
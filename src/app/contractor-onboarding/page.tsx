@@ -0,0 +1,336 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, FileText, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+import { useRequireProfile } from "@/components/supabase-provider"
+import { REPORT_CATEGORY_LABELS, type ReportCategory } from "@/lib/report-categories"
+import {
+  CONTRACTOR_VERIFICATION_BADGE_CLASSES,
+  CONTRACTOR_VERIFICATION_LABELS,
+  DEFAULT_SERVICE_RADIUS_KM,
+  fetchContractorProfile,
+  getContractorDocumentUrl,
+  getVerificationStatus,
+  submitContractorApplication,
+  type ContractorProfile,
+} from "@/lib/supabase-contractor-onboarding"
+
+interface OnboardingForm {
+  businessName: string
+  licenceNumber: string
+  tradeCategories: ReportCategory[]
+  serviceRadiusKm: string
+}
+
+const emptyForm: OnboardingForm = {
+  businessName: "",
+  licenceNumber: "",
+  tradeCategories: [],
+  serviceRadiusKm: String(DEFAULT_SERVICE_RADIUS_KM),
+}
+
+const MAX_DOCUMENT_SIZE_MB = 10
+
+const toOnboardingForm = (details: ContractorProfile): OnboardingForm => ({
+  businessName: details.business_name,
+  licenceNumber: details.licence_number,
+  tradeCategories: details.trade_categories as ReportCategory[],
+  serviceRadiusKm: String(details.service_radius_km),
+})
+
+export default function ContractorOnboardingPage() {
+  const router = useRouter()
+  const { profile, isAllowed, profileError, refreshProfile } = useRequireProfile()
+  const [contractorProfile, setContractorProfile] = useState<ContractorProfile | null>(null)
+  const [form, setForm] = useState<OnboardingForm>(emptyForm)
+  const [existingDocumentPaths, setExistingDocumentPaths] = useState<string[]>([])
+  const [newDocuments, setNewDocuments] = useState<File[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const contractorId = isAllowed ? profile?.id : undefined
+
+  const showContractorProfile = (details: ContractorProfile) => {
+    setContractorProfile(details)
+    setNewDocuments([])
+    setForm(toOnboardingForm(details))
+    setExistingDocumentPaths(details.document_paths)
+  }
+
+  useEffect(() => {
+    if (!contractorId) return
+
+    setLoading(true)
+    setError(null)
+    fetchContractorProfile(contractorId)
+      .then((details) => {
+        setContractorProfile(details)
+        if (!details) return
+
+        setForm(toOnboardingForm(details))
+        setExistingDocumentPaths(details.document_paths)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load your details"))
+      .finally(() => setLoading(false))
+  }, [contractorId])
+
+  const status = getVerificationStatus(contractorProfile)
+  // Details are locked while an admin reviews them and once they are verified
+  const isReadOnly = status === "pending_review" || status === "verified"
+
+  const toggleCategory = (category: ReportCategory) => {
+    setForm({
+      ...form,
+      tradeCategories: form.tradeCategories.includes(category)
+        ? form.tradeCategories.filter((item) => item !== category)
+        : [...form.tradeCategories, category],
+    })
+  }
+
+  const handleDocumentSelect = (files: FileList | null) => {
+    if (!files) return
+
+    const selected = Array.from(files)
+    const tooLarge = selected.find((file) => file.size > MAX_DOCUMENT_SIZE_MB * 1024 * 1024)
+    if (tooLarge) {
+      setError(`${tooLarge.name} is larger than ${MAX_DOCUMENT_SIZE_MB}MB`)
+      return
+    }
+
+    setError(null)
+    setNewDocuments([...newDocuments, ...selected])
+  }
+
+  const openDocument = async (path: string) => {
+    try {
+      window.open(await getContractorDocumentUrl(path), "_blank", "noopener,noreferrer")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open document")
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile) return
+
+    const serviceRadiusKm = parseInt(form.serviceRadiusKm)
+
+    if (form.tradeCategories.length === 0) {
+      setError("Choose at least one trade you work on")
+      return
+    }
+
+    if (isNaN(serviceRadiusKm) || serviceRadiusKm < 1 || serviceRadiusKm > 200) {
+      setError("Service radius must be between 1 and 200 km")
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      showContractorProfile(
+        await submitContractorApplication(profile.id, {
+          businessName: form.businessName,
+          licenceNumber: form.licenceNumber,
+          tradeCategories: form.tradeCategories,
+          serviceRadiusKm,
+          existingDocumentPaths,
+          newDocuments,
+        })
+      )
+      toast.success("Your details were sent for review")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit your details")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (profileError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-red-600">{profileError}</p>
+          <Button onClick={refreshProfile}>Try Again</Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!contractorId || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Button variant="outline" size="sm" onClick={() => router.push("/")} className="flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-2xl font-bold">Contractor Verification</CardTitle>
+              <Badge className={CONTRACTOR_VERIFICATION_BADGE_CLASSES[status]}>{CONTRACTOR_VERIFICATION_LABELS[status]}</Badge>
+            </div>
+            <CardDescription>
+              {status === "verified"
+                ? "You are verified and can bid on open jobs."
+                : status === "pending_review"
+                  ? "An administrator is reviewing your details. You can bid on jobs once you are verified."
+                  : "Tell us about your business. An administrator checks your details before you can bid on jobs."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {status === "rejected" && contractorProfile?.rejection_reason && (
+              <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                Your application was not approved: {contractorProfile.rejection_reason}. Update your details and submit
+                them again.
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="business-name">Business Name</Label>
+                <Input
+                  id="business-name"
+                  value={form.businessName}
+                  onChange={(e) => setForm({ ...form, businessName: e.target.value })}
+                  disabled={isReadOnly}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="licence-number">Licence Number</Label>
+                <Input
+                  id="licence-number"
+                  value={form.licenceNumber}
+                  onChange={(e) => setForm({ ...form, licenceNumber: e.target.value })}
+                  disabled={isReadOnly}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Trades</Label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]).map((category) => (
+                    <Button
+                      key={category}
+                      type="button"
+                      size="sm"
+                      variant={form.tradeCategories.includes(category) ? "default" : "outline"}
+                      onClick={() => toggleCategory(category)}
+                      disabled={isReadOnly}
+                    >
+                      {REPORT_CATEGORY_LABELS[category]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="service-radius">Service Radius (km)</Label>
+                <Input
+                  id="service-radius"
+                  type="number"
+                  min="1"
+                  max="200"
+                  value={form.serviceRadiusKm}
+                  onChange={(e) => setForm({ ...form, serviceRadiusKm: e.target.value })}
+                  disabled={isReadOnly}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="documents">Documents</Label>
+                <p className="text-sm text-gray-500">
+                  Your trade licence, insurance certificate or similar. Only administrators can see these.
+                </p>
+                {existingDocumentPaths.map((path, index) => (
+                  <div key={path} className="flex items-center justify-between rounded-md border bg-white px-3 py-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => openDocument(path)}
+                      className="flex items-center gap-2 text-blue-600 hover:underline"
+                    >
+                      <FileText className="h-4 w-4" />
+                      Document {index + 1}
+                    </button>
+                    {!isReadOnly && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExistingDocumentPaths(existingDocumentPaths.filter((item) => item !== path))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {newDocuments.map((file, index) => (
+                  <div
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between rounded-md border bg-white px-3 py-2 text-sm"
+                  >
+                    <span className="flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      {file.name}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setNewDocuments(newDocuments.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {!isReadOnly && (
+                  <Input
+                    id="documents"
+                    type="file"
+                    accept="image/*,application/pdf"
+                    multiple
+                    onChange={(e) => {
+                      handleDocumentSelect(e.target.files)
+                      e.target.value = ""
+                    }}
+                  />
+                )}
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {!isReadOnly && (
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? "Submitting..." : "Submit for Verification"}
+                </Button>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
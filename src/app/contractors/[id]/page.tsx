@@ -0,0 +1,199 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Briefcase, Star, MessageSquare, AlertCircle, Loader2 } from "lucide-react"
+import { useParams, useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+import { supabase, type Profile } from "@/lib/supabase"
+import type { ContractorReview } from "@/lib/supabase-contractor-stats"
+import {
+  fetchContractorPublicSummary,
+  fetchContractorReviews,
+  type ContractorPublicSummary,
+} from "@/lib/supabase-reviews"
+import { StarRating } from "@/components/star-rating"
+
+export default function ContractorProfilePage() {
+  const router = useRouter()
+  const { id } = useParams<{ id: string }>()
+  const [contractor, setContractor] = useState<Pick<Profile, "id" | "name" | "profession"> | null>(null)
+  const [summary, setSummary] = useState<ContractorPublicSummary | null>(null)
+  const [reviews, setReviews] = useState<ContractorReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadContractor = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const { data: profileData, error: profileError } = await supabase
+          .from("public_contractor_profiles")
+          .select("id, name, profession")
+          .eq("id", id)
+          .maybeSingle()
+
+        if (profileError) {
+          throw profileError
+        }
+
+        if (!profileData) {
+          setError("Contractor not found.")
+          return
+        }
+
+        const [summaryData, reviewsData] = await Promise.all([
+          fetchContractorPublicSummary(id),
+          fetchContractorReviews(id),
+        ])
+
+        setContractor(profileData)
+        setSummary(summaryData)
+        setReviews(reviewsData)
+      } catch (err) {
+        console.error("Error loading contractor profile:", err)
+        setError("Failed to load contractor profile. Please try again.")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadContractor()
+  }, [id])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-center h-64">
+          <div className="flex items-center space-x-2">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span>Loading contractor profile...</span>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !contractor) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-center h-64">
+          <Card className="p-6">
+            <div className="text-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <p className="text-gray-600 mb-4">{error || "Contractor not found."}</p>
+              <Button variant="outline" onClick={() => router.back()}>
+                Go Back
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Button variant="outline" size="sm" onClick={() => router.back()} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">{contractor.name}</h1>
+          <p className="text-gray-600 mt-2">{contractor.profession}</p>
+        </div>
+
+        {/* Summary */}
+        {summary && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <Card>
+              <CardContent className="p-6 flex items-center space-x-3">
+                <div className="p-2 bg-yellow-100 rounded-lg">
+                  <Star className="h-6 w-6 text-yellow-600" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {summary.averageRating != null ? `${summary.averageRating.toFixed(1)}/5` : "—"}
+                  </p>
+                  <p className="text-sm text-gray-500">Average Rating</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6 flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <MessageSquare className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">{summary.reviewCount}</p>
+                  <p className="text-sm text-gray-500">Reviews</p>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6 flex items-center space-x-3">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <Briefcase className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">{summary.jobsCompleted}</p>
+                  <p className="text-sm text-gray-500">Jobs Completed</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Reviews */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Reviews from Citizens</CardTitle>
+            <CardDescription>Ratings left by residents after their reports were resolved</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {reviews.length === 0 ? (
+              <p className="text-gray-500">No reviews yet.</p>
+            ) : (
+              <div className="space-y-6">
+                {reviews.map((review) => (
+                  <div key={review.id} className="border-b pb-6 last:border-b-0 last:pb-0">
+                    <div className="flex items-center justify-between mb-2">
+                      <StarRating rating={review.rating} />
+                      <span className="text-sm text-gray-500">{formatDate(review.created_at)}</span>
+                    </div>
+                    {review.comment && <p className="text-gray-700 italic">&ldquo;{review.comment}&rdquo;</p>}
+                    {review.photo_urls && review.photo_urls.length > 0 && (
+                      <div className="grid grid-cols-3 md:grid-cols-6 gap-2 mt-3">
+                        {review.photo_urls.map((url, index) => (
+                          <img
+                            key={index}
+                            src={url}
+                            alt={`Review photo ${index + 1}`}
+                            className="w-full h-20 object-cover rounded border cursor-pointer"
+                            onClick={() => window.open(url, "_blank")}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
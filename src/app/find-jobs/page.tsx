@@ -0,0 +1,494 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowLeft, MapPin, Navigation, Loader2, AlertTriangle, RefreshCw, Gavel, Briefcase, ShieldCheck } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+import { useRequireProfile } from "@/components/supabase-provider"
+import { formatDistance, getCurrentLocationWithGoogleMaps, type LocationReport, type UserLocation } from "@/lib/supabase-location"
+import { fetchAvailableJobs, fetchContractorBids, submitJobBid, withdrawJobBid, type JobBid } from "@/lib/supabase-jobs"
+import { REPORT_STATUS_LABELS } from "@/lib/supabase-report-status"
+import { ReportStatusActions } from "@/components/report-status-actions"
+import {
+  CONTRACTOR_VERIFICATION_LABELS,
+  DEFAULT_SERVICE_RADIUS_KM,
+  fetchContractorProfile,
+  getVerificationStatus,
+  type ContractorVerificationStatus,
+} from "@/lib/supabase-contractor-onboarding"
+
+interface BidForm {
+  price: string
+  etaDays: string
+  message: string
+}
+
+const emptyBidForm: BidForm = { price: "", etaDays: "", message: "" }
+
+const radiusOptions = [5, 10, 25, 50]
+
+const bidStatusStyles: Record<JobBid['status'], string> = {
+  pending: "bg-yellow-50 text-yellow-700",
+  accepted: "bg-green-50 text-green-700",
+  rejected: "bg-red-50 text-red-700",
+  withdrawn: "bg-gray-50 text-gray-700",
+}
+
+export default function FindJobsPage() {
+  const router = useRouter()
+
+  const { profile, isAllowed, profileError, refreshProfile } = useRequireProfile()
+  const [serviceLocation, setServiceLocation] = useState<UserLocation | null>(null)
+  const [jobs, setJobs] = useState<LocationReport[]>([])
+  const [myBids, setMyBids] = useState<JobBid[]>([])
+  const [radius, setRadius] = useState(DEFAULT_SERVICE_RADIUS_KM)
+  const [verificationStatus, setVerificationStatus] = useState<ContractorVerificationStatus>("unverified")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [bidForm, setBidForm] = useState<BidForm>(emptyBidForm)
+  const [bidError, setBidError] = useState<string | null>(null)
+  const [isSubmittingBid, setIsSubmittingBid] = useState(false)
+
+  // Load the contractor's location, open jobs and existing bids
+  const initialize = async (contractorId: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [location, contractorProfile] = await Promise.all([
+        getCurrentLocationWithGoogleMaps(),
+        fetchContractorProfile(contractorId),
+      ])
+      setServiceLocation(location)
+      setVerificationStatus(getVerificationStatus(contractorProfile))
+
+      // Start from the radius the contractor said they cover
+      const serviceRadius = contractorProfile?.service_radius_km ?? radius
+      setRadius(serviceRadius)
+
+      await loadJobs(location, serviceRadius, contractorId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load jobs")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadJobs = async (location: UserLocation, searchRadius: number, contractorId: string) => {
+    const [availableJobs, bids] = await Promise.all([
+      fetchAvailableJobs(location, searchRadius),
+      fetchContractorBids(contractorId),
+    ])
+
+    // Reports the contractor filed themselves cannot be bid on
+    setJobs(availableJobs.filter((job) => job.profile_id !== contractorId))
+    setMyBids(bids)
+  }
+
+  const refreshJobs = async (searchRadius: number = radius) => {
+    if (!serviceLocation || !profile) return
+
+    try {
+      setLoading(true)
+      setError(null)
+      await loadJobs(serviceLocation, searchRadius, profile.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load jobs")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changeRadius = async (newRadius: number) => {
+    setRadius(newRadius)
+    await refreshJobs(newRadius)
+  }
+
+  // Only set once the profile has loaded and belongs to a contractor
+  const contractorId = isAllowed ? profile?.id : undefined
+
+  useEffect(() => {
+    if (contractorId) {
+      initialize(contractorId)
+    }
+  }, [contractorId])
+
+  const handleRetry = () => {
+    if (profileError) {
+      refreshProfile()
+    } else if (contractorId) {
+      initialize(contractorId)
+    }
+  }
+
+  const openBidForm = (jobId: string) => {
+    setActiveJobId(jobId)
+    setBidForm(emptyBidForm)
+    setBidError(null)
+  }
+
+  const handleBidSubmit = async (e: React.FormEvent, jobId: string) => {
+    e.preventDefault()
+    if (!profile) return
+
+    const price = parseFloat(bidForm.price)
+    const etaDays = parseInt(bidForm.etaDays)
+
+    if (isNaN(price) || price <= 0) {
+      setBidError("Please enter a valid price greater than 0")
+      return
+    }
+
+    if (isNaN(etaDays) || etaDays <= 0) {
+      setBidError("Please enter the number of days you need to complete the job")
+      return
+    }
+
+    try {
+      setIsSubmittingBid(true)
+      setBidError(null)
+
+      await submitJobBid({
+        reportId: jobId,
+        contractorId: profile.id,
+        price,
+        etaDays,
+        message: bidForm.message,
+      })
+
+      setActiveJobId(null)
+      setMyBids(await fetchContractorBids(profile.id))
+    } catch (err) {
+      setBidError(err instanceof Error ? err.message : "Failed to submit bid")
+    } finally {
+      setIsSubmittingBid(false)
+    }
+  }
+
+  const handleWithdraw = async (bidId: string) => {
+    if (!profile) return
+
+    try {
+      await withdrawJobBid(bidId)
+      setMyBids(await fetchContractorBids(profile.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to withdraw bid")
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount)
+  }
+
+  const pageError = error ?? profileError
+  const isVerified = verificationStatus === "verified"
+  const radiusChoices = Array.from(new Set([...radiusOptions, radius])).sort((a, b) => a - b)
+  const bidByReportId = new Map(myBids.map((bid) => [bid.report_id, bid]))
+
+  return (
+    <div className="min-h-screen p-6 bg-gradient-to-br from-gray-50 to-gray-100">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-4 mb-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => router.push("/")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refreshJobs()}
+              disabled={loading || !serviceLocation}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Find New Jobs</h1>
+          <p className="text-lg text-gray-600 mb-4">Open incident reports near your service area</p>
+
+          {serviceLocation && (
+            <div className="space-y-2 mb-4">
+              <div className="flex items-center gap-2 text-green-600">
+                <Navigation className="h-5 w-5" />
+                <span>
+                  Service area centre: {serviceLocation.latitude.toFixed(4)}, {serviceLocation.longitude.toFixed(4)}
+                </span>
+              </div>
+              {serviceLocation.address && (
+                <p className="text-sm text-gray-600 ml-7">{serviceLocation.address}</p>
+              )}
+            </div>
+          )}
+
+          {serviceLocation && (
+            <div className="flex items-center gap-4 mb-6">
+              <span className="text-sm font-medium text-gray-700">Service radius:</span>
+              <div className="flex gap-2">
+                {radiusChoices.map((radiusOption) => (
+                  <Button
+                    key={radiusOption}
+                    variant={radius === radiusOption ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => changeRadius(radiusOption)}
+                    disabled={loading}
+                  >
+                    {radiusOption}km
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Error State */}
+        {pageError && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3">
+                <AlertTriangle className="h-6 w-6 text-red-600" />
+                <div>
+                  <h3 className="font-medium text-red-900">Error</h3>
+                  <p className="text-red-700">{pageError}</p>
+                  <Button variant="outline" size="sm" className="mt-2" onClick={handleRetry}>
+                    Try Again
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Loading State */}
+        {loading && !pageError && (
+          <div className="flex justify-center items-center py-12">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-blue-600" />
+              <p className="text-gray-600">Loading open jobs...</p>
+            </div>
+          </div>
+        )}
+
+        {!loading && !pageError && profile && (
+          <div className="space-y-10">
+            {!isVerified && (
+              <Card className="border-yellow-200 bg-yellow-50">
+                <CardContent className="pt-6">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <ShieldCheck className="h-6 w-6 text-yellow-700" />
+                      <div>
+                        <h3 className="font-medium text-gray-900">
+                          Verification: {CONTRACTOR_VERIFICATION_LABELS[verificationStatus]}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          You can browse open jobs, but only verified contractors can place bids.
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => router.push("/contractor-onboarding")}>
+                      {verificationStatus === "pending_review" ? "View application" : "Get verified"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Open Jobs */}
+            <div className="space-y-6">
+              <p className="text-gray-600">
+                Found {jobs.length} open job{jobs.length !== 1 ? "s" : ""} within {radius}km
+              </p>
+
+              {jobs.length === 0 ? (
+                <Card className="text-center py-12">
+                  <CardContent>
+                    <Briefcase className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No open jobs nearby</h3>
+                    <p className="text-gray-600">Try widening your service radius.</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {jobs.map((job) => {
+                    const existingBid = bidByReportId.get(job.id)
+
+                    return (
+                      <Card key={job.id} className="hover:shadow-lg transition-shadow duration-200">
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-lg line-clamp-2 mb-2">{job.location_string}</CardTitle>
+                          <div className="flex items-center gap-2">
+                            {existingBid && (
+                              <Badge variant="secondary" className={bidStatusStyles[existingBid.status]}>
+                                Your bid: {formatCurrency(Number(existingBid.price))} ({existingBid.status})
+                              </Badge>
+                            )}
+                            {job.distance !== undefined && (
+                              <span className="text-sm text-gray-500">{formatDistance(job.distance)} away</span>
+                            )}
+                          </div>
+                        </CardHeader>
+
+                        <CardContent>
+                          <CardDescription className="mb-4 line-clamp-3">{job.description}</CardDescription>
+
+                          {job.address && (
+                            <div className="flex items-start gap-2 mb-3">
+                              <MapPin className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                              <p className="text-sm text-gray-600 line-clamp-2">{job.address}</p>
+                            </div>
+                          )}
+
+                          <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+                            <span>Reported {formatDate(job.created_at)}</span>
+                            {job.photo_paths && job.photo_paths.length > 0 && (
+                              <span>{job.photo_paths.length} photo{job.photo_paths.length !== 1 ? "s" : ""}</span>
+                            )}
+                          </div>
+
+                          {activeJobId === job.id ? (
+                            <form onSubmit={(e) => handleBidSubmit(e, job.id)} className="space-y-3 border-t pt-4">
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-1">
+                                  <Label htmlFor={`price-${job.id}`}>Price (USD)</Label>
+                                  <Input
+                                    id={`price-${job.id}`}
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    placeholder="0.00"
+                                    value={bidForm.price}
+                                    onChange={(e) => setBidForm({ ...bidForm, price: e.target.value })}
+                                    required
+                                  />
+                                </div>
+                                <div className="space-y-1">
+                                  <Label htmlFor={`eta-${job.id}`}>ETA (days)</Label>
+                                  <Input
+                                    id={`eta-${job.id}`}
+                                    type="number"
+                                    min="1"
+                                    placeholder="3"
+                                    value={bidForm.etaDays}
+                                    onChange={(e) => setBidForm({ ...bidForm, etaDays: e.target.value })}
+                                    required
+                                  />
+                                </div>
+                              </div>
+                              <div className="space-y-1">
+                                <Label htmlFor={`message-${job.id}`}>Message (optional)</Label>
+                                <textarea
+                                  id={`message-${job.id}`}
+                                  rows={3}
+                                  value={bidForm.message}
+                                  onChange={(e) => setBidForm({ ...bidForm, message: e.target.value })}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                  placeholder="Describe how you would fix this issue..."
+                                />
+                              </div>
+                              {bidError && <p className="text-sm text-red-600">{bidError}</p>}
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setActiveJobId(null)}
+                                  disabled={isSubmittingBid}
+                                >
+                                  Cancel
+                                </Button>
+                                <Button type="submit" size="sm" disabled={isSubmittingBid}>
+                                  {isSubmittingBid ? "Submitting..." : "Submit Bid"}
+                                </Button>
+                              </div>
+                            </form>
+                          ) : (
+                            !existingBid && isVerified && (
+                              <Button
+                                className="w-full bg-green-600 hover:bg-green-700 text-white"
+                                onClick={() => openBidForm(job.id)}
+                              >
+                                <Gavel className="h-4 w-4 mr-2" />
+                                Place Bid
+                              </Button>
+                            )
+                          )}
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* My Bids */}
+            <div className="space-y-4">
+              <h2 className="text-2xl font-semibold text-gray-900">My Bids ({myBids.length})</h2>
+              {myBids.length === 0 ? (
+                <p className="text-gray-600">You have not placed any bids yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {myBids.map((bid) => (
+                    <Card key={bid.id}>
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex-1">
+                            <p className="font-medium text-gray-900">
+                              {bid.report?.location_string || `Report #${bid.report_id.slice(0, 8)}`}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {formatCurrency(Number(bid.price))} · {bid.eta_days} day{bid.eta_days !== 1 ? "s" : ""} · placed {formatDate(bid.created_at)}
+                              {bid.status === "accepted" && bid.report && ` · job ${REPORT_STATUS_LABELS[bid.report.status].toLowerCase()}`}
+                            </p>
+                          </div>
+                          <Badge variant="secondary" className={bidStatusStyles[bid.status]}>
+                            {bid.status.toUpperCase()}
+                          </Badge>
+                          {bid.status === "pending" && (
+                            <Button variant="outline" size="sm" onClick={() => handleWithdraw(bid.id)}>
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
+                        {bid.status === "accepted" && bid.report && (
+                          <ReportStatusActions
+                            report={bid.report}
+                            profileId={profile.id}
+                            onStatusChange={() => refreshJobs()}
+                          />
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
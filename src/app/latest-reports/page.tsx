@@ -4,57 +4,99 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ArrowLeft, MapPin, Clock, User, Camera, AlertCircle } from "lucide-react"
 import { useRouter } from "next/navigation"
-import { useEffect, useState } from "react"
-import { supabase } from "@/lib/supabase"
+import { useEffect, useRef, useState } from "react"
+import { supabase, type Profile, type Report } from "@/lib/supabase"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+import { ReportCategoryFilters } from "@/components/report-category-filters"
+import { NewReportsBanner } from "@/components/new-reports-banner"
+import type { ReportCategoryFilter } from "@/lib/report-categories"
+import { mergeReportUpdate, prependNewReports, subscribeToReportChanges } from "@/lib/supabase-realtime"
+import { getReportImageUrl } from "@/lib/supabase-report-submission"
 
-interface Report {
-  id: string
-  profile_id: string
-  location_string: string
-  description: string
-  latitude: number | null
-  longitude: number | null
-  address: string | null
-  photo_urls: string[] | null
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed'
-  created_at: string
-  updated_at: string
-  profiles: {
-    name: string
-  }
+type LatestReport = Report & {
+  profiles: Pick<Profile, "name">
 }
 
+const LATEST_REPORTS_LIMIT = 3
+
+const latestReportColumns = `
+  *,
+  profiles!reports_profile_id_fkey (
+    name
+  )
+`
+
 export default function LatestReportsPage() {
   const router = useRouter()
-  const [reports, setReports] = useState<Report[]>([])
+  const [reports, setReports] = useState<LatestReport[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
+  const [filters, setFilters] = useState<ReportCategoryFilter>({})
+  const [newReports, setNewReports] = useState<LatestReport[]>([])
+  const filtersRef = useRef(filters)
+  filtersRef.current = filters
 
   useEffect(() => {
-    fetchLatestReports()
+    fetchLatestReports({})
     // Trigger animations after component mounts
     setTimeout(() => setIsLoaded(true), 100)
   }, [])
 
-  const fetchLatestReports = async () => {
+  useEffect(() => {
+    return subscribeToReportChanges({
+      onInsert: async (report) => {
+        const { category, severity } = filtersRef.current
+        if ((category && report.category !== category) || (severity && report.severity !== severity)) return
+
+        // The realtime payload has no reporter name
+        const { data, error } = await supabase
+          .from('reports')
+          .select(latestReportColumns)
+          .eq('id', report.id)
+          .maybeSingle()
+
+        if (error) {
+          console.error('Error fetching new report:', error)
+          return
+        }
+
+        if (data) {
+          setNewReports((prev) => prependNewReports(prev, [data]))
+        }
+      },
+      onUpdate: (report) => {
+        setReports((prev) => mergeReportUpdate(prev, report))
+        setNewReports((prev) => mergeReportUpdate(prev, report))
+      },
+    })
+  }, [])
+
+  const fetchLatestReports = async (reportFilters: ReportCategoryFilter) => {
     try {
-      const { data, error } = await supabase
+      setError(null)
+
+      let query = supabase
         .from('reports')
-        .select(`
-          *,
-          profiles (
-            name
-          )
-        `)
+        .select(latestReportColumns)
+
+      if (reportFilters.category) {
+        query = query.eq('category', reportFilters.category)
+      }
+      if (reportFilters.severity) {
+        query = query.eq('severity', reportFilters.severity)
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
-        .limit(3)
+        .limit(LATEST_REPORTS_LIMIT)
 
       if (error) {
         throw error
       }
 
       setReports(data || [])
+      setNewReports([])
     } catch (err) {
       console.error('Error fetching reports:', err)
       setError('Failed to fetch latest reports. Please try again.')
@@ -63,6 +105,16 @@ export default function LatestReportsPage() {
     }
   }
 
+  const changeFilters = (newFilters: ReportCategoryFilter) => {
+    setFilters(newFilters)
+    fetchLatestReports(newFilters)
+  }
+
+  const showNewReports = () => {
+    setReports((prev) => prependNewReports(prev, newReports).slice(0, LATEST_REPORTS_LIMIT))
+    setNewReports([])
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
@@ -133,6 +185,14 @@ export default function LatestReportsPage() {
               Most recent reports from the community
             </p>
           </div>
+
+          <div className="mt-6">
+            <ReportCategoryFilters
+              value={filters}
+              onChange={changeFilters}
+              triggerClassName="border-gray-600 bg-gray-900 text-gray-200"
+            />
+          </div>
         </div>
 
         {/* Error State */}
@@ -145,7 +205,7 @@ export default function LatestReportsPage() {
                   <p>{error}</p>
                 </div>
                 <Button 
-                  onClick={fetchLatestReports} 
+                  onClick={() => fetchLatestReports(filters)} 
                   className="mt-4 bg-red-600 hover:bg-red-700"
                 >
                   Try Again
@@ -158,6 +218,7 @@ export default function LatestReportsPage() {
         {/* Reports List */}
         {!error && (
           <div className="space-y-6">
+            <NewReportsBanner count={newReports.length} onShow={showNewReports} buttonClassName="bg-purple-600 hover:bg-purple-700" />
             {reports.length === 0 ? (
               <div className={`transform transition-all duration-700 delay-200 ${isLoaded ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
                 <Card className="bg-purple-900/30 backdrop-blur-sm border-purple-500/20">
@@ -203,6 +264,7 @@ export default function LatestReportsPage() {
                           <CardTitle className="text-xl text-gray-100 mb-1">
                             Report #{report.id.slice(0, 8)}
                           </CardTitle>
+                          <ReportCategoryBadges category={report.category} severity={report.severity} className="mb-2" />
                           <div className="flex items-center space-x-2 text-gray-400 text-sm">
                             <User className="h-4 w-4" />
                             <span>Reported by {report.profiles?.name || 'Unknown'}</span>
@@ -237,19 +299,19 @@ export default function LatestReportsPage() {
                       </div>
 
                       {/* Photos */}
-                      {report.photo_urls && report.photo_urls.length > 0 && (
+                      {report.photo_paths.length > 0 && (
                         <div>
                           <div className="flex items-center space-x-2 mb-2">
                             <Camera className="h-4 w-4 text-purple-400" />
                             <p className="text-gray-200 font-medium text-sm">
-                              {report.photo_urls.length} Photo{report.photo_urls.length > 1 ? 's' : ''} Attached
+                              {report.photo_paths.length} Photo{report.photo_paths.length > 1 ? 's' : ''} Attached
                             </p>
                           </div>
                           <div className="flex space-x-2 overflow-x-auto">
-                            {report.photo_urls.slice(0, 3).map((url, photoIndex) => (
+                            {report.photo_paths.slice(0, 3).map((path, photoIndex) => (
                               <div key={photoIndex} className="flex-shrink-0">
                                 <img
-                                  src={url}
+                                  src={getReportImageUrl(report.thumbnail_paths[photoIndex] ?? path)}
                                   alt={`Report photo ${photoIndex + 1}`}
                                   className="w-16 h-16 object-cover rounded-lg border border-purple-500/20"
                                   onError={(e) => {
@@ -259,10 +321,10 @@ export default function LatestReportsPage() {
                                 />
                               </div>
                             ))}
-                            {report.photo_urls.length > 3 && (
+                            {report.photo_paths.length > 3 && (
                               <div className="w-16 h-16 bg-gray-700/50 rounded-lg border border-purple-500/20 flex items-center justify-center">
                                 <span className="text-xs text-gray-400">
-                                  +{report.photo_urls.length - 3}
+                                  +{report.photo_paths.length - 3}
                                 </span>
                               </div>
                             )}
@@ -275,7 +337,7 @@ export default function LatestReportsPage() {
                         <Button
                           variant="outline"
                           className="w-full border-purple-500/30 text-purple-300 hover:bg-purple-500/10 hover:border-purple-400/50"
-                          onClick={() => router.push(`/report/${report.id}`)}
+                          onClick={() => router.push(`/reports/${report.id}`)}
                         >
                           View Full Details
                         </Button>
@@ -294,7 +356,7 @@ export default function LatestReportsPage() {
             isLoaded ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'
           }`}>
             <Button
-              onClick={fetchLatestReports}
+              onClick={() => fetchLatestReports(filters)}
               variant="outline"
               className="border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-gray-200"
             >
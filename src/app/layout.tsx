@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import SupabaseProvider from "@/components/supabase-provider";
+import { PendingUploadsIndicator } from "@/components/pending-uploads-indicator";
+import { Toaster } from "@/components/ui/sonner";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -14,7 +16,12 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Incident Reporting App",
+  // Resolves the relative links in page metadata, such as a report's Open Graph URL
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000"),
+  title: {
+    default: "Incident Reporting App",
+    template: "%s | Incident Reporting App",
+  },
   description: "Report and track community incidents",
 };
 
@@ -30,6 +37,8 @@ export default function RootLayout({
       >
         <SupabaseProvider>
           {children}
+          <PendingUploadsIndicator />
+          <Toaster />
         </SupabaseProvider>
       </body>
     </html>
@@ -1,171 +1,190 @@
 "use client"
 
-import { useState, useEffect } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { supabase } from '@/lib/supabase';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRequireProfile } from '@/components/supabase-provider';
 import { useRouter } from 'next/navigation';
-import { Search, MapPin, Calendar, User, FileText, ArrowLeft, AlertCircle, ExternalLink } from "lucide-react";
-
-interface Report {
-  id: string;
-  profile_id: string;
-  location_string: string;
-  description: string;
-  latitude: number | null;
-  longitude: number | null;
-  address: string | null;
-  photo_urls: string[] | null;
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed';
-  created_at: string;
-  updated_at: string;
-  profiles?: {
-    name: string;
-    role: string;
-  };
-}
-
-interface UserProfile {
-  id: string;
-  name: string;
-  role: string;
-}
+import Link from "next/link";
+import { Search, MapPin, Calendar, User, FileText, ArrowLeft, AlertCircle, ExternalLink, Navigation, ChevronLeft, ChevronRight } from "lucide-react";
+import { ReportPhotoComparison } from "@/components/report-photo-comparison";
+import { ReportStatusTimeline } from "@/components/report-status-timeline";
+import { ReportComments } from "@/components/report-comments";
+import { ReportCategoryBadges } from "@/components/report-category-badges";
+import { ReportCategoryFilters } from "@/components/report-category-filters";
+import { REPORT_CATEGORIES, REPORT_CATEGORY_LABELS, type ReportCategoryFilter } from "@/lib/report-categories";
+import { formatDistance, getBrowserLocation } from "@/lib/supabase-location";
+import { REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/supabase-report-status";
+import {
+  REPORT_SEARCH_PAGE_SIZE,
+  fetchReportSearchFacets,
+  searchReports as runReportSearch,
+  type ReportSearchFacets,
+  type ReportSearchFilters,
+  type ReportSearchResult,
+  type ReportSearchSort
+} from "@/lib/supabase-report-search";
+
+// Select has no empty value, so "all" stands in for no filter
+const ALL = "all";
+
+const RADIUS_OPTIONS_KM = [1, 5, 10, 25];
+
+const REPORT_STATUSES = Object.keys(REPORT_STATUS_LABELS) as ReportStatus[];
+
+const SORT_LABELS: Record<ReportSearchSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest first',
+  distance: 'Nearest first'
+};
+
+// Start of a local calendar day from a date input, as an ISO timestamp
+const startOfDay = (date: string, addDays: number = 0) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+};
 
 export default function LocateSpecificReportPage() {
-  const [searchAddress, setSearchAddress] = useState("");
-  const [reports, setReports] = useState<Report[]>([]);
+  const [searchText, setSearchText] = useState("");
+  // Everything the current results were fetched with, including the submitted text
+  const [query, setQuery] = useState<ReportSearchFilters>({ sortBy: 'relevance' });
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [reports, setReports] = useState<ReportSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [facets, setFacets] = useState<ReportSearchFacets>({ status: {}, category: {} });
+  const [page, setPage] = useState(0);
   const [isSearching, setIsSearching] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [profileError, setProfileError] = useState<string | null>(null);
-  const [user, setUser] = useState<any>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
   
   const router = useRouter();
 
-  // Load user session and profile
-  useEffect(() => {
-    const loadUserAndProfile = async () => {
-      try {
-        setIsLoading(true);
-        setProfileError(null);
-
-        // Get current session
-        const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-        
-        if (sessionError) {
-          console.error('Session error:', sessionError);
-          setProfileError('Authentication error. Please log in again.');
-          return;
-        }
-
-        if (!session?.user) {
-          console.log('No user session found');
-          setUser(null);
-          return;
-        }
-
-        setUser(session.user);
-
-        // Load user profile
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, name, role')
-          .eq('id', session.user.id)
-          .single();
-
-        if (profileError) {
-          console.error('Profile error:', profileError);
-          if (profileError.code === 'PGRST116') {
-            setProfileError('No profile found. Please complete your profile setup.');
-          } else {
-            setProfileError('Error loading user profile. Please ensure your profile is set up correctly.');
-          }
-          return;
-        }
-
-        if (!profile) {
-          setProfileError('No profile found. Please complete your profile setup.');
-          return;
-        }
-
-        console.log('Profile loaded:', profile);
-        setUserProfile(profile);
+  const {
+    profile: userProfile,
+    isAllowed,
+    isLoading,
+    profileError,
+    refreshProfile
+  } = useRequireProfile();
 
-      } catch (error) {
-        console.error('Unexpected error loading profile:', error);
-        setProfileError('An unexpected error occurred loading your profile.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadUserAndProfile();
-
-    // Listen for auth changes
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (event, session) => {
-      if (event === 'SIGNED_OUT' || !session) {
-        setUser(null);
-        setUserProfile(null);
-        router.push('/login');
-      } else if (event === 'SIGNED_IN' && session) {
-        setUser(session.user);
-        loadUserAndProfile();
-      }
-    });
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await searchReports({ ...query, text: searchText }, 0);
+  };
 
-    return () => subscription.unsubscribe();
-  }, [router]);
+  // Filter changes keep the submitted text and go back to the first page
+  const updateQuery = async (changes: Partial<ReportSearchFilters>) => {
+    const nextQuery = { ...query, ...changes };
 
-  // Redirect to login if no user after loading
-  useEffect(() => {
-    if (!isLoading && !user) {
-      router.push('/login');
+    if (hasSearched) {
+      await searchReports(nextQuery, 0);
+    } else {
+      setQuery(nextQuery);
     }
-  }, [user, isLoading, router]);
+  };
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!searchAddress.trim()) {
-      alert("Please enter an address to search for");
+  const handleFiltersChange = async (newFilters: ReportCategoryFilter) => {
+    await updateQuery({ category: newFilters.category, severity: newFilters.severity });
+  };
+
+  const handleStatusChange = async (status: string) => {
+    await updateQuery({ status: status === ALL ? undefined : (status as ReportStatus) });
+  };
+
+  const handleDateChange = async (from: string, to: string) => {
+    setDateFrom(from);
+    setDateTo(to);
+    // The "to" day is included, so the range ends at the start of the next day
+    await updateQuery({
+      createdAfter: from ? startOfDay(from) : undefined,
+      createdBefore: to ? startOfDay(to, 1) : undefined
+    });
+  };
+
+  const handleRadiusChange = async (value: string) => {
+    setLocationError(null);
+
+    if (value === ALL) {
+      await updateQuery({
+        origin: undefined,
+        radiusKm: undefined,
+        sortBy: query.sortBy === 'distance' ? 'relevance' : query.sortBy
+      });
       return;
     }
 
+    let origin = query.origin;
+    if (!origin) {
+      setIsLocating(true);
+      try {
+        origin = await getBrowserLocation();
+      } catch (error) {
+        setLocationError(error instanceof Error ? error.message : 'Unable to retrieve your location.');
+        return;
+      } finally {
+        setIsLocating(false);
+      }
+    }
+
+    await updateQuery({ origin, radiusKm: Number(value) });
+  };
+
+  const handleSortChange = async (sortBy: string) => {
+    await updateQuery({ sortBy: sortBy as ReportSearchSort });
+  };
+
+  const clearFilters = async () => {
+    setDateFrom("");
+    setDateTo("");
+    setLocationError(null);
+    await updateQuery({
+      status: undefined,
+      category: undefined,
+      severity: undefined,
+      createdAfter: undefined,
+      createdBefore: undefined,
+      origin: undefined,
+      radiusKm: undefined,
+      sortBy: 'relevance'
+    });
+  };
+
+  const searchReports = async (searchQuery: ReportSearchFilters, searchPage: number) => {
+    const searchId = ++searchIdRef.current;
+    setQuery(searchQuery);
+    setPage(searchPage);
     setIsSearching(true);
     setHasSearched(true);
-    
+
     try {
-      // Search for reports that match the address in location_string or address fields
-      const { data: reportData, error } = await supabase
-        .from('reports')
-        .select(`
-          *,
-          profiles (
-            name,
-            role
-          )
-        `)
-        .or(`location_string.ilike.%${searchAddress}%,address.ilike.%${searchAddress}%`)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error searching reports:', error);
-        throw error;
+      // The text is only ever sent as an RPC argument; the database turns it into a search query
+      const [results, searchFacets] = await Promise.all([
+        runReportSearch(searchQuery, searchPage),
+        fetchReportSearchFacets(searchQuery)
+      ]);
+
+      if (searchId !== searchIdRef.current) {
+        return;
       }
 
-      console.log('Found reports:', reportData);
-      setReports(reportData || []);
-      
+      setReports(results.reports);
+      setTotalCount(results.totalCount);
+      setFacets(searchFacets);
     } catch (error) {
       console.error("Error searching for reports:", error);
       alert("Failed to search for reports. Please try again.");
     } finally {
-      setIsSearching(false);
+      if (searchId === searchIdRef.current) {
+        setIsSearching(false);
+      }
     }
   };
 
@@ -214,10 +233,6 @@ export default function LocateSpecificReportPage() {
     window.open(mapsUrl, '_blank');
   };
 
-  const handleRetryProfile = () => {
-    window.location.reload();
-  };
-
   // Show loading state
   if (isLoading) {
     return (
@@ -230,21 +245,6 @@ export default function LocateSpecificReportPage() {
     );
   }
 
-  // Show auth error if no session
-  if (!user) {
-    return (
-      <div className="mx-auto max-w-6xl p-4">
-        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
-          <h2 className="text-xl font-semibold text-red-900 mb-2">Authentication Required</h2>
-          <p className="text-red-700 mb-4">Please log in to search for reports.</p>
-          <Button onClick={() => router.push('/login')} className="bg-blue-600 hover:bg-blue-700">
-            Go to Login
-          </Button>
-        </div>
-      </div>
-    );
-  }
-
   // Show profile error
   if (profileError) {
     return (
@@ -253,7 +253,7 @@ export default function LocateSpecificReportPage() {
           <h2 className="text-xl font-semibold text-red-900 mb-2">Profile Error</h2>
           <p className="text-red-700 mb-4">{profileError}</p>
           <div className="space-x-2">
-            <Button onClick={handleRetryProfile} variant="outline">
+            <Button onClick={refreshProfile} variant="outline">
               Retry
             </Button>
             <Button onClick={() => router.push('/')} className="bg-blue-600 hover:bg-blue-700">
@@ -265,6 +265,18 @@ export default function LocateSpecificReportPage() {
     );
   }
 
+  // Signed out or no profile yet; useRequireProfile is redirecting
+  if (!userProfile || !isAllowed) {
+    return (
+      <div className="mx-auto max-w-6xl p-4">
+        <div className="flex justify-center items-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          <span className="ml-2">Redirecting...</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="mx-auto max-w-6xl p-4">
       {/* Header */}
@@ -280,11 +292,11 @@ export default function LocateSpecificReportPage() {
           </Button>
           <div>
             <h1 className="text-2xl font-bold">Locate Specific Report</h1>
-            <p className="text-gray-600">Search for reports by address or location</p>
+            <p className="text-gray-600">Search reports by location, address or description</p>
           </div>
         </div>
         <div className="text-sm text-gray-600">
-          Welcome, <span className="font-semibold">{userProfile?.name}</span> ({userProfile?.role})
+          Welcome, <span className="font-semibold">{userProfile.name}</span> ({userProfile.role})
         </div>
       </div>
 
@@ -296,7 +308,7 @@ export default function LocateSpecificReportPage() {
             <span>Search Reports</span>
           </CardTitle>
           <CardDescription>
-            Enter an address, street name, or location to find related incident reports
+            Enter an address, street name, or words from the description, then narrow the results with the filters
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -304,15 +316,16 @@ export default function LocateSpecificReportPage() {
             <div className="flex-1">
               <Input
                 type="text"
-                placeholder="Enter address or location (e.g., Main Street, Downtown, 123 Oak Ave)"
-                value={searchAddress}
-                onChange={(e) => setSearchAddress(e.target.value)}
+                placeholder="Search reports (e.g., Main Street, Downtown, pothole near school)"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                maxLength={200}
                 className="w-full"
               />
             </div>
             <Button 
               type="submit" 
-              disabled={isSearching || !searchAddress.trim()}
+              disabled={isSearching}
               className="px-6"
             >
               {isSearching ? (
@@ -328,6 +341,110 @@ export default function LocateSpecificReportPage() {
               )}
             </Button>
           </form>
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Status</Label>
+              <div className="w-44">
+                <Select value={query.status ?? ALL} onValueChange={handleStatusChange} disabled={isSearching}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All statuses</SelectItem>
+                    {REPORT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {REPORT_STATUS_LABELS[status]}
+                        {hasSearched && ` (${facets.status[status] ?? 0})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Category and severity</Label>
+              <ReportCategoryFilters
+                value={{ category: query.category, severity: query.severity }}
+                onChange={handleFiltersChange}
+                disabled={isSearching}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-date-from" className="text-xs text-gray-600">Reported from</Label>
+              <Input
+                id="search-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => handleDateChange(e.target.value, dateTo)}
+                disabled={isSearching}
+                className="w-40"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="search-date-to" className="text-xs text-gray-600">Reported to</Label>
+              <Input
+                id="search-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => handleDateChange(dateFrom, e.target.value)}
+                disabled={isSearching}
+                className="w-40"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Distance from me</Label>
+              <div className="w-40">
+                <Select
+                  value={query.radiusKm ? String(query.radiusKm) : ALL}
+                  onValueChange={handleRadiusChange}
+                  disabled={isSearching || isLocating}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Distance" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Any distance</SelectItem>
+                    {RADIUS_OPTIONS_KM.map((radiusKm) => (
+                      <SelectItem key={radiusKm} value={String(radiusKm)}>
+                        Within {radiusKm}km
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Sort by</Label>
+              <div className="w-40">
+                <Select value={query.sortBy ?? 'relevance'} onValueChange={handleSortChange} disabled={isSearching}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SORT_LABELS) as ReportSearchSort[]).map((sortBy) => (
+                      <SelectItem key={sortBy} value={sortBy} disabled={sortBy === 'distance' && !query.origin}>
+                        {SORT_LABELS[sortBy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={clearFilters} disabled={isSearching}>
+              Clear filters
+            </Button>
+          </div>
+          {isLocating && (
+            <p className="mt-2 flex items-center space-x-1 text-sm text-gray-600">
+              <Navigation className="h-4 w-4" />
+              <span>Getting your location...</span>
+            </p>
+          )}
+          {locationError && (
+            <p className="mt-2 text-sm text-red-600">{locationError} Distance filtering needs your location.</p>
+          )}
         </CardContent>
       </Card>
 
@@ -337,26 +454,46 @@ export default function LocateSpecificReportPage() {
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">
               Search Results
-              {reports.length > 0 && (
+              {totalCount > 0 && (
                 <span className="text-sm font-normal text-gray-600 ml-2">
-                  ({reports.length} report{reports.length !== 1 ? 's' : ''} found)
+                  (showing {page * REPORT_SEARCH_PAGE_SIZE + 1}–{page * REPORT_SEARCH_PAGE_SIZE + reports.length} of {totalCount} report{totalCount !== 1 ? 's' : ''})
                 </span>
               )}
             </h2>
           </div>
 
+          {/* Category counts for the current search; pick one to narrow the results */}
+          {REPORT_CATEGORIES.some((category) => facets.category[category]) && (
+            <div className="flex flex-wrap gap-2">
+              {REPORT_CATEGORIES.filter((category) => facets.category[category]).map((category) => (
+                <Button
+                  key={category}
+                  variant={query.category === category ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => updateQuery({ category: query.category === category ? undefined : category })}
+                  disabled={isSearching}
+                >
+                  {REPORT_CATEGORY_LABELS[category]}
+                  <span className="ml-1 text-xs opacity-70">{facets.category[category]}</span>
+                </Button>
+              ))}
+            </div>
+          )}
+
           {reports.length === 0 ? (
             <Card>
               <CardContent className="text-center py-8">
                 <AlertCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No Reports Found</h3>
                 <p className="text-gray-600 mb-4">
-                  No incident reports were found matching "{searchAddress}". Try searching with:
+                  {query.text?.trim()
+                    ? `No incident reports were found matching "${query.text.trim()}". Try searching with:`
+                    : "No incident reports match these filters. Try:"}
                 </p>
                 <ul className="text-sm text-gray-500 space-y-1">
-                  <li>• A different address or street name</li>
-                  <li>• Broader location terms (e.g., "Downtown" instead of specific address)</li>
-                  <li>• Partial matches (e.g., "Oak" instead of "Oak Avenue")</li>
+                  <li>• A different address, street name or description</li>
+                  <li>• Fewer words (e.g., &quot;Oak&quot; instead of &quot;Oak Avenue pothole&quot;)</li>
+                  <li>• Clearing some of the filters or widening the date range and distance</li>
                 </ul>
               </CardContent>
             </Card>
@@ -374,15 +511,22 @@ export default function LocateSpecificReportPage() {
                             {getStatusText(report.status)}
                           </Badge>
                         </CardTitle>
+                        <ReportCategoryBadges category={report.category} severity={report.severity} className="mt-2" />
                         <CardDescription className="flex items-center space-x-4 mt-2">
                           <span className="flex items-center space-x-1">
                             <Calendar className="h-4 w-4" />
                             <span>{formatDate(report.created_at)}</span>
                           </span>
-                          {report.profiles && (
+                          {report.reporter_name && (
                             <span className="flex items-center space-x-1">
                               <User className="h-4 w-4" />
-                              <span>by {report.profiles.name} ({report.profiles.role})</span>
+                              <span>by {report.reporter_name}</span>
+                            </span>
+                          )}
+                          {report.distance_km != null && (
+                            <span className="flex items-center space-x-1">
+                              <Navigation className="h-4 w-4" />
+                              <span>{formatDistance(report.distance_km)} away</span>
                             </span>
                           )}
                         </CardDescription>
@@ -429,41 +573,57 @@ export default function LocateSpecificReportPage() {
                         </p>
                       </div>
 
-                      {/* Photos */}
-                      {report.photo_urls && report.photo_urls.length > 0 && (
-                        <div>
-                          <h4 className="font-medium text-gray-900 mb-2">
-                            Photos ({report.photo_urls.length})
-                          </h4>
-                          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                            {report.photo_urls.map((url, index) => (
-                              <div key={index} className="relative group">
-                                <img
-                                  src={url}
-                                  alt={`Report photo ${index + 1}`}
-                                  className="w-full h-24 object-cover rounded-lg border cursor-pointer hover:opacity-90 transition-opacity"
-                                  onClick={() => window.open(url, '_blank')}
-                                />
-                                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 rounded-lg transition-all duration-200 flex items-center justify-center">
-                                  <ExternalLink className="h-4 w-4 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                      {/* Photos, with the after photos once resolved */}
+                      <ReportPhotoComparison report={report} />
+
+                      {/* Status History */}
+                      <ReportStatusTimeline reportId={report.id} />
 
                       {/* Timestamps */}
                       <div className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
                         <p><strong>Created:</strong> {formatDate(report.created_at)}</p>
                         <p><strong>Last Updated:</strong> {formatDate(report.updated_at)}</p>
                       </div>
+
+                      {/* Discussion */}
+                      <ReportComments reportId={report.id} className="border-t pt-4" />
+
+                      <Link href={`/reports/${report.id}`} className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:underline">
+                        <ExternalLink className="h-3 w-3" />
+                        <span>Open report page</span>
+                      </Link>
                     </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
           )}
+
+          {totalCount > REPORT_SEARCH_PAGE_SIZE && (
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                onClick={() => searchReports(query, page - 1)}
+                disabled={isSearching || page === 0}
+                className="flex items-center space-x-1"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                <span>Previous</span>
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page + 1} of {Math.ceil(totalCount / REPORT_SEARCH_PAGE_SIZE)}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => searchReports(query, page + 1)}
+                disabled={isSearching || (page + 1) * REPORT_SEARCH_PAGE_SIZE >= totalCount}
+                className="flex items-center space-x-1"
+              >
+                <span>Next</span>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -476,10 +636,10 @@ export default function LocateSpecificReportPage() {
               <div>
                 <h3 className="font-medium text-blue-900 mb-2">How to Search</h3>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• Enter any part of an address, street name, or location</li>
-                  <li>• Search is case-insensitive and matches partial text</li>
-                  <li>• Use general terms like "Downtown", "Main Street", or "Park" for broader results</li>
-                  <li>• Use specific addresses like "123 Oak Avenue" for precise matches</li>
+                  <li>• Search matches the location, address and description of each report</li>
+                  <li>• Every word must match, and words match as prefixes, so &quot;oak ave&quot; finds &quot;Oak Avenue&quot;</li>
+                  <li>• Reports whose location matches rank above those that only mention it in the description</li>
+                  <li>• Leave the search empty to browse reports using only the filters</li>
                 </ul>
               </div>
             </div>
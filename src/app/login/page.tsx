@@ -1,56 +1,118 @@
 "use client"
 
 import type React from "react"
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { supabase } from "@/lib/supabase"
+import { getSafeRedirectPath } from "@/lib/route-access"
+import {
+  MIN_PASSWORD_LENGTH,
+  getEnabledOAuthProviders,
+  sendMagicLink,
+  sendPasswordResetEmail,
+  signInWithOAuthProvider,
+  signUpWithPassword
+} from "@/lib/supabase-auth"
+import type { Provider } from "@supabase/supabase-js"
 import { toast } from "sonner"
 
+type AuthMode = "sign-in" | "sign-up" | "magic-link" | "forgot-password"
+
+const modeCopy: Record<AuthMode, { title: string; description: string; submit: string }> = {
+  "sign-in": { title: "Welcome Back", description: "Sign in to your account", submit: "Sign In" },
+  "sign-up": { title: "Create Account", description: "Sign up for a new account", submit: "Sign Up" },
+  "magic-link": {
+    title: "Email Me a Link",
+    description: "We'll send you a link that signs you in without a password",
+    submit: "Send Sign-In Link"
+  },
+  "forgot-password": {
+    title: "Reset Password",
+    description: "We'll email you a link to choose a new password",
+    submit: "Send Reset Link"
+  },
+}
+
+const oauthProviders = getEnabledOAuthProviders()
+
 export default function LoginPage() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
-  const [isLogin, setIsLogin] = useState(true)
+  const [mode, setMode] = useState<AuthMode>("sign-in")
   const [loading, setLoading] = useState(false)
+  const [next, setNext] = useState("/")
   const router = useRouter()
 
+  // The middleware adds ?next= and the auth callback adds ?error=
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setNext(getSafeRedirectPath(params.get("next"), window.location.href))
+
+    const callbackError = params.get("error")
+    if (callbackError) {
+      toast.error(callbackError)
+    }
+  }, [])
+
+  const needsPassword = mode === "sign-in" || mode === "sign-up"
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
 
     try {
-      if (isLogin) {
-        const { error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        })
-        if (error) throw error
-        toast.success("Logged in successfully!")
-        router.push("/") // Redirect to home page after successful login
-      } else {
-        const { error } = await supabase.auth.signUp({
-          email,
-          password,
-        })
-        if (error) throw error
-        toast.success("Account created successfully! Please check your email to verify your account.")
+      switch (mode) {
+        case "sign-in": {
+          const { error } = await supabase.auth.signInWithPassword({
+            email,
+            password,
+          })
+          if (error) throw error
+          toast.success("Logged in successfully!")
+          router.replace(next)
+          break
+        }
+        case "sign-up":
+          await signUpWithPassword(email, password)
+          toast.success("Account created successfully! Please check your email to verify your account.")
+          break
+        case "magic-link":
+          await sendMagicLink(email, next)
+          toast.success("Check your email for a link to sign in.")
+          break
+        case "forgot-password":
+          await sendPasswordResetEmail(email)
+          toast.success("If an account exists for that email, we've sent a link to reset your password.")
+          setMode("sign-in")
+          break
       }
-    } catch (error: any) {
-      toast.error(error.message || "An error occurred")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "An error occurred")
     } finally {
       setLoading(false)
     }
   }
 
+  const handleOAuth = async (provider: Provider) => {
+    setLoading(true)
+    try {
+      await signInWithOAuthProvider(provider, next)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "An error occurred")
+      setLoading(false)
+    }
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold">{isLogin ? "Welcome Back" : "Create Account"}</CardTitle>
-          <CardDescription>{isLogin ? "Sign in to your account" : "Sign up for a new account"}</CardDescription>
+          <CardTitle className="text-2xl font-bold">{modeCopy[mode].title}</CardTitle>
+          <CardDescription>{modeCopy[mode].description}</CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleAuth} className="space-y-4">
@@ -65,28 +127,69 @@ export default function LoginPage() {
                 required
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
+            {needsPassword && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  {mode === "sign-in" && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      onClick={() => setMode("forgot-password")}
+                      className="h-auto p-0 text-xs"
+                    >
+                      Forgot password?
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={mode === "sign-up" ? MIN_PASSWORD_LENGTH : undefined}
+                  required
+                />
+              </div>
+            )}
             <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? "Loading..." : isLogin ? "Sign In" : "Sign Up"}
+              {loading ? "Loading..." : modeCopy[mode].submit}
             </Button>
           </form>
+
+          {mode === "sign-in" && (
+            <div className="mt-4 space-y-2">
+              <Button variant="outline" className="w-full" onClick={() => setMode("magic-link")} disabled={loading}>
+                Email me a sign-in link
+              </Button>
+              {oauthProviders.map((provider) => (
+                <Button
+                  key={provider.id}
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => handleOAuth(provider.id)}
+                  disabled={loading}
+                >
+                  Continue with {provider.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
           <div className="mt-4 text-center">
-            <Button variant="link" onClick={() => setIsLogin(!isLogin)} className="text-sm">
-              {isLogin ? "Don't have an account? Sign up" : "Already have an account? Sign in"}
-            </Button>
+            {mode === "sign-in" ? (
+              <Button variant="link" onClick={() => setMode("sign-up")} className="text-sm">
+                Don&apos;t have an account? Sign up
+              </Button>
+            ) : (
+              <Button variant="link" onClick={() => setMode("sign-in")} className="text-sm">
+                {mode === "sign-up" ? "Already have an account? Sign in" : "Back to sign in"}
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -2,29 +2,16 @@
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { ArrowLeft, DollarSign, Calendar, MapPin, CheckCircle, Clock, AlertCircle, FileText, CreditCard, User } from "lucide-react"
+import { ArrowLeft, DollarSign, Calendar, MapPin, CheckCircle, Clock, AlertCircle, FileText, CreditCard, User, XCircle } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { useEffect, useState } from "react"
-import { supabase } from '@/lib/supabase' // Use the same supabase instance as the report page
-
-interface Transaction {
-  id: string
-  transaction_id: string
-  report_id: string
-  amount: number
-  name: string
-  account: string
-  transaction_verified: boolean
-  transaction_time: string
-  created_at: string
-  report?: {
-    id: string
-    location_string: string | null
-    description: string
-    status: string
-    created_at: string
-    profile_id: string
-  }
+import { supabase, type Report, type Transaction } from '@/lib/supabase'
+import { useRequireProfile } from '@/components/supabase-provider'
+import { startReportPayment } from '@/lib/supabase-payments'
+
+// Payer name and account are filled in from the payment provider once the payment is confirmed
+type Contribution = Transaction & {
+  report: Pick<Report, 'id' | 'location_string' | 'description' | 'status' | 'created_at' | 'profile_id'> | null
 }
 
 interface ContributionStats {
@@ -34,16 +21,10 @@ interface ContributionStats {
   pendingContributions: number
 }
 
-interface UserProfile {
-  id: string
-  name: string
-  role: string
-}
-
 export default function MyContributions() {
   const router = useRouter()
-  const [profile, setProfile] = useState<UserProfile | null>(null)
-  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const { profile, isAllowed, profileError } = useRequireProfile()
+  const [transactions, setTransactions] = useState<Contribution[]>([])
   const [stats, setStats] = useState<ContributionStats>({
     totalContributions: 0,
     totalAmount: 0,
@@ -53,55 +34,25 @@ export default function MyContributions() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isLoaded, setIsLoaded] = useState(false)
+  const [paymentResult, setPaymentResult] = useState<string | null>(null)
+  const [payingTransactionId, setPayingTransactionId] = useState<string | null>(null)
 
+  // Checkout sends the payer back here with ?payment=succeeded|failed
   useEffect(() => {
-    const loadUserAndContributions = async () => {
-      try {
-        setLoading(true)
-        setError(null)
-
-        // Get current session
-        const { data: { session }, error: sessionError } = await supabase.auth.getSession()
-        
-        if (sessionError) {
-          console.error('Session error:', sessionError)
-          setError('Authentication error. Please log in again.')
-          return
-        }
-
-        if (!session?.user) {
-          console.log('No user session found')
-          setError('No user session found. Please log in.')
-          return
-        }
-
-        // Load user profile
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, name, role')
-          .eq('id', session.user.id)
-          .single()
-
-        if (profileError) {
-          console.error('Profile error:', profileError)
-          setError('Error loading user profile. Please ensure your profile is set up correctly.')
-          return
-        }
+    setPaymentResult(new URLSearchParams(window.location.search).get('payment'))
+  }, [])
 
-        if (!profileData) {
-          setError('No profile found. Please complete your profile setup.')
-          return
-        }
+  const profileId = isAllowed ? profile?.id : undefined
 
-        console.log('Profile loaded:', profileData)
-        setProfile(profileData)
+  useEffect(() => {
+    if (!profileId) return
 
-        // Fetch contributions for this user
-        await fetchContributions(profileData.id)
+    const loadContributions = async () => {
+      try {
+        setLoading(true)
+        setError(null)
 
-      } catch (error) {
-        console.error('Unexpected error:', error)
-        setError('An unexpected error occurred loading your profile.')
+        await fetchContributions(profileId)
       } finally {
         setLoading(false)
         // Trigger animations after loading
@@ -109,8 +60,8 @@ export default function MyContributions() {
       }
     }
 
-    loadUserAndContributions()
-  }, [])
+    loadContributions()
+  }, [profileId])
 
   const fetchContributions = async (profileId: string) => {
     try {
@@ -202,11 +153,14 @@ export default function MyContributions() {
     }
   }
 
-  const calculateStats = (transactionsData: Transaction[]) => {
+  const calculateStats = (transactionsData: Contribution[]) => {
     const totalContributions = transactionsData.length
-    const totalAmount = transactionsData.reduce((sum, t) => sum + Number(t.amount || 0), 0)
+    // Only money the payment provider confirmed counts towards the total
+    const totalAmount = transactionsData
+      .filter(t => t.transaction_verified)
+      .reduce((sum, t) => sum + Number(t.amount || 0), 0)
     const verifiedContributions = transactionsData.filter(t => t.transaction_verified).length
-    const pendingContributions = totalContributions - verifiedContributions
+    const pendingContributions = transactionsData.filter(t => t.status === 'pending').length
 
     setStats({
       totalContributions,
@@ -223,6 +177,17 @@ export default function MyContributions() {
     })
   }
 
+  const completePayment = async (transaction: Contribution) => {
+    try {
+      setPayingTransactionId(transaction.transaction_id)
+      const { checkoutUrl } = await startReportPayment(transaction.transaction_id)
+      window.location.assign(checkoutUrl)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to start payment')
+      setPayingTransactionId(null)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -266,7 +231,8 @@ export default function MyContributions() {
     }
   }
 
-  if (loading) {
+  // Stays up while useRequireProfile redirects a signed-out user or a contractor
+  if (loading && !profileError) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <div className="text-center">
@@ -277,12 +243,12 @@ export default function MyContributions() {
     )
   }
 
-  if (error) {
+  if (error || profileError) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <p className="text-red-400 mb-4">{error}</p>
+          <p className="text-red-400 mb-4">{error ?? profileError}</p>
           <div className="space-x-2">
             <Button 
               onClick={() => window.location.reload()} 
@@ -332,6 +298,24 @@ export default function MyContributions() {
           </div>
         </div>
 
+        {/* Payment Result */}
+        {paymentResult && (
+          <Card className={paymentResult === 'succeeded' ? 'mb-8 bg-green-900/30 border-green-500/20' : 'mb-8 bg-red-900/30 border-red-500/20'}>
+            <CardContent className="p-4 flex items-center space-x-3">
+              {paymentResult === 'succeeded' ? (
+                <CheckCircle className="h-5 w-5 text-green-400" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-400" />
+              )}
+              <p className={paymentResult === 'succeeded' ? 'text-green-300' : 'text-red-300'}>
+                {paymentResult === 'succeeded'
+                  ? 'Payment confirmed. Your contribution is now verified.'
+                  : 'Payment was not completed. You can try again below.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Cards */}
         <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8 transform transition-all duration-700 delay-200 ${isLoaded ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
           <Card className="bg-purple-900/30 backdrop-blur-sm border-purple-500/20">
@@ -435,6 +419,11 @@ export default function MyContributions() {
                                 <CheckCircle className="h-3 w-3 mr-1" />
                                 Verified
                               </span>
+                            ) : transaction.status === 'failed' ? (
+                              <span className="px-2 py-1 text-xs font-medium bg-red-500/20 text-red-400 rounded-full flex items-center">
+                                <XCircle className="h-3 w-3 mr-1" />
+                                Failed
+                              </span>
                             ) : (
                               <span className="px-2 py-1 text-xs font-medium bg-yellow-500/20 text-yellow-400 rounded-full flex items-center">
                                 <Clock className="h-3 w-3 mr-1" />
@@ -487,14 +476,27 @@ export default function MyContributions() {
                       <div className="flex items-center space-x-2">
                         <User className="h-4 w-4 text-gray-400" />
                         <span className="text-gray-400">Contributor:</span>
-                        <span className="text-gray-300">{transaction.name}</span>
+                        <span className="text-gray-300">{transaction.name || 'Awaiting payment'}</span>
                       </div>
                       <div className="flex items-center space-x-2">
                         <CreditCard className="h-4 w-4 text-gray-400" />
                         <span className="text-gray-400">Account:</span>
-                        <span className="text-gray-300">{transaction.account}</span>
+                        <span className="text-gray-300">{transaction.account || 'Awaiting payment'}</span>
                       </div>
                     </div>
+
+                    {transaction.status === 'pending' && (
+                      <div className="mt-4 flex justify-end">
+                        <Button
+                          onClick={() => completePayment(transaction)}
+                          disabled={payingTransactionId !== null}
+                          className="bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800"
+                        >
+                          <CreditCard className="h-4 w-4 mr-2" />
+                          {payingTransactionId === transaction.transaction_id ? 'Starting checkout...' : 'Complete Payment'}
+                        </Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
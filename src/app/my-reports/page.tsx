@@ -4,105 +4,62 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ArrowLeft, MapPin, Calendar, Camera, Clock, AlertCircle, CheckCircle, XCircle, Loader2 } from "lucide-react"
 import { useRouter } from "next/navigation"
-import { useEffect, useState } from "react"
-import { createBrowserClient } from '@supabase/ssr'
-
-interface Report {
-  id: string
-  profile_id: string
-  location_string: string
-  description: string
-  latitude: number | null
-  longitude: number | null
-  address: string | null
-  photo_urls: string[] | null
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed'
-  created_at: string
-  updated_at: string
-}
-
-interface Profile {
-  id: string;
-  name: string;
-  role: string;
-  age?: number;
-  gender?: string;
-  profession?: string;
-}
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+import { JobBidsPanel } from "@/components/job-bids-panel"
+import { ReportStatusActions } from "@/components/report-status-actions"
+import { ReportPhotoComparison } from "@/components/report-photo-comparison"
+import { ReportStatusTimeline } from "@/components/report-status-timeline"
+import { ContractorReviewForm } from "@/components/contractor-review-form"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+import { NewReportsBanner } from "@/components/new-reports-banner"
+import { supabase, type Report } from "@/lib/supabase"
+import { mergeReportUpdate, prependNewReports, subscribeToReportChanges } from "@/lib/supabase-realtime"
+import { useRequireProfile } from "@/components/supabase-provider"
 
 export default function MyReportsPage() {
   const router = useRouter()
   const [reports, setReports] = useState<Report[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [sessionProfile, setSessionProfile] = useState<Profile | null>(null)
-  
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  const [historyVersion, setHistoryVersion] = useState(0)
+  // Filed from another tab or device since the list loaded
+  const [newReports, setNewReports] = useState<Report[]>([])
+  const reportsRef = useRef(reports)
+  reportsRef.current = reports
+
+  const { profile: sessionProfile, isAllowed, profileError } = useRequireProfile()
+  const profileId = isAllowed ? sessionProfile?.id : undefined
 
-  // Get profile from session storage and validate session
   useEffect(() => {
-    const loadProfileAndValidateSession = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        // First, get profile from sessionStorage
-        const storedProfile = sessionStorage.getItem('userProfile')
-        if (!storedProfile) {
-          console.log('No profile found in sessionStorage')
-          setError('No user profile found. Please return to dashboard.')
-          setLoading(false)
-          return
-        }
-
-        const parsedProfile = JSON.parse(storedProfile) as Profile
-        console.log('Profile loaded from sessionStorage:', parsedProfile)
-        setSessionProfile(parsedProfile)
-
-        // Validate that we still have a valid Supabase session
-        const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-        
-        if (sessionError) {
-          console.error('Session validation error:', sessionError);
-          setError('Session expired. Please log in again.');
-          setTimeout(() => router.push('/login'), 2000);
-          return;
-        }
-
-        if (!session?.user) {
-          console.log('No valid session found');
-          setError('Session expired. Please log in again.');
-          setTimeout(() => router.push('/login'), 2000);
-          return;
-        }
-
-        console.log('Session validated for user:', session.user.id);
-        console.log('Profile ID from storage:', parsedProfile.id);
-
-        // Verify the session user matches the stored profile
-        if (session.user.id !== parsedProfile.id) {
-          console.warn('Session user ID does not match stored profile ID');
-          setError('Profile mismatch. Please log in again.');
-          sessionStorage.removeItem('userProfile');
-          setTimeout(() => router.push('/login'), 2000);
-          return;
-        }
-
-        // Fetch reports for this user
-        await fetchReports(parsedProfile.id);
-
-      } catch (error) {
-        console.error('Error loading profile from session storage:', error)
-        setError('Error loading user profile. Please return to dashboard.')
-        setLoading(false)
-      }
-    };
+    if (!profileId) return
 
-    loadProfileAndValidateSession();
-  }, [])
+    setLoading(true)
+    setError(null)
+    fetchReports(profileId)
+  }, [profileId])
+
+  useEffect(() => {
+    if (!profileId) return
+
+    return subscribeToReportChanges(
+      {
+        onInsert: (report) => {
+          if (reportsRef.current.some((current) => current.id === report.id)) return
+          setNewReports((prev) => prependNewReports(prev, [report]))
+        },
+        onUpdate: (report) => {
+          const current = reportsRef.current.find((existing) => existing.id === report.id)
+          setReports((prev) => mergeReportUpdate(prev, report))
+          setNewReports((prev) => mergeReportUpdate(prev, report))
+          if (current && current.status !== report.status) {
+            setHistoryVersion((version) => version + 1)
+          }
+        },
+      },
+      { profileId }
+    )
+  }, [profileId])
 
   // Fetch user reports
   const fetchReports = async (profileId: string) => {
@@ -122,6 +79,7 @@ export default function MyReportsPage() {
 
       console.log('Reports fetched:', data?.length || 0, 'reports');
       setReports(data || [])
+      setNewReports([])
     } catch (err) {
       console.error('Error fetching reports:', err)
       setError('Failed to load reports. Please try again.')
@@ -130,6 +88,16 @@ export default function MyReportsPage() {
     }
   }
 
+  const handleReportChanged = async (profileId: string) => {
+    await fetchReports(profileId)
+    setHistoryVersion((version) => version + 1)
+  }
+
+  const showNewReports = () => {
+    setReports((prev) => prependNewReports(prev, newReports))
+    setNewReports([])
+  }
+
   const getStatusBadge = (status: Report['status']) => {
     const statusConfig = {
       pending: { color: 'bg-yellow-100 text-yellow-800 border-yellow-200', icon: Clock },
@@ -172,7 +140,8 @@ export default function MyReportsPage() {
     router.push('/');
   };
 
-  if (loading) {
+  // Stays up while useRequireProfile redirects a signed-out user or a contractor
+  if (loading && !profileError) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-6xl mx-auto">
@@ -187,7 +156,7 @@ export default function MyReportsPage() {
     )
   }
 
-  if (error) {
+  if (error || profileError) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
         <div className="max-w-6xl mx-auto">
@@ -196,7 +165,7 @@ export default function MyReportsPage() {
               <div className="text-center">
                 <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Reports</h3>
-                <p className="text-gray-600 mb-4">{error}</p>
+                <p className="text-gray-600 mb-4">{error ?? profileError}</p>
                 <div className="space-x-2">
                   <Button onClick={handleRetry}>
                     Try Again
@@ -253,6 +222,8 @@ export default function MyReportsPage() {
           </Card>
         )}
 
+        <NewReportsBanner count={newReports.length} onShow={showNewReports} className="mb-6" />
+
         {/* Reports List */}
         {reports.length === 0 ? (
           <Card className="p-8">
@@ -275,9 +246,14 @@ export default function MyReportsPage() {
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
-                        <CardTitle className="text-lg">Report #{report.id.slice(0, 8)}</CardTitle>
+                        <CardTitle className="text-lg">
+                          <Link href={`/reports/${report.id}`} className="hover:underline">
+                            Report #{report.id.slice(0, 8)}
+                          </Link>
+                        </CardTitle>
                         {getStatusBadge(report.status)}
                       </div>
+                      <ReportCategoryBadges category={report.category} severity={report.severity} className="mb-2" />
                       <div className="flex items-center text-sm text-gray-500 space-x-4">
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 mr-1" />
@@ -287,10 +263,10 @@ export default function MyReportsPage() {
                           <MapPin className="h-4 w-4 mr-1" />
                           {report.location_string}
                         </div>
-                        {report.photo_urls && report.photo_urls.length > 0 && (
+                        {report.photo_paths && report.photo_paths.length > 0 && (
                           <div className="flex items-center">
                             <Camera className="h-4 w-4 mr-1" />
-                            {report.photo_urls.length} photo{report.photo_urls.length > 1 ? 's' : ''}
+                            {report.photo_paths.length} photo{report.photo_paths.length > 1 ? 's' : ''}
                           </div>
                         )}
                       </div>
@@ -313,26 +289,36 @@ export default function MyReportsPage() {
                       </div>
                     )}
 
-                    {/* Photos */}
-                    {report.photo_urls && report.photo_urls.length > 0 && (
-                      <div>
-                        <h4 className="font-medium text-gray-900 mb-2">Photos</h4>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          {report.photo_urls.map((url, index) => (
-                            <div key={index} className="relative">
-                              <img
-                                src={url}
-                                alt={`Report photo ${index + 1}`}
-                                className="w-full h-24 object-cover rounded-lg border cursor-pointer"
-                                onClick={() => window.open(url, '_blank')}
-                              />
-                              <div className="absolute inset-0 bg-black bg-opacity-0 hover:bg-opacity-20 transition-all cursor-pointer rounded-lg" />
-                            </div>
-                          ))}
-                        </div>
+                    {/* Photos, with the after photos once resolved */}
+                    <ReportPhotoComparison report={report} refreshKey={historyVersion} />
+
+                    {/* Bids */}
+                    {report.status === 'pending' && (
+                      <div className="pt-4 border-t">
+                        <JobBidsPanel
+                          reportId={report.id}
+                          onBidAccepted={() => handleReportChanged(report.profile_id)}
+                        />
                       </div>
                     )}
 
+                    {/* Review */}
+                    {(report.status === 'resolved' || report.status === 'closed') && report.assigned_contractor_id && (
+                      <div className="pt-4 border-t">
+                        <ContractorReviewForm reportId={report.id} reviewerId={report.profile_id} />
+                      </div>
+                    )}
+
+                    {/* Status */}
+                    <div className="pt-4 border-t space-y-4">
+                      <ReportStatusActions
+                        report={report}
+                        profileId={report.profile_id}
+                        onStatusChange={() => handleReportChanged(report.profile_id)}
+                      />
+                      <ReportStatusTimeline reportId={report.id} refreshKey={historyVersion} />
+                    </div>
+
                     {/* Actions */}
                     <div className="flex space-x-2 pt-4 border-t">
                       {report.latitude && report.longitude && (
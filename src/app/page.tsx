@@ -1,110 +1,57 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect } from "react"
 import { useRouter } from "next/navigation"
-import { supabase, type Profile } from "@/lib/supabase"
+import { useRequireProfile } from "@/components/supabase-provider"
 import { Questionnaire } from "@/components/questionnaire"
 import { CitizenDashboard } from "@/components/citizen-dashboard"
 import { ContractorDashboard } from "@/components/contractor-dashboard"
 import { Button } from "@/components/ui/button"
 
 export default function HomePage() {
-  const [user, setUser] = useState<any>(null)
-  const [profile, setProfile] = useState<Profile | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [redirecting, setRedirecting] = useState(false)
+  const { user, profile, isLoading, profileError, refreshProfile, signOut } = useRequireProfile()
   const router = useRouter()
+  const isAdmin = profile?.role === "Admin"
 
+  // Administrators work from the moderation console
   useEffect(() => {
-    // Check initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null)
-      if (session?.user) {
-        fetchProfile(session.user.id)
-      } else {
-        setLoading(false)
-        setRedirecting(true)
-        router.push("/login")
-      }
-    })
-
-    // Listen for auth changes
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (event, session) => {
-      setUser(session?.user ?? null)
-      if (session?.user) {
-        fetchProfile(session.user.id)
-        setRedirecting(false)
-      } else {
-        setProfile(null)
-        setLoading(false)
-        setRedirecting(true)
-        router.push("/login")
-      }
-    })
-
-    return () => subscription.unsubscribe()
-  }, [router])
-
-  const fetchProfile = async (userId: string) => {
-    try {
-      const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).single()
-
-      if (error && error.code !== "PGRST116") {
-        throw error
-      }
-
-      setProfile(data)
-    } catch (error: any) {
-      console.error("Error fetching profile:", error.message)
-    } finally {
-      setLoading(false)
+    if (isAdmin) {
+      router.replace("/admin")
     }
-  }
-
-  const handleSignOut = async () => {
-    try {
-      const { error } = await supabase.auth.signOut()
-      if (error) {
-        console.error("Sign out error:", error.message)
-      }
-    } catch (error: any) {
-      console.error("Failed to sign out:", error.message)
-    }
-  }
+  }, [isAdmin, router])
 
-  const handleProfileComplete = () => {
-    if (user) {
-      fetchProfile(user.id)
-    }
-  }
-
-  if (loading || redirecting) {
+  if (isLoading || !user || isAdmin) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900 mx-auto"></div>
           <p className="mt-4 text-gray-600">
-            {redirecting ? "Redirecting..." : "Loading..."}
+            {isLoading ? "Loading..." : "Redirecting..."}
           </p>
         </div>
       </div>
     )
   }
 
-  if (!user) {
-    return null // This should rarely happen now due to redirect logic above
+  if (profileError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-red-600">{profileError}</p>
+          <Button onClick={refreshProfile}>Try Again</Button>
+        </div>
+      </div>
+    )
   }
 
   if (!profile) {
-    return <Questionnaire userId={user.id} onComplete={handleProfileComplete} />
+    return <Questionnaire userId={user.id} onComplete={refreshProfile} />
   }
 
   return (
     <div className="min-h-screen">
       <div className="absolute top-4 right-4 z-10">
-        <Button variant="outline" onClick={handleSignOut}>
+        <Button variant="outline" onClick={signOut}>
           Sign Out
         </Button>
       </div>
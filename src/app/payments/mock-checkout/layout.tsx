@@ -0,0 +1,11 @@
+import { notFound } from "next/navigation"
+import { isMockPaymentProviderEnabled } from "@/lib/payments"
+
+// The checkout page is a client component, so the production check lives here
+export default function MockCheckoutLayout({ children }: { children: React.ReactNode }) {
+  if (!isMockPaymentProviderEnabled()) {
+    notFound()
+  }
+
+  return children
+}
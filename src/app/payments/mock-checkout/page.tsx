@@ -0,0 +1,87 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CreditCard, Loader2 } from "lucide-react"
+import { confirmMockPayment } from "@/lib/supabase-payments"
+
+function MockCheckout() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [processing, setProcessing] = useState<"succeeded" | "failed" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const intentId = searchParams.get("intent")
+  const transactionId = searchParams.get("transaction")
+  const amount = Number(searchParams.get("amount") || 0)
+  // Only allow same-site return paths
+  const returnTo = searchParams.get("return_to")?.startsWith("/") ? searchParams.get("return_to")! : "/my-contributions"
+
+  const handleOutcome = async (outcome: "succeeded" | "failed") => {
+    if (!intentId) return
+
+    try {
+      setProcessing(outcome)
+      setError(null)
+      await confirmMockPayment(intentId, outcome)
+      router.push(`${returnTo}?payment=${outcome}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Payment failed")
+      setProcessing(null)
+    }
+  }
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6 flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Mock Checkout
+          </CardTitle>
+          <CardDescription>
+            Development payment provider. No real money is charged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!intentId ? (
+            <p className="text-sm text-red-600">This checkout link is missing its payment intent.</p>
+          ) : (
+            <>
+              <div className="rounded-lg bg-gray-50 p-4">
+                <p className="text-sm text-gray-500">Amount</p>
+                <p className="text-3xl font-bold text-gray-900">{formatCurrency(amount)}</p>
+                {transactionId && <p className="text-xs text-gray-500 mt-2">Transaction {transactionId}</p>}
+              </div>
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={() => handleOutcome("succeeded")} disabled={processing !== null}>
+                  {processing === "succeeded" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Pay {formatCurrency(amount)}
+                </Button>
+                <Button variant="outline" onClick={() => handleOutcome("failed")} disabled={processing !== null}>
+                  {processing === "failed" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Decline
+                </Button>
+              </div>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function MockCheckoutPage() {
+  return (
+    <Suspense fallback={null}>
+      <MockCheckout />
+    </Suspense>
+  )
+}
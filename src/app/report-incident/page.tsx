@@ -3,8 +3,37 @@
 import { useState, useRef, useEffect } from "react";
 import { LocationSelector } from "@/components/LocationSelector";
 import { Button } from "@/components/ui/button";
-import { supabase } from '@/lib/supabase'; // Use your existing supabase instance
+import { DuplicateReportsNotice } from "@/components/duplicate-reports-notice";
+import { PhotoLocationNotice } from "@/components/photo-location-notice";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_REPORT_CATEGORY,
+  DEFAULT_REPORT_SEVERITY,
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_LABELS,
+  REPORT_SEVERITIES,
+  REPORT_SEVERITY_DESCRIPTIONS,
+  REPORT_SEVERITY_LABELS,
+  type ReportCategory,
+  type ReportSeverity
+} from '@/lib/report-categories';
+import { useRequireProfile } from '@/components/supabase-provider';
 import { useRouter } from 'next/navigation';
+import { startReportPayment } from '@/lib/supabase-payments';
+import {
+  isNetworkError,
+  submitIncidentReport,
+  uploadReportPhoto,
+  type IncidentReportInput,
+  type PhotoUploadState
+} from '@/lib/supabase-report-submission';
+import { processPhoto, type PhotoMetadata, type ProcessedPhoto } from '@/lib/image-processing';
+import {
+  clearReportDraft,
+  loadReportDraft,
+  queueReportSubmission,
+  saveReportDraft
+} from '@/lib/offline-reports';
 
 interface SelectedLocation {
   lat: number;
@@ -15,128 +44,107 @@ interface SelectedLocation {
 interface IncidentForm {
   location: string;
   description: string;
+  category: ReportCategory;
+  severity: ReportSeverity;
   photos: File[];
-  // Transaction fields
-  transactionName: string;
-  transactionAccount: string;
-  transactionAmount: string;
-}
-
-interface UserProfile {
-  id: string;
-  name: string;
-  role: string;
+  // Amount paid through checkout after the report is saved
+  contributionAmount: string;
 }
 
 export default function ReportIncidentPage() {
   const [selectedLocation, setSelectedLocation] = useState<SelectedLocation | null>(null);
+  // Set to move the map pin, e.g. to where an attached photo was taken
+  const [pinnedLocation, setPinnedLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // Location and capture time read from the last attached photo, before they were stripped
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState<IncidentForm>({
     location: "",
     description: "",
+    category: DEFAULT_REPORT_CATEGORY,
+    severity: DEFAULT_REPORT_SEVERITY,
     photos: [],
-    transactionName: "",
-    transactionAccount: "",
-    transactionAmount: ""
+    contributionAmount: ""
   });
   const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [profileError, setProfileError] = useState<string | null>(null);
-  const [user, setUser] = useState<any>(null);
+  // Upload progress of each photo, by position; kept between attempts so a retry skips finished uploads
+  const [photoUploads, setPhotoUploads] = useState<PhotoUploadState[]>([]);
+  const [isProcessingPhotos, setIsProcessingPhotos] = useState(false);
+  const [draftRestored, setDraftRestored] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   
   const router = useRouter();
 
-  // Load user session and profile
-  useEffect(() => {
-    const loadUserAndProfile = async () => {
-      try {
-        setIsLoading(true);
-        setProfileError(null);
-
-        // Get current session
-        const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-        
-        if (sessionError) {
-          console.error('Session error:', sessionError);
-          setProfileError('Authentication error. Please log in again.');
-          return;
-        }
-
-        if (!session?.user) {
-          console.log('No user session found');
-          setUser(null);
-          return;
-        }
-
-        setUser(session.user);
-
-        // Load user profile
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('id, name, role')
-          .eq('id', session.user.id)
-          .single();
-
-        if (profileError) {
-          console.error('Profile error:', profileError);
-          if (profileError.code === 'PGRST116') {
-            setProfileError('No profile found. Please complete your profile setup.');
-          } else {
-            setProfileError('Error loading user profile. Please ensure your profile is set up correctly.');
-          }
-          return;
-        }
-
-        if (!profile) {
-          setProfileError('No profile found. Please complete your profile setup.');
-          return;
-        }
-
-        console.log('Profile loaded:', profile);
-        setUserProfile(profile);
+  const {
+    profile: userProfile,
+    isAllowed,
+    isLoading,
+    profileError,
+    refreshProfile
+  } = useRequireProfile();
 
-      } catch (error) {
-        console.error('Unexpected error loading profile:', error);
-        setProfileError('An unexpected error occurred loading your profile.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadUserAndProfile();
-
-    // Listen for auth changes
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (event, session) => {
-      if (event === 'SIGNED_OUT' || !session) {
-        setUser(null);
-        setUserProfile(null);
-        router.push('/login');
-      } else if (event === 'SIGNED_IN' && session) {
-        setUser(session.user);
-        // Reload profile when user signs in
-        loadUserAndProfile();
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [router]);
-
-  // Redirect to login if no user after loading
+  // Restore an unfinished report saved on this device
   useEffect(() => {
-    if (!isLoading && !user) {
-      router.push('/login');
-    }
-  }, [user, isLoading, router]);
+    if (!userProfile) return;
+
+    loadReportDraft(userProfile.id)
+      .then((draft) => {
+        if (!draft) return;
+
+        setSelectedLocation(draft.selectedLocation);
+        setPinnedLocation({ lat: draft.selectedLocation.lat, lng: draft.selectedLocation.lng });
+        setFormData({
+          location: draft.location,
+          description: draft.description,
+          category: draft.category ?? DEFAULT_REPORT_CATEGORY,
+          severity: draft.severity ?? DEFAULT_REPORT_SEVERITY,
+          photos: draft.photos,
+          contributionAmount: draft.contributionAmount ?? ""
+        });
+        setPhotoPreviews(draft.photos.map(photo => URL.createObjectURL(photo)));
+        setPhotoUploads(draft.photos.map((): PhotoUploadState => ({ status: 'waiting' })));
+        setShowForm(true);
+        setDraftRestored(true);
+      })
+      .catch((error) => console.error('Error restoring draft:', error));
+  }, [userProfile]);
+
+  // Keep the open form saved so it survives reloads and lost connections
+  useEffect(() => {
+    if (!showForm || !userProfile || !selectedLocation) return;
+
+    const timeout = setTimeout(() => {
+      saveReportDraft({
+        profileId: userProfile.id,
+        selectedLocation,
+        ...formData,
+        updatedAt: new Date().toISOString()
+      }).catch(() => {
+        // Drafts are best effort; submitting still works without them
+      });
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [showForm, userProfile, selectedLocation, formData]);
 
   const handleLocationSelect = (location: SelectedLocation) => {
     setSelectedLocation(location);
     console.log("Location selected:", location);
+
+    // The pin can move while the form is open, e.g. to a photo's location
+    if (showForm) {
+      setFormData(prev => ({
+        ...prev,
+        location: location.address || `${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`
+      }));
+    }
+  };
+
+  const handleUsePhotoLocation = (location: { lat: number; lng: number }) => {
+    setPinnedLocation(location);
+    setPhotoMetadata(null);
   };
 
   const handleReportIncidentClick = () => {
@@ -157,16 +165,18 @@ export default function ReportIncidentPage() {
     setFormData({
       location: locationString,
       description: "",
+      category: DEFAULT_REPORT_CATEGORY,
+      severity: DEFAULT_REPORT_SEVERITY,
       photos: [],
-      transactionName: "",
-      transactionAccount: "",
-      transactionAmount: ""
+      contributionAmount: ""
     });
     setPhotoPreviews([]);
+    setPhotoUploads([]);
+    setPhotoMetadata(null);
     setShowForm(true);
   };
 
-  const handleFileSelect = (files: FileList | null) => {
+  const handleFileSelect = async (files: FileList | null) => {
     if (!files) return;
 
     const newFiles = Array.from(files);
@@ -181,15 +191,36 @@ export default function ReportIncidentPage() {
       return;
     }
 
+    // Resize, compress and strip EXIF metadata (including GPS) before anything is stored or uploaded
+    setIsProcessingPhotos(true);
+    const processed = await Promise.allSettled(validFiles.map(file => processPhoto(file)));
+    setIsProcessingPhotos(false);
+
+    const processedPhotos = processed
+      .filter((result): result is PromiseFulfilledResult<ProcessedPhoto> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const processedFiles = processedPhotos.map(photo => photo.file);
+    const failed = processed.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      alert(failed.reason instanceof Error ? failed.reason.message : "Some photos could not be processed");
+    }
+
     // Create preview URLs
-    const newPreviews = validFiles.map(file => URL.createObjectURL(file));
+    const newPreviews = processedFiles.map(file => URL.createObjectURL(file));
     
     setFormData(prev => ({
       ...prev,
-      photos: [...prev.photos, ...validFiles]
+      photos: [...prev.photos, ...processedFiles]
     }));
     
     setPhotoPreviews(prev => [...prev, ...newPreviews]);
+    setPhotoUploads(prev => [...prev, ...processedFiles.map((): PhotoUploadState => ({ status: 'waiting' }))]);
+
+    // Prefer a photo that knows where it was taken
+    const described = processedPhotos.find(photo => photo.geotag) ?? processedPhotos.find(photo => photo.takenAt);
+    if (described) {
+      setPhotoMetadata({ geotag: described.geotag, takenAt: described.takenAt });
+    }
   };
 
   const handleCameraCapture = () => {
@@ -214,41 +245,28 @@ export default function ReportIncidentPage() {
     }));
     
     setPhotoPreviews(prev => prev.filter((_, i) => i !== index));
+    setPhotoUploads(prev => prev.filter((_, i) => i !== index));
   };
 
-  const uploadPhotosToStorage = async (photos: File[]): Promise<string[]> => {
-    if (!userProfile) throw new Error('User profile not available');
-
-    const uploadPromises = photos.map(async (photo, index) => {
-      const fileExt = photo.name.split('.').pop();
-      const fileName = `${Date.now()}-${index}.${fileExt}`;
-      const filePath = `${userProfile.id}/${fileName}`;
-
-      const { data, error } = await supabase.storage
-        .from('report-images')
-        .upload(filePath, photo);
-
-      if (error) {
-        console.error('Error uploading photo:', error);
-        throw error;
-      }
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('report-images')
-        .getPublicUrl(filePath);
-
-      return publicUrl;
-    });
-
-    return Promise.all(uploadPromises);
+  const updatePhotoUpload = (index: number, state: PhotoUploadState) => {
+    setPhotoUploads(prev => prev.map((current, i) => (i === index ? state : current)));
   };
 
-  const generateUniqueTransactionId = () => {
-    // Generate a unique transaction ID with timestamp and random string
-    const timestamp = Date.now().toString(36);
-    const randomStr = Math.random().toString(36).substring(2, 8);
-    return `TXN-${timestamp}-${randomStr}`.toUpperCase();
+  const retryPhotoUpload = async (index: number) => {
+    if (!userProfile) return;
+
+    updatePhotoUpload(index, { status: 'uploading', percent: 0 });
+    try {
+      const photo = await uploadReportPhoto(userProfile.id, formData.photos[index], (percent) => {
+        updatePhotoUpload(index, { status: 'uploading', percent });
+      });
+      updatePhotoUpload(index, { status: 'uploaded', photo });
+    } catch (error) {
+      updatePhotoUpload(index, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      });
+    }
   };
 
   const handleFormSubmit = async (e: React.FormEvent) => {
@@ -259,25 +277,15 @@ export default function ReportIncidentPage() {
       return;
     }
 
-    // Validate transaction fields
-    if (!formData.transactionName.trim()) {
-      alert("Please provide a transaction name");
-      return;
-    }
-
-    if (!formData.transactionAccount.trim()) {
-      alert("Please provide an account");
-      return;
-    }
-
-    if (!formData.transactionAmount.trim()) {
-      alert("Please provide a transaction amount");
+    // Validate contribution amount
+    if (!formData.contributionAmount.trim()) {
+      alert("Please provide a contribution amount");
       return;
     }
 
-    const amount = parseFloat(formData.transactionAmount);
+    const amount = parseFloat(formData.contributionAmount);
     if (isNaN(amount) || amount <= 0) {
-      alert("Please provide a valid transaction amount greater than 0");
+      alert("Please provide a valid contribution amount greater than 0");
       return;
     }
 
@@ -287,90 +295,86 @@ export default function ReportIncidentPage() {
     }
 
     setIsSubmitting(true);
-    
-    try {
-      let photoUrls: string[] = [];
-      
-      // Upload photos to Supabase Storage if any
-      if (formData.photos.length > 0) {
-        photoUrls = await uploadPhotosToStorage(formData.photos);
-      }
 
-      // Insert report data into Supabase reports table
-      const { data: reportData, error: reportError } = await supabase
-        .from('reports')
-        .insert([
-          {
-            profile_id: userProfile.id,
-            location_string: formData.location,
-            description: formData.description,
-            latitude: selectedLocation?.lat,
-            longitude: selectedLocation?.lng,
-            address: selectedLocation?.address,
-            photo_urls: photoUrls,
-            status: 'pending'
+    const submission: IncidentReportInput = {
+      id: crypto.randomUUID(),
+      profileId: userProfile.id,
+      location: formData.location,
+      description: formData.description,
+      category: formData.category,
+      severity: formData.severity,
+      latitude: selectedLocation?.lat ?? null,
+      longitude: selectedLocation?.lng ?? null,
+      address: selectedLocation?.address,
+      photos: formData.photos,
+      contributionAmount: amount
+    };
+    let checkoutUrl: string | null = null;
+
+    try {
+      if (!navigator.onLine) {
+        await queueReportSubmission(submission);
+        alert("You're offline. Your report has been saved on this device and will upload automatically when you're back online. You can then complete your contribution from My Contributions.");
+      } else {
+        try {
+          const created = await submitIncidentReport(submission, {
+            uploaded: photoUploads.map(state => (state.status === 'uploaded' ? state.photo : null)),
+            onStateChange: updatePhotoUpload
+          });
+          console.log("Report saved successfully:", created.report.id);
+
+          try {
+            ({ checkoutUrl } = await startReportPayment(created.transaction.transaction_id));
+          } catch (error) {
+            // Since the report was already saved, we should still show success
+            alert(`Incident reported successfully, but we couldn't start the payment: ${error instanceof Error ? error.message : "unknown error"}`);
           }
-        ])
-        .select();
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
 
-      if (reportError) {
-        console.error('Error saving report:', reportError);
-        throw reportError;
+          // Connection dropped mid-submit; hand it to the outbox instead of losing it
+          await queueReportSubmission(submission);
+          alert("Your connection dropped. Your report has been saved on this device and will upload automatically when you're back online.");
+        }
       }
 
-      if (!reportData || reportData.length === 0) {
-        throw new Error('No report data returned after insert');
-      }
+      await clearReportDraft(userProfile.id).catch(() => {});
 
-      const reportId = reportData[0].id;
-      console.log("Report saved successfully:", reportData);
-
-      // Insert transaction data into transactions table
-      const transactionId = generateUniqueTransactionId();
-      const { data: transactionData, error: transactionError } = await supabase
-        .from('transactions')
-        .insert([
-          {
-            transaction_id: transactionId,
-            report_id: reportId,
-            amount: amount,
-            name: formData.transactionName.trim(),
-            account: formData.transactionAccount.trim(),
-            transaction_verified: true,
-            transaction_time: new Date().toISOString()
-          }
-        ])
-        .select();
-
-      if (transactionError) {
-        console.error('Error saving transaction:', transactionError);
-        // Since the report was already saved, we should still show success
-        // but log the transaction error
-        alert("Incident reported successfully, but there was an issue saving the transaction details. Please contact support if needed.");
-      } else {
-        console.log("Transaction saved successfully:", transactionData);
-        alert("Incident and transaction reported successfully!");
-      }
-      
       // Clean up preview URLs
       photoPreviews.forEach(url => URL.revokeObjectURL(url));
       
       // Reset everything
       setSelectedLocation(null);
       setShowForm(false);
+      setDraftRestored(false);
       setFormData({ 
         location: "", 
-        description: "", 
+        description: "",
+        category: DEFAULT_REPORT_CATEGORY,
+        severity: DEFAULT_REPORT_SEVERITY,
         photos: [],
-        transactionName: "",
-        transactionAccount: "",
-        transactionAmount: ""
+        contributionAmount: ""
       });
       setPhotoPreviews([]);
+      setPhotoUploads([]);
+      setPhotoMetadata(null);
+
+      // The transaction is only verified once the provider confirms payment
+      if (checkoutUrl) {
+        window.location.assign(checkoutUrl);
+      }
       
     } catch (error) {
       console.error("Error submitting incident:", error);
-      alert("Failed to submit incident. Please try again.");
+
+      // Failed photos keep their state so they can be retried; if every photo
+      // uploaded, saving the report failed and its uploads were removed
+      setPhotoUploads(prev =>
+        prev.some(state => state.status === 'failed')
+          ? prev
+          : prev.map((): PhotoUploadState => ({ status: 'waiting' }))
+      );
+      alert("Failed to submit incident. Your draft has been kept, so you can try again.");
     } finally {
       setIsSubmitting(false);
     }
@@ -379,21 +383,29 @@ export default function ReportIncidentPage() {
   const handleCancel = () => {
     // Clean up preview URLs
     photoPreviews.forEach(url => URL.revokeObjectURL(url));
+
+    if (userProfile) {
+      clearReportDraft(userProfile.id).catch(() => {});
+    }
     
     setShowForm(false);
+    setDraftRestored(false);
     setFormData({ 
       location: "", 
-      description: "", 
+      description: "",
+      category: DEFAULT_REPORT_CATEGORY,
+      severity: DEFAULT_REPORT_SEVERITY,
       photos: [],
-      transactionName: "",
-      transactionAccount: "",
-      transactionAmount: ""
+      contributionAmount: ""
     });
     setPhotoPreviews([]);
+    setPhotoUploads([]);
+    setPhotoMetadata(null);
   };
 
-  const handleRetryProfile = () => {
-    window.location.reload();
+  const handleUseExistingReport = () => {
+    alert("You're following the existing report, so we won't file a new one.");
+    handleCancel();
   };
 
   const formatCurrency = (value: string) => {
@@ -404,7 +416,7 @@ export default function ReportIncidentPage() {
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const formattedAmount = formatCurrency(e.target.value);
-    setFormData({ ...formData, transactionAmount: formattedAmount });
+    setFormData({ ...formData, contributionAmount: formattedAmount });
   };
 
   // Show loading state
@@ -419,21 +431,6 @@ export default function ReportIncidentPage() {
     );
   }
 
-  // Show auth error if no session
-  if (!user) {
-    return (
-      <div className="mx-auto max-w-4xl p-4">
-        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
-          <h2 className="text-xl font-semibold text-red-900 mb-2">Authentication Required</h2>
-          <p className="text-red-700 mb-4">Please log in to report an incident.</p>
-          <Button onClick={() => router.push('/login')} className="bg-blue-600 hover:bg-blue-700">
-            Go to Login
-          </Button>
-        </div>
-      </div>
-    );
-  }
-
   // Show profile error
   if (profileError) {
     return (
@@ -442,7 +439,7 @@ export default function ReportIncidentPage() {
           <h2 className="text-xl font-semibold text-red-900 mb-2">Profile Error</h2>
           <p className="text-red-700 mb-4">{profileError}</p>
           <div className="space-x-2">
-            <Button onClick={handleRetryProfile} variant="outline">
+            <Button onClick={refreshProfile} variant="outline">
               Retry
             </Button>
             <Button onClick={() => router.push('/')} className="bg-blue-600 hover:bg-blue-700">
@@ -454,19 +451,31 @@ export default function ReportIncidentPage() {
     );
   }
 
+  // Signed out or not a citizen; useRequireProfile is redirecting
+  if (!userProfile || !isAllowed) {
+    return (
+      <div className="mx-auto max-w-4xl p-4">
+        <div className="flex justify-center items-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          <span className="ml-2">Redirecting...</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="mx-auto max-w-4xl p-4">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Report an Incident</h1>
         <div className="text-sm text-gray-600">
-          Welcome, <span className="font-semibold">{userProfile?.name}</span> ({userProfile?.role})
+          Welcome, <span className="font-semibold">{userProfile.name}</span> ({userProfile.role})
         </div>
       </div>
       
       <div className="space-y-6">
         {/* Location Selection */}
         <div className="bg-white rounded-lg border p-4">
-          <LocationSelector onLocationSelect={handleLocationSelect} />
+          <LocationSelector onLocationSelect={handleLocationSelect} pinnedLocation={pinnedLocation} />
         </div>
 
         {/* Selected Location Details */}
@@ -486,6 +495,21 @@ export default function ReportIncidentPage() {
         {showForm && (
           <div className="bg-white rounded-lg border p-6">
             <h2 className="text-xl font-semibold mb-4">Incident Report Form</h2>
+            {draftRestored && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4 text-sm text-blue-900">
+                We restored the report you were working on. Press Cancel to discard it.
+              </div>
+            )}
+            {selectedLocation && userProfile && (
+              <div className="mb-6">
+                <DuplicateReportsNotice
+                  location={selectedLocation}
+                  description={formData.description}
+                  profileId={userProfile.id}
+                  onUseExisting={handleUseExistingReport}
+                />
+              </div>
+            )}
             <form onSubmit={handleFormSubmit} className="space-y-6">
               {/* Location Field */}
               <div>
@@ -507,6 +531,53 @@ export default function ReportIncidentPage() {
                 </p>
               </div>
 
+              {/* Category and Severity */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Category *
+                  </label>
+                  <Select
+                    value={formData.category}
+                    onValueChange={(value: ReportCategory) => setFormData({ ...formData, category: value })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {REPORT_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Severity *
+                  </label>
+                  <Select
+                    value={formData.severity}
+                    onValueChange={(value: ReportSeverity) => setFormData({ ...formData, severity: value })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="How serious is it?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity}>
+                          {REPORT_SEVERITY_LABELS[severity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {REPORT_SEVERITY_DESCRIPTIONS[formData.severity]}
+                  </p>
+                </div>
+              </div>
+
               {/* Description Field */}
               <div>
                 <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
@@ -526,56 +597,25 @@ export default function ReportIncidentPage() {
                 </p>
               </div>
 
-              {/* Transaction Details Section */}
+              {/* Contribution Section */}
               <div className="bg-gray-50 rounded-lg p-4 space-y-4">
-                <h3 className="text-lg font-medium text-gray-900">Transaction Details</h3>
+                <h3 className="text-lg font-medium text-gray-900">Contribution</h3>
                 <p className="text-sm text-gray-600">
-                  Please provide transaction information related to this incident
+                  After submitting you&apos;ll be taken to checkout to pay this amount. It is marked
+                  verified once the payment provider confirms it.
                 </p>
-                
-                {/* Transaction Name */}
-                <div>
-                  <label htmlFor="transactionName" className="block text-sm font-medium text-gray-700 mb-2">
-                    Transaction Name *
-                  </label>
-                  <input
-                    type="text"
-                    id="transactionName"
-                    value={formData.transactionName}
-                    onChange={(e) => setFormData({ ...formData, transactionName: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter transaction name or description"
-                    required
-                  />
-                </div>
-
-                {/* Account */}
-                <div>
-                  <label htmlFor="transactionAccount" className="block text-sm font-medium text-gray-700 mb-2">
-                    Account *
-                  </label>
-                  <input
-                    type="text"
-                    id="transactionAccount"
-                    value={formData.transactionAccount}
-                    onChange={(e) => setFormData({ ...formData, transactionAccount: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="Enter account name or number"
-                    required
-                  />
-                </div>
 
                 {/* Amount */}
                 <div>
-                  <label htmlFor="transactionAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                  <label htmlFor="contributionAmount" className="block text-sm font-medium text-gray-700 mb-2">
                     Amount *
                   </label>
                   <div className="relative">
                     <span className="absolute left-3 top-2 text-gray-500">$</span>
                     <input
                       type="text"
-                      id="transactionAmount"
-                      value={formData.transactionAmount}
+                      id="contributionAmount"
+                      value={formData.contributionAmount}
                       onChange={handleAmountChange}
                       className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       placeholder="0.00"
@@ -583,7 +623,7 @@ export default function ReportIncidentPage() {
                     />
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Enter the transaction amount (numbers and decimal point only)
+                    Enter the amount (numbers and decimal point only)
                   </p>
                 </div>
               </div>
@@ -600,7 +640,7 @@ export default function ReportIncidentPage() {
                       type="button"
                       onClick={handleCameraCapture}
                       variant="outline"
-                      disabled={formData.photos.length >= 5}
+                      disabled={formData.photos.length >= 5 || isProcessingPhotos || isSubmitting}
                       className="flex items-center gap-2"
                     >
                       📷 Take Photo
@@ -609,7 +649,7 @@ export default function ReportIncidentPage() {
                       type="button"
                       onClick={handleUploadFromDevice}
                       variant="outline"
-                      disabled={formData.photos.length >= 5}
+                      disabled={formData.photos.length >= 5 || isProcessingPhotos || isSubmitting}
                       className="flex items-center gap-2"
                     >
                       📁 Upload from Device
@@ -618,8 +658,22 @@ export default function ReportIncidentPage() {
                   
                   <p className="text-xs text-gray-500">
                     You can add up to 5 photos. Images help provide better context for the incident.
+                    Photos are resized and their location data is removed before upload.
                   </p>
 
+                  {isProcessingPhotos && (
+                    <p className="text-xs text-blue-600">Preparing photos...</p>
+                  )}
+
+                  {photoMetadata && (
+                    <PhotoLocationNotice
+                      metadata={photoMetadata}
+                      selectedLocation={selectedLocation}
+                      onUsePhotoLocation={handleUsePhotoLocation}
+                      onDismiss={() => setPhotoMetadata(null)}
+                    />
+                  )}
+
                   {/* Hidden File Inputs */}
                   <input
                     ref={cameraInputRef}
@@ -642,22 +696,55 @@ export default function ReportIncidentPage() {
                   {/* Photo Previews */}
                   {photoPreviews.length > 0 && (
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
-                      {photoPreviews.map((preview, index) => (
-                        <div key={index} className="relative group">
-                          <img
-                            src={preview}
-                            alt={`Preview ${index + 1}`}
-                            className="w-full h-32 object-cover rounded-lg border"
-                          />
-                          <button
-                            type="button"
-                            onClick={() => removePhoto(index)}
-                            className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
-                          >
-                            ×
-                          </button>
-                        </div>
-                      ))}
+                      {photoPreviews.map((preview, index) => {
+                        const upload = photoUploads[index];
+
+                        return (
+                          <div key={index} className="relative group">
+                            <img
+                              src={preview}
+                              alt={`Preview ${index + 1}`}
+                              className="w-full h-32 object-cover rounded-lg border"
+                            />
+                            {!isSubmitting && upload?.status !== 'uploading' && (
+                              <button
+                                type="button"
+                                onClick={() => removePhoto(index)}
+                                className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                              >
+                                ×
+                              </button>
+                            )}
+                            {upload?.status === 'uploading' && (
+                              <div className="absolute inset-x-2 bottom-2 h-2 bg-white/80 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-blue-600 transition-all"
+                                  style={{ width: `${upload.percent}%` }}
+                                />
+                              </div>
+                            )}
+                            {upload?.status === 'uploaded' && (
+                              <span className="absolute bottom-2 left-2 bg-green-600 text-white text-xs rounded px-2 py-0.5">
+                                Uploaded
+                              </span>
+                            )}
+                            {upload?.status === 'failed' && (
+                              <div className="absolute inset-0 bg-black/60 rounded-lg flex flex-col items-center justify-center gap-2 p-2 text-center">
+                                <span className="text-xs text-white line-clamp-2">{upload.error}</span>
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => retryPhotoUpload(index)}
+                                  disabled={isSubmitting}
+                                >
+                                  Retry
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
                 </div>
@@ -675,7 +762,7 @@ export default function ReportIncidentPage() {
                 </Button>
                 <Button 
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || isProcessingPhotos}
                   className="px-6 py-2"
                 >
                   {isSubmitting ? (
@@ -3,34 +3,17 @@
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { MapPin, Navigation, Loader2, AlertTriangle, Clock, CheckCircle, XCircle, ArrowLeft, RefreshCw } from "lucide-react"
+import { MapPin, Navigation, Loader2, AlertTriangle, Clock, CheckCircle, XCircle, ArrowLeft, RefreshCw, List, Map as MapIcon } from "lucide-react"
 import { useRouter } from "next/navigation"
-import { useEffect, useState } from "react"
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
-
-interface Report {
-  id: string
-  location_string: string
-  description: string
-  latitude: number
-  longitude: number
-  address: string | null
-  photo_urls: string[] | null
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed'
-  created_at: string
-  updated_at: string
-  profile_id: string
-  distance?: number // Distance in km
-  profiles?: {
-    name: string
-  }
-}
-
-interface UserLocation {
-  latitude: number
-  longitude: number
-  address?: string
-}
+import Link from "next/link"
+import { useEffect, useRef, useState } from "react"
+import { calculateDistance, fetchReportsNearLocation, type LocationReport, type UserLocation } from '@/lib/supabase-location'
+import { mergeReportUpdate, prependNewReports, subscribeToReportChanges } from '@/lib/supabase-realtime'
+import { ReportsMap } from "@/components/reports-map"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+import { ReportCategoryFilters } from "@/components/report-category-filters"
+import { NewReportsBanner } from "@/components/new-reports-banner"
+import type { ReportCategoryFilter } from "@/lib/report-categories"
 
 interface GoogleMapsGeolocationResponse {
   location: {
@@ -55,14 +38,20 @@ interface GoogleMapsGeocodingResponse {
 
 export default function ReportsAroundMe() {
   const router = useRouter()
-  const supabase = createClientComponentClient()
   
   const [userLocation, setUserLocation] = useState<UserLocation | null>(null)
-  const [reports, setReports] = useState<Report[]>([])
+  const [reports, setReports] = useState<LocationReport[]>([])
   const [loading, setLoading] = useState(true)
   const [locationLoading, setLocationLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [radius, setRadius] = useState(5) // Default 5km radius
+  const [filters, setFilters] = useState<ReportCategoryFilter>({})
+  const [viewMode, setViewMode] = useState<"list" | "map">("list")
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null)
+  // Filed within the radius since the list loaded
+  const [newReports, setNewReports] = useState<LocationReport[]>([])
+  const searchRef = useRef({ radius, filters })
+  searchRef.current = { radius, filters }
 
   const statusConfig = {
     pending: { 
@@ -206,64 +195,19 @@ export default function ReportsAroundMe() {
     })
   }
 
-  // Calculate distance between two coordinates using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371 // Radius of the Earth in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLon = (lon2 - lon1) * Math.PI / 180
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-    return R * c
-  }
-
   // Fetch nearby reports from Supabase
-  const fetchNearbyReports = async (location: UserLocation) => {
+  const fetchNearbyReports = async (
+    location: UserLocation,
+    searchRadius: number = radius,
+    searchFilters: ReportCategoryFilter = filters
+  ) => {
     try {
       setLoading(true)
       setError(null)
 
-      // Convert radius from km to degrees (approximate)
-      // 1 degree ≈ 111 km at equator
-      const radiusInDegrees = radius / 111
-
-      const { data, error: fetchError } = await supabase
-        .from('reports')
-        .select(`
-          *,
-          profiles (
-            name
-          )
-        `)
-        .not('latitude', 'is', null)
-        .not('longitude', 'is', null)
-        .gte('latitude', location.latitude - radiusInDegrees)
-        .lte('latitude', location.latitude + radiusInDegrees)
-        .gte('longitude', location.longitude - radiusInDegrees)
-        .lte('longitude', location.longitude + radiusInDegrees)
-        .order('created_at', { ascending: false })
-
-      if (fetchError) {
-        throw new Error(fetchError.message)
-      }
-
-      // Filter by exact distance and add distance to each report
-      const reportsWithDistance = (data || [])
-        .map(report => ({
-          ...report,
-          distance: calculateDistance(
-            location.latitude,
-            location.longitude,
-            Number(report.latitude),
-            Number(report.longitude)
-          )
-        }))
-        .filter(report => report.distance <= radius)
-        .sort((a, b) => a.distance - b.distance)
-
-      setReports(reportsWithDistance)
+      const nearbyReports = await fetchReportsNearLocation(location, searchRadius, undefined, undefined, 0, searchFilters)
+      setReports(nearbyReports)
+      setNewReports([])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch reports')
     } finally {
@@ -299,7 +243,15 @@ export default function ReportsAroundMe() {
   const changeRadius = async (newRadius: number) => {
     setRadius(newRadius)
     if (userLocation) {
-      await fetchNearbyReports(userLocation)
+      await fetchNearbyReports(userLocation, newRadius)
+    }
+  }
+
+  // Change category/severity filters and refetch
+  const changeFilters = async (newFilters: ReportCategoryFilter) => {
+    setFilters(newFilters)
+    if (userLocation) {
+      await fetchNearbyReports(userLocation, radius, newFilters)
     }
   }
 
@@ -307,6 +259,34 @@ export default function ReportsAroundMe() {
     initializeLocation()
   }, [])
 
+  useEffect(() => {
+    if (!userLocation) return
+
+    return subscribeToReportChanges({
+      onInsert: (report) => {
+        const { latitude, longitude } = report
+        if (latitude === null || longitude === null || report.hidden_at) return
+
+        const { radius: searchRadius, filters: searchFilters } = searchRef.current
+        const distance = calculateDistance(userLocation.latitude, userLocation.longitude, latitude, longitude)
+        if (distance > searchRadius) return
+        if (searchFilters.category && report.category !== searchFilters.category) return
+        if (searchFilters.severity && report.severity !== searchFilters.severity) return
+
+        setNewReports((prev) => prependNewReports(prev, [{ ...report, latitude, longitude, distance }]))
+      },
+      onUpdate: (report) => {
+        setReports((prev) => mergeReportUpdate(prev, report))
+        setNewReports((prev) => mergeReportUpdate(prev, report))
+      },
+    })
+  }, [userLocation])
+
+  const showNewReports = () => {
+    setReports((prev) => prependNewReports(prev, newReports))
+    setNewReports([])
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -402,6 +382,14 @@ export default function ReportsAroundMe() {
               </div>
             </div>
           )}
+
+          {/* Category / Severity Filters */}
+          {userLocation && (
+            <div className="flex items-center gap-4 mb-6">
+              <span className="text-sm font-medium text-gray-700">Filter:</span>
+              <ReportCategoryFilters value={filters} onChange={changeFilters} disabled={loading} />
+            </div>
+          )}
         </div>
 
         {/* Error State */}
@@ -428,7 +416,7 @@ export default function ReportsAroundMe() {
         )}
 
         {/* Loading State */}
-        {loading && !error && (
+        {loading && !error && viewMode === "list" && (
           <div className="flex justify-center items-center py-12">
             <div className="text-center">
               <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-blue-600" />
@@ -437,18 +425,50 @@ export default function ReportsAroundMe() {
           </div>
         )}
 
-        {/* Reports List */}
-        {!loading && !error && userLocation && (
+        {/* Reports List / Map */}
+        {/* The map stays mounted while a new radius loads so its markers update in place */}
+        {(!loading || viewMode === "map") && !error && userLocation && (
           <div className="space-y-6">
             {/* Reports Count */}
             <div className="flex items-center justify-between">
               <p className="text-gray-600">
-                Found {reports.length} report{reports.length !== 1 ? 's' : ''} within {radius}km
+                {loading ? (
+                  "Updating reports..."
+                ) : (
+                  <>Found {reports.length} report{reports.length !== 1 ? 's' : ''} within {radius}km</>
+                )}
               </p>
+              <div className="flex gap-2">
+                <Button
+                  variant={viewMode === "list" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setViewMode("list")}
+                >
+                  <List className="h-4 w-4 mr-2" />
+                  List
+                </Button>
+                <Button
+                  variant={viewMode === "map" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setViewMode("map")}
+                >
+                  <MapIcon className="h-4 w-4 mr-2" />
+                  Map
+                </Button>
+              </div>
             </div>
 
-            {/* Reports Grid */}
-            {reports.length === 0 ? (
+            <NewReportsBanner count={newReports.length} onShow={showNewReports} />
+
+            {viewMode === "map" ? (
+              <ReportsMap
+                reports={reports}
+                center={userLocation}
+                radiusKm={radius}
+                selectedReportId={selectedReportId}
+                onReportSelect={(report) => setSelectedReportId(report?.id ?? null)}
+              />
+            ) : reports.length === 0 ? (
               <Card className="text-center py-12">
                 <CardContent>
                   <MapPin className="h-12 w-12 mx-auto text-gray-400 mb-4" />
@@ -492,6 +512,7 @@ export default function ReportsAroundMe() {
                                 {formatDistance(report.distance!)}
                               </span>
                             </div>
+                            <ReportCategoryBadges category={report.category} severity={report.severity} className="mb-2" />
                           </div>
                         </div>
                         
@@ -518,10 +539,28 @@ export default function ReportsAroundMe() {
                         
                         <div className="flex items-center justify-between text-sm text-gray-500">
                           <span>{formatDate(report.created_at)}</span>
-                          {report.photo_urls && report.photo_urls.length > 0 && (
-                            <span>{report.photo_urls.length} photo{report.photo_urls.length !== 1 ? 's' : ''}</span>
+                          {report.photo_paths && report.photo_paths.length > 0 && (
+                            <span>{report.photo_paths.length} photo{report.photo_paths.length !== 1 ? 's' : ''}</span>
                           )}
                         </div>
+
+                        <div className="flex gap-2 mt-4">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => {
+                              setSelectedReportId(report.id)
+                              setViewMode("map")
+                            }}
+                          >
+                            <MapIcon className="h-4 w-4 mr-2" />
+                            Show on map
+                          </Button>
+                          <Button variant="outline" size="sm" className="flex-1" asChild>
+                            <Link href={`/reports/${report.id}`}>View details</Link>
+                          </Button>
+                        </div>
                       </CardContent>
                     </Card>
                   )
@@ -0,0 +1,244 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Calendar, DollarSign, ExternalLink, EyeOff, MapPin, User, Users, Wrench } from "lucide-react"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+import { ReportComments } from "@/components/report-comments"
+import { ReportPhotoComparison } from "@/components/report-photo-comparison"
+import { ReportShareButton } from "@/components/report-share-button"
+import { ReportStatusTimeline } from "@/components/report-status-timeline"
+import { REPORT_CATEGORY_LABELS } from "@/lib/report-categories"
+import { fetchReportDetail, type ReportDetail } from "@/lib/report-detail"
+import { REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/supabase-report-status"
+import { getReportImageUrl } from "@/lib/supabase-report-submission"
+
+interface ReportPageProps {
+  params: Promise<{ id: string }>
+}
+
+const statusColors: Record<ReportStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  in_progress: "bg-blue-100 text-blue-800 border-blue-200",
+  resolved: "bg-green-100 text-green-800 border-green-200",
+  closed: "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+// Link previews cut descriptions off well before this
+const META_DESCRIPTION_LENGTH = 200
+
+const describeReport = ({ report }: ReportDetail) => {
+  const place = report.location_string || report.address
+  return `${REPORT_CATEGORY_LABELS[report.category]} report${place ? ` at ${place}` : ""}`
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount)
+}
+
+export async function generateMetadata({ params }: ReportPageProps): Promise<Metadata> {
+  const { id } = await params
+  const detail = await fetchReportDetail(id)
+
+  if (!detail) {
+    return { title: "Report not found" }
+  }
+
+  const { report } = detail
+  const title = describeReport(detail)
+  const description =
+    report.description.length > META_DESCRIPTION_LENGTH
+      ? `${report.description.slice(0, META_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+      : report.description
+  const image = report.photo_paths[0] ? getReportImageUrl(report.photo_paths[0]) : undefined
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `/reports/${report.id}` },
+    openGraph: {
+      type: "article",
+      title,
+      description,
+      url: `/reports/${report.id}`,
+      siteName: "Incident Reporting App",
+      publishedTime: report.created_at,
+      modifiedTime: report.updated_at,
+      images: image ? [{ url: image, alt: title }] : undefined,
+    },
+    twitter: {
+      card: image ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: image ? [image] : undefined,
+    },
+  }
+}
+
+export default async function ReportPage({ params }: ReportPageProps) {
+  const { id } = await params
+  const detail = await fetchReportDetail(id)
+
+  if (!detail) {
+    notFound()
+  }
+
+  const { report, reporterName, contributionCount, contributionTotal, history, resolution, comments } = detail
+  const hasLocation = report.latitude != null && report.longitude != null
+  const mapsApiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <Link href="/latest-reports" className="flex items-center text-sm text-gray-600 hover:text-gray-900">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Latest reports
+            </Link>
+            <ReportShareButton title={describeReport(detail)} />
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900">{describeReport(detail)}</h1>
+            <Badge className={statusColors[report.status]}>{REPORT_STATUS_LABELS[report.status]}</Badge>
+          </div>
+          <ReportCategoryBadges category={report.category} severity={report.severity} className="mt-2" />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600 mt-2">
+            <span className="flex items-center gap-1" suppressHydrationWarning>
+              <Calendar className="h-4 w-4" />
+              Reported {formatDate(report.created_at)}
+            </span>
+            {reporterName && (
+              <span className="flex items-center gap-1">
+                <User className="h-4 w-4" />
+                by {reporterName}
+              </span>
+            )}
+            {report.upvote_count > 0 && (
+              <span className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                {report.upvote_count} following
+              </span>
+            )}
+          </div>
+        </div>
+
+        {report.hidden_at && (
+          <div className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <EyeOff className="h-4 w-4 mt-0.5" />
+            <p>
+              This report has been hidden by a moderator. Only the people involved and admins can open this link.
+              {report.hidden_reason && ` Reason: ${report.hidden_reason}`}
+            </p>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Description</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-gray-700 whitespace-pre-line">{report.description}</p>
+            <ReportPhotoComparison report={report} initialResolution={resolution} />
+          </CardContent>
+        </Card>
+
+        {/* Location */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-red-500" />
+              Location
+            </CardTitle>
+            <CardDescription>
+              {report.location_string || report.address || "No address given"}
+              {report.address && report.address !== report.location_string && ` · ${report.address}`}
+            </CardDescription>
+          </CardHeader>
+          {hasLocation && (
+            <CardContent className="space-y-3">
+              {mapsApiKey && (
+                <img
+                  src={`https://maps.googleapis.com/maps/api/staticmap?${new URLSearchParams({
+                    center: `${report.latitude},${report.longitude}`,
+                    zoom: "16",
+                    size: "640x280",
+                    scale: "2",
+                    markers: `color:red|${report.latitude},${report.longitude}`,
+                    key: mapsApiKey,
+                  })}`}
+                  alt={`Map of ${report.location_string || "the report location"}`}
+                  className="w-full h-56 object-cover rounded-lg border"
+                />
+              )}
+              <a
+                href={`https://www.google.com/maps?q=${report.latitude},${report.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+              >
+                <ExternalLink className="h-3 w-3" />
+                Open in Google Maps
+              </a>
+            </CardContent>
+          )}
+        </Card>
+
+        {/* Progress */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Progress</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-center gap-3 rounded-lg bg-gray-50 p-3">
+                <DollarSign className="h-5 w-5 text-green-600" />
+                <div>
+                  <p className="font-medium text-gray-900">{formatCurrency(contributionTotal)}</p>
+                  <p className="text-xs text-gray-500">
+                    {contributionCount === 0
+                      ? "No contributions yet"
+                      : `from ${contributionCount} contribution${contributionCount !== 1 ? "s" : ""}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 rounded-lg bg-gray-50 p-3">
+                <Wrench className="h-5 w-5 text-blue-600" />
+                <div>
+                  {report.assigned_contractor ? (
+                    <Link
+                      href={`/contractors/${report.assigned_contractor.id}`}
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {report.assigned_contractor.name}
+                    </Link>
+                  ) : (
+                    <p className="font-medium text-gray-900">Not assigned yet</p>
+                  )}
+                  <p className="text-xs text-gray-500">Contractor</p>
+                </div>
+              </div>
+            </div>
+            <ReportStatusTimeline reportId={report.id} initialHistory={history} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <ReportComments reportId={report.id} initialComments={comments} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
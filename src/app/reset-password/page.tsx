@@ -0,0 +1,83 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/components/supabase-provider"
+import { MIN_PASSWORD_LENGTH, updatePassword } from "@/lib/supabase-auth"
+import { toast } from "sonner"
+
+// Reached from the password reset email, which signs the user in through /auth/callback first
+export default function ResetPasswordPage() {
+  const router = useRouter()
+  const { user, isLoading } = useAuth()
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      toast.error("Passwords do not match")
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updatePassword(password)
+      toast.success("Your password has been updated.")
+      router.replace("/")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update password")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+          <CardDescription>
+            {user?.email ? `Signed in as ${user.email}` : "Enter the new password for your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="password">New Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={MIN_PASSWORD_LENGTH}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={MIN_PASSWORD_LENGTH}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={saving || isLoading || !user}>
+              {saving ? "Saving..." : "Update Password"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,12 +5,25 @@ import { Loader } from "@googlemaps/js-api-loader"
 
 interface LocationSelectorProps {
   onLocationSelect?: (location: { lat: number; lng: number; address?: string }) => void;
+  // Moves the incident pin, e.g. to where a photo was taken; a new object re-places it
+  pinnedLocation?: { lat: number; lng: number } | null;
 }
 
-export function LocationSelector({ onLocationSelect }: LocationSelectorProps) {
+export function LocationSelector({ onLocationSelect, pinnedLocation }: LocationSelectorProps) {
   const ref = React.useRef<HTMLDivElement>(null)
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  // Set once the map has loaded; places the red marker and reports the location
+  const selectLocationRef = React.useRef<((position: { lat: number; lng: number }) => Promise<void>) | null>(null)
+  // The map listener is registered once, so read the latest callback through a ref
+  const onLocationSelectRef = React.useRef(onLocationSelect)
+  onLocationSelectRef.current = onLocationSelect
+
+  useEffect(() => {
+    if (pinnedLocation && selectLocationRef.current) {
+      selectLocationRef.current(pinnedLocation)
+    }
+  }, [pinnedLocation, isLoading])
   
   useEffect(() => {
     const getCurrentLocation = (): Promise<{ lat: number; lng: number }> => {
@@ -96,53 +109,60 @@ export function LocationSelector({ onLocationSelect }: LocationSelectorProps) {
           // Selected location marker (red) - initially null
           let selectedMarker: google.maps.Marker | null = null;
 
+          const selectLocation = async (clickedPosition: { lat: number; lng: number }) => {
+            // Remove previous selected marker if it exists
+            if (selectedMarker) {
+              selectedMarker.setMap(null);
+              selectedMarker = null;
+            }
+
+            // Create new selected marker
+            selectedMarker = new Marker({
+              position: clickedPosition,
+              map: map,
+              title: "Selected Incident Location",
+              icon: {
+                url: "http://maps.google.com/mapfiles/ms/icons/red-dot.png",
+                scaledSize: new google.maps.Size(32, 32)
+              },
+              animation: google.maps.Animation.DROP,
+              optimized: true
+            });
+
+            // Update state
+            setSelectedLocation(clickedPosition);
+
+            // Get address and call callback
+            const currentOnLocationSelect = onLocationSelectRef.current;
+            if (currentOnLocationSelect) {
+              try {
+                const address = await getAddressFromCoordinates(
+                  clickedPosition.lat, 
+                  clickedPosition.lng, 
+                  geocoder
+                );
+                currentOnLocationSelect({
+                  ...clickedPosition,
+                  address
+                });
+              } catch (error) {
+                currentOnLocationSelect(clickedPosition);
+              }
+            }
+          };
+
+          selectLocationRef.current = async (position) => {
+            map.panTo(position);
+            await selectLocation(position);
+          };
+
           // Add click listener to map
-          map.addListener("click", async (event: google.maps.MapMouseEvent) => {
+          map.addListener("click", (event: google.maps.MapMouseEvent) => {
             if (event.latLng) {
-              const clickedPosition = {
+              selectLocation({
                 lat: event.latLng.lat(),
                 lng: event.latLng.lng()
-              };
-
-              // Remove previous selected marker if it exists
-              if (selectedMarker) {
-                selectedMarker.setMap(null);
-                selectedMarker = null;
-              }
-
-              // Create new selected marker
-              selectedMarker = new Marker({
-                position: clickedPosition,
-                map: map,
-                title: "Selected Incident Location",
-                icon: {
-                  url: "http://maps.google.com/mapfiles/ms/icons/red-dot.png",
-                  scaledSize: new google.maps.Size(32, 32)
-                },
-                animation: google.maps.Animation.DROP,
-                optimized: true
               });
-
-              // Update state
-              setSelectedLocation(clickedPosition);
-
-              // Get address and call callback
-              const currentOnLocationSelect = onLocationSelect; // Capture current callback
-              if (currentOnLocationSelect) {
-                try {
-                  const address = await getAddressFromCoordinates(
-                    clickedPosition.lat, 
-                    clickedPosition.lng, 
-                    geocoder
-                  );
-                  currentOnLocationSelect({
-                    ...clickedPosition,
-                    address
-                  });
-                } catch (error) {
-                  currentOnLocationSelect(clickedPosition);
-                }
-              }
             }
           });
 
@@ -155,7 +175,7 @@ export function LocationSelector({ onLocationSelect }: LocationSelectorProps) {
     }
     
     initMap()
-  }, []) // Remove onLocationSelect from dependencies
+  }, [])
   
   return (
     <div className="w-full">
@@ -0,0 +1,152 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Flag, Loader2, RefreshCw } from "lucide-react"
+import {
+  dismissCommentFlags,
+  fetchFlaggedComments,
+  setCommentHidden,
+  type FlaggedComment,
+} from "@/lib/supabase-moderation"
+
+export function AdminCommentQueue() {
+  const [comments, setComments] = useState<FlaggedComment[]>([])
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadComments = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setComments(await fetchFlaggedComments())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load flagged comments")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const resolveFlags = async (comment: FlaggedComment, hide: boolean) => {
+    try {
+      setUpdatingId(comment.id)
+      setError(null)
+      if (hide) {
+        await setCommentHidden(comment.id, true, reasons[comment.id])
+      } else {
+        await dismissCommentFlags(comment.id)
+      }
+      setComments((prev) => prev.filter((existing) => existing.id !== comment.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update comment")
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={loadComments} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-12 justify-center text-gray-600">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading flagged comments...
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="py-12 text-center text-gray-600">No flagged comments.</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => (
+            <Card key={comment.id}>
+              <CardHeader className="pb-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <CardTitle className="text-base">{comment.author?.name ?? "Former member"}</CardTitle>
+                  <Badge variant="destructive" className="flex items-center gap-1">
+                    <Flag className="h-3 w-3" />
+                    {comment.flags.length} {comment.flags.length === 1 ? "flag" : "flags"}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {formatDate(comment.created_at)} on{" "}
+                  <Link href={`/reports/${comment.report_id}`} className="text-blue-600 hover:underline">
+                    report #{comment.report_id.slice(0, 8)}
+                  </Link>
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-800 whitespace-pre-line break-words">{comment.body}</p>
+                {comment.thumbnail_urls.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {comment.thumbnail_urls.map((url, index) => (
+                      <a key={url} href={comment.photo_urls[index] ?? url} target="_blank" rel="noopener noreferrer">
+                        <img src={url} alt={`Attached photo ${index + 1}`} className="w-16 h-16 object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {comment.flags.map((flag) => (
+                    <li key={flag.profile_id}>
+                      {flag.flagger?.name ?? "Someone"}: {flag.reason || "No reason given"}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    value={reasons[comment.id] ?? ""}
+                    onChange={(e) => setReasons({ ...reasons, [comment.id]: e.target.value })}
+                    placeholder="Reason, shown to the author (optional)"
+                    className="flex-1 min-w-[200px]"
+                    disabled={updatingId === comment.id}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => resolveFlags(comment, false)}
+                    disabled={updatingId === comment.id}
+                  >
+                    Dismiss flags
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => resolveFlags(comment, true)}
+                    disabled={updatingId === comment.id}
+                  >
+                    Hide comment
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FileText, Loader2, RefreshCw } from "lucide-react"
+import { REPORT_CATEGORY_LABELS, type ReportCategory } from "@/lib/report-categories"
+import {
+  CONTRACTOR_VERIFICATION_BADGE_CLASSES,
+  CONTRACTOR_VERIFICATION_LABELS,
+  fetchContractorApplications,
+  getContractorDocumentUrl,
+  reviewContractorApplication,
+  type ContractorApplication,
+  type ContractorVerificationStatus,
+} from "@/lib/supabase-contractor-onboarding"
+
+const LISTED_STATUSES: ContractorVerificationStatus[] = ["pending_review", "verified", "rejected"]
+
+export function AdminContractorApplications() {
+  const [applications, setApplications] = useState<ContractorApplication[]>([])
+  const [status, setStatus] = useState<ContractorVerificationStatus>("pending_review")
+  const [rejectionReasons, setRejectionReasons] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reviewingProfileId, setReviewingProfileId] = useState<string | null>(null)
+
+  const loadApplications = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setApplications(await fetchContractorApplications(status))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load applications")
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    loadApplications()
+  }, [loadApplications])
+
+  const openDocument = async (path: string) => {
+    try {
+      setError(null)
+      window.open(await getContractorDocumentUrl(path), "_blank", "noopener,noreferrer")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open document")
+    }
+  }
+
+  const review = async (application: ContractorApplication, approve: boolean) => {
+    const reason = rejectionReasons[application.profile_id]?.trim()
+    if (!approve && !reason) {
+      setError("Tell the contractor why their application was rejected")
+      return
+    }
+
+    try {
+      setReviewingProfileId(application.profile_id)
+      setError(null)
+      await reviewContractorApplication(application.profile_id, approve, reason)
+      // Reviewed applications leave the pending list
+      setApplications((current) => current.filter((item) => item.profile_id !== application.profile_id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to review application")
+    } finally {
+      setReviewingProfileId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-48">
+          <Select value={status} onValueChange={(value) => setStatus(value as ContractorVerificationStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LISTED_STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {CONTRACTOR_VERIFICATION_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={loadApplications} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-12 justify-center text-gray-600">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading applications...
+        </div>
+      ) : applications.length === 0 ? (
+        <p className="py-12 text-center text-gray-600">No applications with this status.</p>
+      ) : (
+        <div className="space-y-4">
+          {applications.map((application) => {
+            const isReviewing = reviewingProfileId === application.profile_id
+
+            return (
+              <Card key={application.profile_id}>
+                <CardHeader className="pb-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <CardTitle className="text-base">{application.business_name}</CardTitle>
+                    <Badge className={CONTRACTOR_VERIFICATION_BADGE_CLASSES[application.verification_status]}>
+                      {CONTRACTOR_VERIFICATION_LABELS[application.verification_status]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {application.profile?.name ?? "Unknown"} · {application.profile?.profession}
+                    {application.submitted_at &&
+                      ` · submitted ${new Date(application.submitted_at).toLocaleDateString()}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="text-sm text-gray-700 space-y-1">
+                    <p>Licence number: {application.licence_number}</p>
+                    <p>Service radius: {application.service_radius_km} km</p>
+                    <p>
+                      Trades:{" "}
+                      {application.trade_categories
+                        .map((category) => REPORT_CATEGORY_LABELS[category as ReportCategory] ?? category)
+                        .join(", ") || "None"}
+                    </p>
+                    {application.rejection_reason && <p>Rejected because: {application.rejection_reason}</p>}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {application.document_paths.map((path, index) => (
+                      <Button
+                        key={path}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openDocument(path)}
+                        className="flex items-center gap-1"
+                      >
+                        <FileText className="h-4 w-4" />
+                        Document {index + 1}
+                      </Button>
+                    ))}
+                  </div>
+
+                  {application.verification_status === "pending_review" && (
+                    <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+                      <Button size="sm" onClick={() => review(application, true)} disabled={isReviewing}>
+                        Approve
+                      </Button>
+                      <Input
+                        value={rejectionReasons[application.profile_id] ?? ""}
+                        onChange={(e) =>
+                          setRejectionReasons({ ...rejectionReasons, [application.profile_id]: e.target.value })
+                        }
+                        placeholder="Reason for rejecting"
+                        className="flex-1 min-w-[200px]"
+                        disabled={isReviewing}
+                      />
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => review(application, false)}
+                        disabled={isReviewing}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Profile } from "@/lib/supabase"
+import {
+  REPORT_STATUS_LABELS,
+  transitionReportStatus,
+  type ReportStatus,
+} from "@/lib/supabase-report-status"
+import {
+  assignReport,
+  mergeDuplicateReport,
+  setReportHidden,
+  type ModerationReport,
+} from "@/lib/supabase-moderation"
+
+type AdminAction = "status" | "assign" | "merge" | "hide"
+
+interface AdminReportActionsProps {
+  report: ModerationReport
+  contractors: Pick<Profile, "id" | "name" | "profession">[]
+  onChanged: () => void
+}
+
+const ALL_STATUSES = Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]
+
+export function AdminReportActions({ report, contractors, onChanged }: AdminReportActionsProps) {
+  const [action, setAction] = useState<AdminAction | null>(null)
+  const [nextStatus, setNextStatus] = useState<ReportStatus | "">("")
+  const [contractorId, setContractorId] = useState("")
+  const [price, setPrice] = useState("")
+  const [originalReportId, setOriginalReportId] = useState("")
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isOpen = report.status === "pending" || report.status === "in_progress"
+  const isHidden = !!report.hidden_at
+  const pendingBids = report.bids.filter((bid) => bid.status === "pending")
+  const selectedBid = pendingBids.find((bid) => bid.contractor_id === contractorId)
+
+  // Starting work always goes through an assignment, which records who does it
+  const statusOptions = ALL_STATUSES.filter(
+    (status) => status !== report.status && !(report.status === "pending" && status === "in_progress")
+  )
+
+  const startAction = (nextAction: AdminAction) => {
+    setAction(nextAction)
+    setNextStatus("")
+    setContractorId("")
+    setPrice("")
+    setOriginalReportId("")
+    setNote("")
+    setError(null)
+  }
+
+  const canSubmit = () => {
+    switch (action) {
+      case "status":
+        return !!nextStatus
+      case "assign":
+        return !!contractorId && (!!selectedBid || Number(price) > 0)
+      case "merge":
+        return !!originalReportId.trim()
+      case "hide":
+        return true
+      default:
+        return false
+    }
+  }
+
+  const submit = async () => {
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      switch (action) {
+        case "status":
+          if (nextStatus) await transitionReportStatus(report.id, nextStatus, note)
+          break
+        case "assign":
+          await assignReport(report.id, contractorId, selectedBid ? undefined : Number(price), note)
+          break
+        case "merge":
+          await mergeDuplicateReport(report.id, originalReportId.trim())
+          break
+        case "hide":
+          await setReportHidden(report.id, !isHidden, note)
+          break
+      }
+
+      setAction(null)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update report")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount)
+  }
+
+  return (
+    <div className="space-y-3">
+      {action === null ? (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => startAction("status")}>
+            Change status
+          </Button>
+          {isOpen && (
+            <Button variant="outline" size="sm" onClick={() => startAction("assign")}>
+              {report.assigned_contractor_id ? "Reassign" : "Assign contractor"}
+            </Button>
+          )}
+          {report.status === "pending" && !report.duplicate_of && (
+            <Button variant="outline" size="sm" onClick={() => startAction("merge")}>
+              Merge as duplicate
+            </Button>
+          )}
+          <Button
+            variant={isHidden ? "outline" : "destructive"}
+            size="sm"
+            onClick={() => startAction("hide")}
+          >
+            {isHidden ? "Unhide" : "Hide"}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2 rounded-lg border bg-gray-50 p-3">
+          {action === "status" && (
+            <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as ReportStatus)}>
+              <SelectTrigger>
+                <SelectValue placeholder="New status" />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {REPORT_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {action === "assign" && (
+            <>
+              <Select value={contractorId} onValueChange={setContractorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a contractor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contractors
+                    .filter((contractor) => contractor.id !== report.assigned_contractor_id)
+                    .map((contractor) => {
+                      const bid = pendingBids.find((pendingBid) => pendingBid.contractor_id === contractor.id)
+                      return (
+                        <SelectItem key={contractor.id} value={contractor.id}>
+                          {contractor.name} · {contractor.profession}
+                          {bid && ` · bid ${formatCurrency(Number(bid.price))}`}
+                        </SelectItem>
+                      )
+                    })}
+                </SelectContent>
+              </Select>
+              {contractorId && !selectedBid && (
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  placeholder="Agreed price"
+                />
+              )}
+            </>
+          )}
+
+          {action === "merge" && (
+            <Input
+              value={originalReportId}
+              onChange={(e) => setOriginalReportId(e.target.value)}
+              placeholder="ID of the original report"
+            />
+          )}
+
+          {action !== "merge" && (
+            <textarea
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={
+                action === "hide"
+                  ? isHidden ? "Not needed when unhiding" : "Reason, visible to other administrators"
+                  : "Note for the report timeline (optional)"
+              }
+              disabled={action === "hide" && isHidden}
+            />
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAction(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={submit} disabled={isSubmitting || !canSubmit()}>
+              {isSubmitting ? "Saving..." : "Confirm"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
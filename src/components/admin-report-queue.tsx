@@ -0,0 +1,190 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EyeOff, Loader2, MapPin, RefreshCw } from "lucide-react"
+import { AdminReportActions } from "@/components/admin-report-actions"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+import type { Profile } from "@/lib/supabase"
+import { REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/supabase-report-status"
+import {
+  fetchAssignableContractors,
+  fetchModerationReports,
+  type ModerationFilters,
+  type ModerationReport,
+  type VisibilityFilter,
+} from "@/lib/supabase-moderation"
+
+// Select has no empty value, so "all" stands in for no filter
+const ALL = "all"
+
+export function AdminReportQueue() {
+  const [reports, setReports] = useState<ModerationReport[]>([])
+  const [contractors, setContractors] = useState<Pick<Profile, "id" | "name" | "profession">[]>([])
+  // New, untriaged reports first
+  const [filters, setFilters] = useState<ModerationFilters>({ status: "pending", visibility: "all" })
+  const [searchInput, setSearchInput] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReports = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setReports(await fetchModerationReports(filters))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load reports")
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  useEffect(() => {
+    fetchAssignableContractors()
+      .then(setContractors)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load contractors"))
+  }, [])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFilters({ ...filters, search: searchInput })
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="w-40">
+          <Select
+            value={filters.status ?? ALL}
+            onValueChange={(status) =>
+              setFilters({ ...filters, status: status === ALL ? undefined : (status as ReportStatus) })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {REPORT_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-40">
+          <Select
+            value={filters.visibility ?? ALL}
+            onValueChange={(visibility) => setFilters({ ...filters, visibility: visibility as VisibilityFilter })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Visibility" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Visible and hidden</SelectItem>
+              <SelectItem value="visible">Visible only</SelectItem>
+              <SelectItem value="hidden">Hidden only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <form onSubmit={handleSearch} className="flex flex-1 min-w-[200px] gap-2">
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search description or location"
+          />
+          <Button type="submit" variant="outline">
+            Search
+          </Button>
+        </form>
+        <Button variant="outline" onClick={loadReports} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-12 justify-center text-gray-600">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading reports...
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="py-12 text-center text-gray-600">No reports match these filters.</p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <Card key={report.id} className={report.hidden_at ? "border-red-200 bg-red-50/40" : undefined}>
+              <CardHeader className="pb-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <CardTitle className="text-base">Report #{report.id.slice(0, 8)}</CardTitle>
+                  <Badge variant="outline">{REPORT_STATUS_LABELS[report.status]}</Badge>
+                  {report.hidden_at && (
+                    <Badge variant="destructive" className="flex items-center gap-1">
+                      <EyeOff className="h-3 w-3" />
+                      Hidden
+                    </Badge>
+                  )}
+                  <ReportCategoryBadges category={report.category} severity={report.severity} />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {formatDate(report.created_at)} · by {report.reporter?.name ?? "Unknown"}
+                  {report.upvote_count > 0 && ` · ${report.upvote_count} following`}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-800">{report.description}</p>
+                {(report.location_string || report.address) && (
+                  <p className="flex items-center gap-1 text-sm text-gray-600">
+                    <MapPin className="h-4 w-4" />
+                    {report.location_string || report.address}
+                  </p>
+                )}
+                <div className="text-xs text-gray-600 space-y-1">
+                  <p>Full ID: {report.id}</p>
+                  {report.assigned_contractor && (
+                    <p>
+                      Assigned to{" "}
+                      <Link href={`/contractors/${report.assigned_contractor.id}`} className="text-blue-600 hover:underline">
+                        {report.assigned_contractor.name}
+                      </Link>
+                    </p>
+                  )}
+                  {report.bids.length > 0 && (
+                    <p>
+                      {report.bids.filter((bid) => bid.status === "pending").length} pending of {report.bids.length} bids
+                    </p>
+                  )}
+                  {report.duplicate_of && <p>Duplicate of report #{report.duplicate_of.slice(0, 8)}</p>}
+                  {report.hidden_at && report.hidden_reason && <p>Hidden because: {report.hidden_reason}</p>}
+                </div>
+                <AdminReportActions report={report} contractors={contractors} onChanged={loadReports} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
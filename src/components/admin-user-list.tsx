@@ -0,0 +1,161 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2 } from "lucide-react"
+import type { Profile } from "@/lib/supabase"
+import type { ProfileRole } from "@/lib/route-access"
+import {
+  PROFILE_ROLES,
+  fetchProfilesForAdmin,
+  setProfileRole,
+  setProfileSuspended,
+} from "@/lib/supabase-moderation"
+
+interface AdminUserListProps {
+  // The signed-in admin, who cannot demote or suspend themselves
+  currentProfileId: string
+}
+
+export function AdminUserList({ currentProfileId }: AdminUserListProps) {
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [search, setSearch] = useState("")
+  const [searchInput, setSearchInput] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [updatingProfileId, setUpdatingProfileId] = useState<string | null>(null)
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setProfiles(await fetchProfilesForAdmin(search))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load users")
+    } finally {
+      setLoading(false)
+    }
+  }, [search])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const replaceProfile = (updated: Profile) => {
+    setProfiles((current) => current.map((profile) => (profile.id === updated.id ? updated : profile)))
+  }
+
+  const changeRole = async (profile: Profile, role: ProfileRole) => {
+    if (role === profile.role) return
+    if (!confirm(`Make ${profile.name} a ${role}?`)) return
+
+    try {
+      setUpdatingProfileId(profile.id)
+      setError(null)
+      replaceProfile(await setProfileRole(profile.id, role))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change role")
+    } finally {
+      setUpdatingProfileId(null)
+    }
+  }
+
+  const toggleSuspended = async (profile: Profile) => {
+    const suspend = !profile.suspended_at
+    if (suspend && !confirm(`Suspend ${profile.name}? They will not be able to file reports or bid.`)) return
+
+    try {
+      setUpdatingProfileId(profile.id)
+      setError(null)
+      replaceProfile(await setProfileSuspended(profile.id, suspend))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update suspension")
+    } finally {
+      setUpdatingProfileId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          setSearch(searchInput)
+        }}
+        className="flex gap-2"
+      >
+        <Input value={searchInput} onChange={(e) => setSearchInput(e.target.value)} placeholder="Search by name" />
+        <Button type="submit" variant="outline">
+          Search
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 py-12 justify-center text-gray-600">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Loading users...
+        </div>
+      ) : profiles.length === 0 ? (
+        <p className="py-12 text-center text-gray-600">No users found.</p>
+      ) : (
+        <div className="space-y-2">
+          {profiles.map((profile) => {
+            const isSelf = profile.id === currentProfileId
+            const isUpdating = updatingProfileId === profile.id
+
+            return (
+              <Card key={profile.id}>
+                <CardContent className="flex flex-wrap items-center justify-between gap-3 py-4">
+                  <div>
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {profile.name}
+                      {isSelf && <span className="text-xs text-gray-500">(you)</span>}
+                      {profile.suspended_at && <Badge variant="destructive">Suspended</Badge>}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {profile.profession} · joined {new Date(profile.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-36">
+                      <Select
+                        value={profile.role}
+                        onValueChange={(role) => changeRole(profile, role as ProfileRole)}
+                        disabled={isSelf || isUpdating}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROFILE_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {role}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant={profile.suspended_at ? "outline" : "destructive"}
+                      size="sm"
+                      onClick={() => toggleSuspended(profile)}
+                      disabled={isSelf || isUpdating}
+                    >
+                      {profile.suspended_at ? "Lift suspension" : "Suspend"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
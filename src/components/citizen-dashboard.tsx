@@ -2,157 +2,42 @@
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { FileText, Users, MapPin, Search, AlertTriangle, Plus, Sun, Moon, User, Calendar, Briefcase, UserCheck } from "lucide-react"
+import { FileText, Users, MapPin, Search, Plus, Sun, Moon, User, Calendar, Briefcase, UserCheck } from "lucide-react"
 import { useRouter } from "next/navigation"
 import { useEffect, useState } from "react"
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
-import type { Profile } from "@/lib/supabase"
+import { supabase, type Profile } from "@/lib/supabase"
+import { useAuth } from "@/components/supabase-provider"
+import { NotificationBell } from "@/components/notification-bell"
 
 interface CitizenDashboardProps {
-  profile?: Profile // Keep as optional fallback
+  profile: Profile
 }
 
-export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps) {
+export function CitizenDashboard({ profile }: CitizenDashboardProps) {
   const router = useRouter()
-  const [profile, setProfile] = useState<Profile | null>(null)
+  const { refreshProfile } = useAuth()
   const [isDark, setIsDark] = useState(false)
   const [isLoaded, setIsLoaded] = useState(false)
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [dataSource, setDataSource] = useState<'session' | 'props' | 'loading'>('loading')
   const [isEditing, setIsEditing] = useState(false)
   const [editForm, setEditForm] = useState({
-    name: '',
-    age: '',
-    gender: '',
-    profession: ''
+    name: profile.name,
+    age: profile.age.toString(),
+    gender: profile.gender,
+    profession: profile.profession
   })
   const [isUpdating, setIsUpdating] = useState(false)
-  
-  const supabase = createClientComponentClient()
 
   // Toggle theme
   const toggleTheme = () => {
     setIsDark(!isDark)
   }
 
-  // Fetch profile from session with fallback to props
+  // Trigger animations after the first render
   useEffect(() => {
-    const fetchProfileFromSession = async () => {
-      try {
-        setLoading(true)
-        setError(null)
-
-        // Get the current session
-        const { data: { session }, error: sessionError } = await supabase.auth.getSession()
-        
-        if (sessionError) {
-          console.error('Session error:', sessionError)
-          // Fall back to prop profile if session error
-          if (propProfile) {
-            setProfile(propProfile)
-            setDataSource('props')
-            setEditForm({
-              name: propProfile.name,
-              age: propProfile.age.toString(),
-              gender: propProfile.gender,
-              profession: propProfile.profession
-            })
-            setTimeout(() => setIsLoaded(true), 100)
-            setLoading(false)
-            return
-          }
-          throw new Error(`Session error: ${sessionError.message}`)
-        }
-
-        if (!session?.user) {
-          console.warn('No authenticated session found')
-          // Fall back to prop profile if no session
-          if (propProfile) {
-            setProfile(propProfile)
-            setDataSource('props')
-            setEditForm({
-              name: propProfile.name,
-              age: propProfile.age.toString(),
-              gender: propProfile.gender,
-              profession: propProfile.profession
-            })
-            setTimeout(() => setIsLoaded(true), 100)
-            setLoading(false)
-            return
-          }
-          throw new Error('No authenticated user found')
-        }
-
-        // Fetch profile data using the user ID from session
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', session.user.id)
-          .single()
-
-        if (profileError) {
-          console.error('Profile fetch error:', profileError)
-          // Fall back to prop profile if database error
-          if (propProfile) {
-            setProfile(propProfile)
-            setDataSource('props')
-            setEditForm({
-              name: propProfile.name,
-              age: propProfile.age.toString(),
-              gender: propProfile.gender,
-              profession: propProfile.profession
-            })
-            setTimeout(() => setIsLoaded(true), 100)
-            setLoading(false)
-            return
-          }
-          throw new Error(`Profile fetch error: ${profileError.message}`)
-        }
-
-        if (!profileData) {
-          console.warn('No profile data found in database')
-          // Fall back to prop profile if no data
-          if (propProfile) {
-            setProfile(propProfile)
-            setDataSource('props')
-            setEditForm({
-              name: propProfile.name,
-              age: propProfile.age.toString(),
-              gender: propProfile.gender,
-              profession: propProfile.profession
-            })
-            setTimeout(() => setIsLoaded(true), 100)
-            setLoading(false)
-            return
-          }
-          throw new Error('Profile not found')
-        }
-
-        setProfile(profileData)
-        setDataSource('session')
-        
-        // Initialize edit form with profile data
-        setEditForm({
-          name: profileData.name,
-          age: profileData.age.toString(),
-          gender: profileData.gender,
-          profession: profileData.profession
-        })
-        
-        // Trigger animations after data loads
-        setTimeout(() => setIsLoaded(true), 100)
-        
-      } catch (err) {
-        console.error('Error fetching profile:', err)
-        setError(err instanceof Error ? err.message : 'Failed to load profile')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchProfileFromSession()
-  }, [supabase, propProfile])
+    const timer = setTimeout(() => setIsLoaded(true), 100)
+    return () => clearTimeout(timer)
+  }, [])
 
   // Function to handle edit form changes
   const handleEditFormChange = (field: keyof typeof editForm, value: string) => {
@@ -164,15 +49,13 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
 
   // Function to start editing
   const startEditing = () => {
-    if (profile) {
-      setEditForm({
-        name: profile.name,
-        age: profile.age.toString(),
-        gender: profile.gender,
-        profession: profile.profession
-      })
-      setIsEditing(true)
-    }
+    setEditForm({
+      name: profile.name,
+      age: profile.age.toString(),
+      gender: profile.gender,
+      profession: profile.profession
+    })
+    setIsEditing(true)
   }
 
   // Function to cancel editing
@@ -183,8 +66,6 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
 
   // Function to save changes
   const saveChanges = async () => {
-    if (!profile) return
-
     // Validate form
     if (!editForm.name.trim()) {
       setError('Name is required')
@@ -211,34 +92,6 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
       setIsUpdating(true)
       setError(null)
 
-      // Check if we have an authenticated session
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
-      
-      if (sessionError || !session?.user) {
-        // If no session, check if we're working with props data
-        if (dataSource === 'props') {
-          // Update local state only (no database update possible)
-          const updatedProfile = {
-            ...profile,
-            name: editForm.name.trim(),
-            age: age,
-            gender: editForm.gender.trim(),
-            profession: editForm.profession.trim()
-          }
-          
-          setProfile(updatedProfile)
-          setIsEditing(false)
-          setError('Profile updated locally. Please sign in to save changes to your account.')
-          
-          // Clear error after 5 seconds
-          setTimeout(() => setError(null), 5000)
-          return
-        }
-        
-        throw new Error('No authenticated user. Please sign in to save changes.')
-      }
-
-      // We have a session, proceed with database update
       const updatedData = {
         name: editForm.name.trim(),
         age: age,
@@ -247,19 +100,17 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
         updated_at: new Date().toISOString()
       }
 
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('profiles')
         .update(updatedData)
-        .eq('id', session.user.id)
-        .select()
-        .single()
+        .eq('id', profile.id)
 
       if (error) {
         throw new Error(`Update error: ${error.message}`)
       }
 
-      setProfile(data)
-      setDataSource('session')
+      // The dashboard renders the shared profile, so reload it to show the saved values
+      await refreshProfile()
       setIsEditing(false)
       
     } catch (err) {
@@ -313,41 +164,6 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
     router.push("/report-incident") 
   }
 
-  // Loading state
-  if (loading) {
-    return (
-      <div className="min-h-screen p-6 bg-black flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-500 mx-auto mb-4"></div>
-          <p className="text-gray-300">Loading your profile...</p>
-        </div>
-      </div>
-    )
-  }
-
-  // Error state
-  if (error || !profile) {
-    return (
-      <div className="min-h-screen p-6 bg-black flex items-center justify-center">
-        <div className="text-center">
-          <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-gray-100 mb-2">
-            Failed to Load Profile
-          </h2>
-          <p className="text-gray-400 mb-4">
-            {error || 'Profile data not available'}
-          </p>
-          <Button 
-            onClick={() => window.location.reload()}
-            className="bg-purple-600 hover:bg-purple-700"
-          >
-            Try Again
-          </Button>
-        </div>
-      </div>
-    )
-  }
-
   const profileFields = [
     {
       label: "Name",
@@ -386,20 +202,23 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
                 Welcome, {profile.name}
               </h1>
               <p className="text-lg text-gray-300">Citizen Dashboard</p>
-              <p className="text-sm mt-1 text-blue-400">
-                Profile loaded from: {dataSource === 'session' ? 'Database Session' : dataSource === 'props' ? 'Props (Fallback)' : 'Loading...'}
-              </p>
             </div>
             
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={toggleTheme}
-              className="flex items-center space-x-2 border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-gray-200"
-            >
-              {isDark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-              <span>{isDark ? 'Light' : 'Dark'}</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              <NotificationBell
+                profileId={profile.id}
+                className="border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-gray-200"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={toggleTheme}
+                className="flex items-center space-x-2 border-gray-600 text-gray-300 hover:bg-gray-800 hover:text-gray-200"
+              >
+                {isDark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                <span>{isDark ? 'Light' : 'Dark'}</span>
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -445,16 +264,8 @@ export function CitizenDashboard({ profile: propProfile }: CitizenDashboardProps
                 </div>
               </div>
               {error && (
-                <div className={`mt-2 p-2 border rounded ${
-                  error.includes('locally') 
-                    ? 'bg-yellow-900/20 border-yellow-500/20' 
-                    : 'bg-red-900/20 border-red-500/20'
-                }`}>
-                  <p className={`text-sm ${
-                    error.includes('locally') 
-                      ? 'text-yellow-400' 
-                      : 'text-red-400'
-                  }`}>{error}</p>
+                <div className="mt-2 p-2 border rounded bg-red-900/20 border-red-500/20">
+                  <p className="text-sm text-red-400">{error}</p>
                 </div>
               )}
             </CardHeader>
@@ -2,30 +2,130 @@
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Briefcase, Star, MessageSquare, DollarSign, Search } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Briefcase, Star, MessageSquare, DollarSign, Search, CheckCircle, ShieldCheck } from "lucide-react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { useEffect, useState } from "react"
 import type { Profile } from "@/lib/supabase"
+import { StarRating } from "@/components/star-rating"
+import { NotificationBell } from "@/components/notification-bell"
+import {
+  fetchContractorStats,
+  STATS_TIME_RANGES,
+  type ContractorStats,
+  type StatsTimeRange,
+} from "@/lib/supabase-contractor-stats"
+import {
+  CONTRACTOR_VERIFICATION_BADGE_CLASSES,
+  CONTRACTOR_VERIFICATION_LABELS,
+  fetchContractorProfile,
+  getVerificationStatus,
+  type ContractorProfile,
+} from "@/lib/supabase-contractor-onboarding"
 
 interface ContractorDashboardProps {
   profile: Profile
 }
 
 export function ContractorDashboard({ profile }: ContractorDashboardProps) {
-  // Mock data for contractor stats
-  const contractorStats = {
-    totalJobs: 24,
-    averageRating: 4.8,
-    latestReview: "Excellent work on the road repair project. Very professional and timely.",
-    totalIncome: 15750,
+  const router = useRouter()
+  const [timeRange, setTimeRange] = useState<StatsTimeRange>("all")
+  const [contractorStats, setContractorStats] = useState<ContractorStats | null>(null)
+  const [statsLoading, setStatsLoading] = useState(true)
+  const [statsError, setStatsError] = useState<string | null>(null)
+  const [contractorProfile, setContractorProfile] = useState<ContractorProfile | null>(null)
+  const [verificationLoading, setVerificationLoading] = useState(true)
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        setStatsLoading(true)
+        setStatsError(null)
+        setContractorStats(await fetchContractorStats(profile.id, timeRange))
+      } catch (err) {
+        setStatsError(err instanceof Error ? err.message : "Failed to load your statistics")
+      } finally {
+        setStatsLoading(false)
+      }
+    }
+
+    loadStats()
+  }, [profile.id, timeRange])
+
+  useEffect(() => {
+    fetchContractorProfile(profile.id)
+      .then(setContractorProfile)
+      .catch((err) => setStatsError(err instanceof Error ? err.message : "Failed to load your verification status"))
+      .finally(() => setVerificationLoading(false))
+  }, [profile.id])
+
+  const formatStat = (value: number | string | undefined) => {
+    if (statsLoading) return "…"
+    return value ?? "—"
   }
 
+  const latestReview = contractorStats?.latestReview
+  const verificationStatus = getVerificationStatus(contractorProfile)
+
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-6xl mx-auto">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Welcome, {profile.name}</h1>
-          <p className="text-gray-600 mt-2">Contractor Dashboard</p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Welcome, {profile.name}</h1>
+            <p className="text-gray-600 mt-2">Contractor Dashboard</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell profileId={profile.id} />
+            <div className="w-48">
+              <Select value={timeRange} onValueChange={(value: StatsTimeRange) => setTimeRange(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Time range" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATS_TIME_RANGES.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </div>
 
+        {statsError && (
+          <div className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">{statsError}</div>
+        )}
+
+        {!verificationLoading && verificationStatus !== "verified" && (
+          <Card className="mb-6 border-yellow-200 bg-yellow-50">
+            <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
+              <div className="flex items-center space-x-3">
+                <ShieldCheck className="h-6 w-6 text-yellow-700" />
+                <div>
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    Verification
+                    <Badge className={CONTRACTOR_VERIFICATION_BADGE_CLASSES[verificationStatus]}>
+                      {CONTRACTOR_VERIFICATION_LABELS[verificationStatus]}
+                    </Badge>
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {verificationStatus === "pending_review"
+                      ? "An administrator is checking your details. You can bid on jobs once you are verified."
+                      : "Add your business details and documents so an administrator can verify you before you bid on jobs."}
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" onClick={() => router.push("/contractor-onboarding")}>
+                {verificationStatus === "pending_review" ? "View application" : "Complete verification"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           {/* Contractor Details Card */}
           <Card>
@@ -55,6 +155,12 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
                   <span className="font-medium text-gray-500">Role:</span>
                   <span className="text-blue-600 font-semibold">{profile.role}</span>
                 </div>
+                {contractorProfile && (
+                  <div className="flex justify-between">
+                    <span className="font-medium text-gray-500">Business:</span>
+                    <span className="text-gray-900">{contractorProfile.business_name}</span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -68,13 +174,27 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
                     <Briefcase className="h-6 w-6 text-blue-600" />
                   </div>
                   <div>
-                    <p className="text-2xl font-bold text-gray-900">{contractorStats.totalJobs}</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatStat(contractorStats?.jobsAssigned)}</p>
                     <p className="text-sm text-gray-500">My Total Jobs</p>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-green-100 rounded-lg">
+                    <CheckCircle className="h-6 w-6 text-green-600" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-gray-900">{formatStat(contractorStats?.jobsCompleted)}</p>
+                    <p className="text-sm text-gray-500">My Completed Jobs</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardContent className="p-6">
                 <div className="flex items-center space-x-3">
@@ -82,8 +202,13 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
                     <Star className="h-6 w-6 text-yellow-600" />
                   </div>
                   <div>
-                    <p className="text-2xl font-bold text-gray-900">{contractorStats.averageRating}/5</p>
-                    <p className="text-sm text-gray-500">My Average Rating</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {contractorStats?.averageRating != null ? `${contractorStats.averageRating.toFixed(1)}/5` : formatStat(undefined)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      My Average Rating
+                      {contractorStats && contractorStats.reviewCount > 0 && ` (${contractorStats.reviewCount} review${contractorStats.reviewCount !== 1 ? "s" : ""})`}
+                    </p>
                   </div>
                 </div>
               </CardContent>
@@ -101,18 +226,24 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <blockquote className="text-gray-700 italic">"{contractorStats.latestReview}"</blockquote>
-              <div className="flex items-center mt-3">
-                {[...Array(5)].map((_, i) => (
-                  <Star
-                    key={i}
-                    className={`h-4 w-4 ${
-                      i < Math.floor(contractorStats.averageRating) ? "text-yellow-400 fill-current" : "text-gray-300"
-                    }`}
-                  />
-                ))}
-                <span className="ml-2 text-sm text-gray-500">5.0</span>
-              </div>
+              {latestReview ? (
+                <>
+                  {latestReview.comment ? (
+                    <blockquote className="text-gray-700 italic">&ldquo;{latestReview.comment}&rdquo;</blockquote>
+                  ) : (
+                    <p className="text-gray-500">No comment left with this rating.</p>
+                  )}
+                  <div className="flex items-center mt-3">
+                    <StarRating rating={latestReview.rating} />
+                    <span className="ml-2 text-sm text-gray-500">{latestReview.rating.toFixed(1)}</span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-gray-500">{statsLoading ? "Loading..." : "No reviews yet."}</p>
+              )}
+              <Link href={`/contractors/${profile.id}`} className="mt-4 inline-block text-sm text-blue-600 hover:underline">
+                View my public profile and all reviews
+              </Link>
             </CardContent>
           </Card>
 
@@ -126,7 +257,9 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
             </CardHeader>
             <CardContent>
               <div className="text-center">
-                <p className="text-4xl font-bold text-green-600">${contractorStats.totalIncome.toLocaleString()}</p>
+                <p className="text-4xl font-bold text-green-600">
+                  {contractorStats ? `$${contractorStats.totalIncome.toLocaleString()}` : formatStat(undefined)}
+                </p>
                 <p className="text-gray-500 mt-2">Total earnings from completed jobs</p>
               </div>
             </CardContent>
@@ -137,7 +270,7 @@ export function ContractorDashboard({ profile }: ContractorDashboardProps) {
           <Button
             size="lg"
             className="bg-green-600 hover:bg-green-700 text-white px-8 py-4 text-lg"
-            onClick={() => console.log("Find New Jobs clicked")}
+            onClick={() => router.push("/find-jobs")}
           >
             <Search className="mr-2 h-5 w-5" />
             Find New Jobs
@@ -0,0 +1,193 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Loader2, MessageSquare } from "lucide-react"
+import { StarRating } from "@/components/star-rating"
+import type { ContractorReview } from "@/lib/supabase-contractor-stats"
+import {
+  fetchAssignmentForReport,
+  fetchReviewForReport,
+  submitContractorReview,
+  type JobAssignment,
+} from "@/lib/supabase-reviews"
+
+interface ContractorReviewFormProps {
+  reportId: string
+  reviewerId: string
+}
+
+export function ContractorReviewForm({ reportId, reviewerId }: ContractorReviewFormProps) {
+  const [assignment, setAssignment] = useState<JobAssignment | null>(null)
+  const [review, setReview] = useState<ContractorReview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rating, setRating] = useState(0)
+  const [comment, setComment] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadReviewState = async () => {
+      try {
+        setLoading(true)
+        const [assignmentData, reviewData] = await Promise.all([
+          fetchAssignmentForReport(reportId),
+          fetchReviewForReport(reportId),
+        ])
+        setAssignment(assignmentData)
+        setReview(reviewData)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load review")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadReviewState()
+  }, [reportId])
+
+  const handleFileSelect = (files: FileList | null) => {
+    if (!files) return
+
+    const validFiles = Array.from(files).filter((file) => file.type.startsWith("image/"))
+    if (photos.length + validFiles.length > 3) {
+      setError("Maximum 3 photos allowed")
+      return
+    }
+
+    setPhotos((prev) => [...prev, ...validFiles])
+    setPhotoPreviews((prev) => [...prev, ...validFiles.map((file) => URL.createObjectURL(file))])
+  }
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photoPreviews[index])
+    setPhotos((prev) => prev.filter((_, i) => i !== index))
+    setPhotoPreviews((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!assignment) return
+
+    if (rating === 0) {
+      setError("Please choose a star rating")
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const createdReview = await submitContractorReview({
+        assignment,
+        reviewerId,
+        rating,
+        comment,
+        photos,
+      })
+      photoPreviews.forEach((url) => URL.revokeObjectURL(url))
+      setPhotoPreviews([])
+      setPhotos([])
+      setReview(createdReview)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit review")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading review...
+      </div>
+    )
+  }
+
+  // Nothing to review if no contractor was ever assigned
+  if (!assignment) {
+    return null
+  }
+
+  const contractorName = assignment.contractor?.name || "the contractor"
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+        <MessageSquare className="h-4 w-4" />
+        Your Review of{" "}
+        <Link href={`/contractors/${assignment.contractor_id}`} className="text-blue-600 hover:underline">
+          {contractorName}
+        </Link>
+      </h4>
+
+      {review ? (
+        <div className="space-y-2">
+          <StarRating rating={review.rating} />
+          {review.comment && <p className="text-gray-700 italic">&ldquo;{review.comment}&rdquo;</p>}
+          {review.photo_urls && review.photo_urls.length > 0 && (
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+              {review.photo_urls.map((url, index) => (
+                <img key={index} src={url} alt={`Review photo ${index + 1}`} className="w-full h-16 object-cover rounded border" />
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <StarRating rating={rating} onChange={setRating} size="lg" />
+          <textarea
+            rows={3}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder={`How did ${contractorName} do?`}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={photos.length >= 3}
+            >
+              📁 Add after photos
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => handleFileSelect(e.target.files)}
+              className="hidden"
+            />
+            {photoPreviews.map((preview, index) => (
+              <div key={index} className="relative">
+                <img src={preview} alt={`After photo ${index + 1}`} className="h-12 w-12 object-cover rounded border" />
+                <button
+                  type="button"
+                  onClick={() => removePhoto(index)}
+                  className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit Review"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
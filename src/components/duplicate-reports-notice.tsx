@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Copy, ThumbsUp } from "lucide-react"
+import { formatDistance } from "@/lib/supabase-location"
+import { REPORT_STATUS_LABELS } from "@/lib/supabase-report-status"
+import {
+  fetchFollowedReportIds,
+  findSimilarReports,
+  followReport,
+  unfollowReport,
+  type SimilarReport,
+} from "@/lib/supabase-duplicates"
+
+interface DuplicateReportsNoticeProps {
+  location: {
+    lat: number
+    lng: number
+  }
+  description: string
+  profileId: string
+  // Called when the user decides the existing report covers their issue
+  onUseExisting: (report: SimilarReport) => void
+}
+
+export function DuplicateReportsNotice({ location, description, profileId, onUseExisting }: DuplicateReportsNoticeProps) {
+  const [matches, setMatches] = useState<SimilarReport[]>([])
+  const [followedIds, setFollowedIds] = useState<string[]>([])
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Re-rank as the description is typed, without querying on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        const similar = await findSimilarReports({ latitude: location.lat, longitude: location.lng }, description)
+        setMatches(similar)
+        setFollowedIds(await fetchFollowedReportIds(profileId, similar.map((report) => report.id)))
+      } catch {
+        // Duplicate hints are optional; the form still works without them
+        setMatches([])
+      }
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [location.lat, location.lng, description, profileId])
+
+  const toggleFollow = async (report: SimilarReport) => {
+    const isFollowing = followedIds.includes(report.id)
+
+    try {
+      setUpdatingId(report.id)
+      setError(null)
+
+      if (isFollowing) {
+        await unfollowReport(report.id, profileId)
+      } else {
+        await followReport(report.id, profileId)
+      }
+
+      setFollowedIds((prev) => isFollowing ? prev.filter((id) => id !== report.id) : [...prev, report.id])
+      setMatches((prev) => prev.map((match) =>
+        match.id === report.id
+          ? { ...match, upvote_count: Math.max(match.upvote_count + (isFollowing ? -1 : 1), 0) }
+          : match
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update follow")
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  if (matches.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <h3 className="font-semibold text-yellow-900 mb-1 flex items-center gap-2">
+        <Copy className="h-4 w-4" />
+        Has this already been reported?
+      </h3>
+      <p className="text-sm text-yellow-800 mb-3">
+        {matches.length} open report{matches.length !== 1 ? "s" : ""} nearby. If one of them is your issue,
+        give it a +1 and follow it instead of filing a new report.
+      </p>
+
+      <div className="space-y-2">
+        {matches.map((report) => {
+          const isOwnReport = report.profile_id === profileId
+          const isFollowing = followedIds.includes(report.id)
+
+          return (
+            <div key={report.id} className="flex items-start justify-between gap-4 rounded-lg border bg-white p-3">
+              <div className="flex-1">
+                <p className="text-sm text-gray-900 line-clamp-2">{report.description}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {REPORT_STATUS_LABELS[report.status]}
+                  {report.distance !== undefined && ` · ${formatDistance(report.distance)} away`}
+                  {` · ${report.upvote_count} +1${report.upvote_count !== 1 ? "s" : ""}`}
+                </p>
+                {isFollowing && (
+                  <button
+                    type="button"
+                    onClick={() => onUseExisting(report)}
+                    className="text-xs text-blue-600 hover:underline mt-1"
+                  >
+                    This is my issue, discard my new report
+                  </button>
+                )}
+              </div>
+              {isOwnReport ? (
+                <span className="text-xs font-medium uppercase text-gray-500">Your report</span>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={isFollowing ? "default" : "outline"}
+                  onClick={() => toggleFollow(report)}
+                  disabled={updatingId !== null}
+                >
+                  <ThumbsUp className="h-4 w-4 mr-1" />
+                  {isFollowing ? "Following" : "+1 & Follow"}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
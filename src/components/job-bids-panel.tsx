@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Gavel, Loader2 } from "lucide-react"
+import { acceptJobBid, fetchBidsForReport, type JobBid } from "@/lib/supabase-jobs"
+
+interface JobBidsPanelProps {
+  reportId: string
+  onBidAccepted?: (bid: JobBid) => void
+}
+
+export function JobBidsPanel({ reportId, onBidAccepted }: JobBidsPanelProps) {
+  const [bids, setBids] = useState<JobBid[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [acceptingBidId, setAcceptingBidId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadBids = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setBids(await fetchBidsForReport(reportId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load bids")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadBids()
+  }, [reportId])
+
+  const handleAccept = async (bid: JobBid) => {
+    if (!confirm(`Accept ${bid.contractor?.name || "this contractor"}'s bid of ${formatCurrency(Number(bid.price))}?`)) {
+      return
+    }
+
+    try {
+      setAcceptingBidId(bid.id)
+      setError(null)
+      const acceptedBid = await acceptJobBid(bid.id)
+      onBidAccepted?.(acceptedBid)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept bid")
+    } finally {
+      setAcceptingBidId(null)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount)
+  }
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+        <Gavel className="h-4 w-4" />
+        Contractor Bids
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading bids...
+        </div>
+      ) : bids.length === 0 ? (
+        <p className="text-sm text-gray-500">No contractors have bid on this report yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {bids.map((bid) => (
+            <div key={bid.id} className="flex items-start justify-between gap-4 rounded-lg border bg-gray-50 p-3">
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">
+                  <Link href={`/contractors/${bid.contractor_id}`} className="hover:underline">
+                    {bid.contractor?.name || "Contractor"}
+                  </Link>
+                  {bid.contractor?.profession && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">{bid.contractor.profession}</span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-700">
+                  {formatCurrency(Number(bid.price))} · done in {bid.eta_days} day{bid.eta_days !== 1 ? "s" : ""}
+                </p>
+                {bid.message && <p className="text-sm text-gray-600 mt-1">{bid.message}</p>}
+              </div>
+              {bid.status === "pending" ? (
+                <Button
+                  size="sm"
+                  onClick={() => handleAccept(bid)}
+                  disabled={acceptingBidId !== null}
+                >
+                  {acceptingBidId === bid.id ? "Accepting..." : "Accept"}
+                </Button>
+              ) : (
+                <span className="text-xs font-medium uppercase text-gray-500">{bid.status}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { ArrowUp } from "lucide-react"
+
+interface NewReportsBannerProps {
+  count: number
+  onShow: () => void
+  className?: string
+  buttonClassName?: string
+}
+
+export function NewReportsBanner({ count, onShow, className = "", buttonClassName = "" }: NewReportsBannerProps) {
+  if (count === 0) {
+    return null
+  }
+
+  return (
+    <div className={`sticky top-4 z-10 flex justify-center ${className}`}>
+      <Button size="sm" onClick={onShow} className={`rounded-full shadow-lg flex items-center gap-2 ${buttonClassName}`}>
+        <ArrowUp className="h-4 w-4" />
+        {count} new {count === 1 ? "report" : "reports"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Bell, Loader2, Settings } from "lucide-react"
+import { NotificationPreferencesForm } from "@/components/notification-preferences-form"
+import {
+  countUnreadNotifications,
+  fetchNotifications,
+  markNotificationsRead,
+  subscribeToNotifications,
+  type Notification,
+} from "@/lib/supabase-notifications"
+
+interface NotificationBellProps {
+  profileId: string
+  className?: string
+}
+
+export function NotificationBell({ profileId, className = "" }: NotificationBellProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [view, setView] = useState<"inbox" | "settings">("inbox")
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const loadInbox = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const [inbox, unread] = await Promise.all([
+          fetchNotifications(profileId),
+          countUnreadNotifications(profileId),
+        ])
+        setNotifications(inbox)
+        setUnreadCount(unread)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load notifications")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInbox()
+
+    return subscribeToNotifications(profileId, (notification) => {
+      setNotifications((prev) => [notification, ...prev.filter((existing) => existing.id !== notification.id)])
+      setUnreadCount((count) => count + 1)
+    })
+  }, [profileId])
+
+  // Close when clicking anywhere outside the panel
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [isOpen])
+
+  const markRead = async (notificationIds?: string[]) => {
+    try {
+      setError(null)
+      const marked = await markNotificationsRead(notificationIds)
+      const readAt = new Date().toISOString()
+
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          !notification.read_at && (!notificationIds || notificationIds.includes(notification.id))
+            ? { ...notification, read_at: readAt }
+            : notification
+        )
+      )
+      setUnreadCount((count) => (notificationIds ? Math.max(count - marked, 0) : 0))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update notifications")
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`relative ${className}`}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-lg border bg-white text-gray-900 shadow-xl">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <p className="font-medium">{view === "inbox" ? "Notifications" : "Notification settings"}</p>
+            <div className="flex items-center gap-1">
+              {view === "inbox" && unreadCount > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => markRead()}>
+                  Mark all read
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setView(view === "inbox" ? "settings" : "inbox")}
+                aria-label={view === "inbox" ? "Notification settings" : "Back to notifications"}
+              >
+                {view === "inbox" ? <Settings className="h-4 w-4" /> : "Back"}
+              </Button>
+            </div>
+          </div>
+
+          {view === "settings" ? (
+            <NotificationPreferencesForm profileId={profileId} />
+          ) : loading ? (
+            <div className="flex items-center gap-2 p-4 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading notifications...
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">
+              Nothing yet. You will hear here when your reports change.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => !notification.read_at && markRead([notification.id])}
+                    className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${notification.read_at ? "" : "bg-blue-50/60"}`}
+                  >
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {!notification.read_at && <span className="h-2 w-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-sm text-gray-600 whitespace-pre-line line-clamp-3">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">{formatDate(notification.created_at)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && <p className="px-4 pb-3 text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
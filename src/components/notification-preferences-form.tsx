@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  disableWebPush,
+  enableWebPush,
+  fetchNotificationPreferences,
+  isWebPushSupported,
+  saveNotificationPreferences,
+  type NotificationPreferences,
+} from "@/lib/supabase-notifications"
+
+interface NotificationPreferencesFormProps {
+  profileId: string
+}
+
+const channelOptions: Array<{ key: keyof NotificationPreferences; label: string; description: string }> = [
+  { key: "in_app", label: "In the app", description: "Show notifications under the bell" },
+  { key: "email", label: "Email", description: "Send an email to your sign-in address" },
+  { key: "web_push", label: "Push", description: "Notify this browser even when the app is closed" },
+]
+
+export function NotificationPreferencesForm({ profileId }: NotificationPreferencesFormProps) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [loading, setLoading] = useState(true)
+  const [savingKey, setSavingKey] = useState<keyof NotificationPreferences | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setPreferences(await fetchNotificationPreferences(profileId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load preferences")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPreferences()
+  }, [profileId])
+
+  const toggleChannel = async (key: keyof NotificationPreferences) => {
+    const updated = { ...preferences, [key]: !preferences[key] }
+
+    try {
+      setSavingKey(key)
+      setError(null)
+
+      // Subscribe the browser first so push is never on without somewhere to send it
+      if (key === "web_push") {
+        if (updated.web_push) {
+          await enableWebPush(profileId)
+        } else {
+          await disableWebPush()
+        }
+      }
+
+      await saveNotificationPreferences(profileId, updated)
+      setPreferences(updated)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save preferences")
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading preferences...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3 p-4">
+      <p className="text-xs text-gray-500">
+        You are notified when a report you filed, follow or are working on changes status or gets a comment.
+      </p>
+      {channelOptions.map((option) => {
+        const unavailable = option.key === "web_push" && !preferences.web_push && !isWebPushSupported()
+
+        return (
+          <label key={option.key} className="flex items-start gap-3 text-sm">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={preferences[option.key]}
+              disabled={savingKey !== null || unavailable}
+              onChange={() => toggleChannel(option.key)}
+            />
+            <span>
+              <span className="font-medium text-gray-900">{option.label}</span>
+              <span className="block text-xs text-gray-500">
+                {unavailable ? "Not available in this browser" : option.description}
+              </span>
+            </span>
+            {savingKey === option.key && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </label>
+        )
+      })}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
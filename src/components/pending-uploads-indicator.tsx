@@ -0,0 +1,165 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, CloudUpload, Loader2, WifiOff } from "lucide-react"
+import {
+  QUEUE_CHANGED_EVENT,
+  REPLAY_MESSAGE_TYPE,
+  discardQueuedReport,
+  fetchQueuedReports,
+  registerReportServiceWorker,
+  replayQueuedReports,
+  retryFailedReport,
+  type QueuedReport,
+} from "@/lib/offline-reports"
+
+export function PendingUploadsIndicator() {
+  const [queued, setQueued] = useState<QueuedReport[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isReplaying, setIsReplaying] = useState(false)
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueued(await fetchQueuedReports())
+    } catch {
+      setQueued([])
+    }
+  }, [])
+
+  const replay = useCallback(async () => {
+    if (!navigator.onLine) return
+
+    try {
+      setIsReplaying(true)
+      await replayQueuedReports()
+    } catch (err) {
+      console.error("Error replaying queued reports:", err)
+    } finally {
+      setIsReplaying(false)
+      refreshQueue()
+    }
+  }, [refreshQueue])
+
+  const retryFailed = useCallback(async (id: string) => {
+    try {
+      setIsReplaying(true)
+      await retryFailedReport(id)
+    } catch (err) {
+      console.error("Error retrying queued report:", err)
+    } finally {
+      setIsReplaying(false)
+      refreshQueue()
+    }
+  }, [refreshQueue])
+
+  const discard = useCallback(async (id: string) => {
+    try {
+      await discardQueuedReport(id)
+    } catch (err) {
+      console.error("Error discarding queued report:", err)
+    }
+  }, [])
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine)
+    registerReportServiceWorker()
+    refreshQueue().then(replay)
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      replay()
+    }
+    const handleOffline = () => setIsOnline(false)
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_MESSAGE_TYPE) {
+        replay()
+      }
+    }
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    window.addEventListener(QUEUE_CHANGED_EVENT, refreshQueue)
+    navigator.serviceWorker?.addEventListener("message", handleServiceWorkerMessage)
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refreshQueue)
+      navigator.serviceWorker?.removeEventListener("message", handleServiceWorkerMessage)
+    }
+  }, [refreshQueue, replay])
+
+  if (queued.length === 0) {
+    return null
+  }
+
+  const pending = queued.filter((item) => !item.failedAt)
+  const failed = queued.filter((item) => item.failedAt)
+  const lastError = pending.find((item) => item.lastError)?.lastError
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm space-y-3 rounded-lg border bg-white p-4 shadow-lg">
+      {pending.length > 0 && (
+        <div>
+          <div className="flex items-start gap-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              {isOnline ? (
+                <CloudUpload className="h-5 w-5 text-orange-600" />
+              ) : (
+                <WifiOff className="h-5 w-5 text-orange-600" />
+              )}
+            </div>
+            <div className="flex-1">
+              <p className="font-medium text-gray-900">
+                {pending.length} pending upload{pending.length !== 1 ? "s" : ""}
+              </p>
+              <p className="text-sm text-gray-600">
+                {isOnline
+                  ? "Your saved reports will be sent shortly."
+                  : "You're offline. Reports will upload when you reconnect."}
+              </p>
+              {isOnline && lastError && (
+                <p className="text-xs text-red-600 mt-1 line-clamp-2">Last attempt failed: {lastError}</p>
+              )}
+            </div>
+          </div>
+          {isOnline && (
+            <div className="flex justify-end mt-3">
+              <Button size="sm" variant="outline" onClick={replay} disabled={isReplaying}>
+                {isReplaying ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Uploading...
+                  </>
+                ) : (
+                  "Retry now"
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      {failed.map((item) => (
+        <div key={item.id} className="flex items-start gap-3">
+          <div className="p-2 bg-red-100 rounded-lg">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium text-gray-900">Report could not be sent</p>
+            <p className="text-sm text-gray-600 line-clamp-1">{item.input.location || item.input.description}</p>
+            {item.lastError && <p className="text-xs text-red-600 mt-1 line-clamp-2">{item.lastError}</p>}
+            <div className="flex justify-end gap-2 mt-2">
+              <Button size="sm" variant="ghost" onClick={() => discard(item.id)} disabled={isReplaying}>
+                Discard
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => retryFailed(item.id)} disabled={isReplaying || !isOnline}>
+                Try again
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
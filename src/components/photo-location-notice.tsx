@@ -0,0 +1,80 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Camera } from "lucide-react"
+import { calculateDistance, formatDistance } from "@/lib/supabase-location"
+import type { PhotoMetadata } from "@/lib/image-processing"
+
+// Pins closer than this already match the photo
+const SAME_PLACE_KM = 0.025
+// Further than this and the photo probably shows somewhere else
+const MISMATCH_KM = 0.5
+const OLD_PHOTO_DAYS = 30
+
+interface PhotoLocationNoticeProps {
+  metadata: PhotoMetadata
+  selectedLocation: {
+    lat: number
+    lng: number
+  } | null
+  onUsePhotoLocation: (location: { lat: number; lng: number }) => void
+  onDismiss: () => void
+}
+
+export function PhotoLocationNotice({ metadata, selectedLocation, onUsePhotoLocation, onDismiss }: PhotoLocationNoticeProps) {
+  const { geotag, takenAt } = metadata
+
+  const distanceKm = geotag && selectedLocation
+    ? calculateDistance(selectedLocation.lat, selectedLocation.lng, geotag.latitude, geotag.longitude)
+    : null
+  const canMovePin = geotag !== null && (distanceKm === null || distanceKm > SAME_PLACE_KM)
+  const isMismatch = distanceKm !== null && distanceKm > MISMATCH_KM
+  const isOldPhoto = takenAt !== null && Date.now() - takenAt.getTime() > OLD_PHOTO_DAYS * 24 * 60 * 60 * 1000
+
+  if (!canMovePin && !isOldPhoto) {
+    return null
+  }
+
+  const takenOn = takenAt?.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })
+
+  return (
+    <div
+      className={`rounded-lg border p-4 ${isMismatch ? "bg-yellow-50 border-yellow-200" : "bg-blue-50 border-blue-200"}`}
+    >
+      <h3 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+        {isMismatch ? <AlertTriangle className="h-4 w-4 text-yellow-700" /> : <Camera className="h-4 w-4 text-blue-700" />}
+        {canMovePin ? "Your photo has a location" : "This photo is not recent"}
+      </h3>
+      <div className="text-sm text-gray-700 space-y-1 mb-3">
+        {canMovePin && (
+          <p>
+            {distanceKm !== null
+              ? `It was taken ${formatDistance(distanceKm)} from the pin on the map.`
+              : "It was taken at a known spot."}
+            {isMismatch && " Check that the pin marks where the issue actually is."}
+          </p>
+        )}
+        {takenOn && (
+          <p>
+            Taken on {takenOn}.
+            {isOldPhoto && " Make sure it still shows the issue as it is today."}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {canMovePin && geotag && (
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => onUsePhotoLocation({ lat: geotag.latitude, lng: geotag.longitude })}
+          >
+            Move pin to photo location
+          </Button>
+        )}
+        <Button type="button" size="sm" variant="outline" onClick={onDismiss}>
+          {canMovePin ? "Keep my pin" : "Dismiss"}
+        </Button>
+      </div>
+    </div>
+  )
+}
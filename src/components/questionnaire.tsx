@@ -2,6 +2,7 @@
 
 import type React from "react"
 import { useState } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -12,10 +13,11 @@ import { toast } from "sonner"
 
 interface QuestionnaireProps {
   userId: string
-  onComplete: () => void
+  onComplete: () => Promise<void>
 }
 
 export function Questionnaire({ userId, onComplete }: QuestionnaireProps) {
+  const router = useRouter()
   const [formData, setFormData] = useState({
     name: "",
     age: "",
@@ -27,6 +29,12 @@ export function Questionnaire({ userId, onComplete }: QuestionnaireProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+
+    if (!formData.role) {
+      toast.error("Please select a role")
+      return
+    }
+
     setLoading(true)
 
     try {
@@ -42,7 +50,12 @@ export function Questionnaire({ userId, onComplete }: QuestionnaireProps) {
       if (error) throw error
 
       toast.success("Profile created successfully!")
-      onComplete()
+      // Load the new profile before navigating, or the next page still sees none and sends the user back
+      await onComplete()
+      // Contractors must be verified before they can bid, so start that right away
+      if (formData.role === "Contractor") {
+        router.push("/contractor-onboarding")
+      }
     } catch (error: any) {
       toast.error(error.message || "An error occurred while creating your profile")
     } finally {
@@ -0,0 +1,36 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import {
+  REPORT_CATEGORY_LABELS,
+  REPORT_SEVERITY_BADGE_CLASSES,
+  REPORT_SEVERITY_LABELS,
+  type ReportCategory,
+  type ReportSeverity,
+} from "@/lib/report-categories"
+
+interface ReportCategoryBadgesProps {
+  category?: ReportCategory | null
+  severity?: ReportSeverity | null
+  className?: string
+}
+
+export function ReportCategoryBadges({ category, severity, className }: ReportCategoryBadgesProps) {
+  if (!category && !severity) {
+    return null
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {category && (
+        <Badge variant="secondary" className="bg-indigo-100 text-indigo-800 border-indigo-200">
+          {REPORT_CATEGORY_LABELS[category]}
+        </Badge>
+      )}
+      {severity && (
+        <Badge variant="secondary" className={REPORT_SEVERITY_BADGE_CLASSES[severity]}>
+          {REPORT_SEVERITY_LABELS[severity]} severity
+        </Badge>
+      )}
+    </div>
+  )
+}
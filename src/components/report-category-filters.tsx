@@ -0,0 +1,71 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_LABELS,
+  REPORT_SEVERITIES,
+  REPORT_SEVERITY_LABELS,
+  type ReportCategory,
+  type ReportCategoryFilter,
+  type ReportSeverity,
+} from "@/lib/report-categories"
+
+interface ReportCategoryFiltersProps {
+  value: ReportCategoryFilter
+  onChange: (value: ReportCategoryFilter) => void
+  disabled?: boolean
+  triggerClassName?: string
+}
+
+// Select has no empty value, so "all" stands in for no filter
+const ALL = "all"
+
+export function ReportCategoryFilters({ value, onChange, disabled, triggerClassName }: ReportCategoryFiltersProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="w-44">
+        <Select
+          value={value.category ?? ALL}
+          onValueChange={(category) =>
+            onChange({ ...value, category: category === ALL ? undefined : (category as ReportCategory) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className={triggerClassName}>
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {REPORT_CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>
+                {REPORT_CATEGORY_LABELS[category]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="w-40">
+        <Select
+          value={value.severity ?? ALL}
+          onValueChange={(severity) =>
+            onChange({ ...value, severity: severity === ALL ? undefined : (severity as ReportSeverity) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className={triggerClassName}>
+            <SelectValue placeholder="Severity" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All severities</SelectItem>
+            {REPORT_SEVERITIES.map((severity) => (
+              <SelectItem key={severity} value={severity}>
+                {REPORT_SEVERITY_LABELS[severity]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
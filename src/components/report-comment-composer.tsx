@@ -0,0 +1,197 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Camera, X } from "lucide-react"
+import { processPhoto, type ProcessedPhoto } from "@/lib/image-processing"
+import type { PhotoUploadState } from "@/lib/supabase-report-submission"
+import { MAX_COMMENT_LENGTH, MAX_COMMENT_PHOTOS, postReportComment } from "@/lib/supabase-report-comments"
+
+interface ReportCommentComposerProps {
+  reportId: string
+  // The author, used as the storage folder for the photos
+  profileId: string
+  parentId?: string
+  onPosted: () => void
+  onCancel?: () => void
+}
+
+export function ReportCommentComposer({ reportId, profileId, parentId, onPosted, onCancel }: ReportCommentComposerProps) {
+  const [body, setBody] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  // Kept between attempts so a retry only uploads the photos that failed
+  const [uploads, setUploads] = useState<PhotoUploadState[]>([])
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const previewsRef = useRef(previews)
+  previewsRef.current = previews
+  useEffect(() => {
+    return () => previewsRef.current.forEach((url) => URL.revokeObjectURL(url))
+  }, [])
+
+  const handleFileSelect = async (files: FileList | null) => {
+    if (!files) return
+
+    const selected = Array.from(files).filter((file) => file.type.startsWith("image/"))
+    if (photos.length + selected.length > MAX_COMMENT_PHOTOS) {
+      setError(`You can attach up to ${MAX_COMMENT_PHOTOS} photos`)
+      return
+    }
+
+    setIsProcessing(true)
+    setError(null)
+    const processed = await Promise.allSettled(selected.map((file) => processPhoto(file)))
+    setIsProcessing(false)
+
+    const processedFiles = processed
+      .filter((result): result is PromiseFulfilledResult<ProcessedPhoto> => result.status === "fulfilled")
+      .map((result) => result.value.file)
+    if (processedFiles.length < selected.length) {
+      setError("Some photos could not be processed. Try a JPEG or PNG photo.")
+    }
+
+    setPhotos((prev) => [...prev, ...processedFiles])
+    setPreviews((prev) => [...prev, ...processedFiles.map((file) => URL.createObjectURL(file))])
+    setUploads((prev) => [...prev, ...processedFiles.map((): PhotoUploadState => ({ status: "waiting" }))])
+  }
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(previews[index])
+    setPhotos((prev) => prev.filter((_, i) => i !== index))
+    setPreviews((prev) => prev.filter((_, i) => i !== index))
+    setUploads((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const updateUpload = (index: number, state: PhotoUploadState) => {
+    setUploads((prev) => prev.map((current, i) => (i === index ? state : current)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!body.trim()) {
+      setError("Write a comment first")
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      await postReportComment(
+        { reportId, profileId, parentId, body, photos },
+        {
+          uploaded: uploads.map((state) => (state.status === "uploaded" ? state.photo : null)),
+          onStateChange: updateUpload,
+        }
+      )
+
+      previews.forEach((url) => URL.revokeObjectURL(url))
+      setBody("")
+      setPhotos([])
+      setPreviews([])
+      setUploads([])
+      onPosted()
+    } catch (err) {
+      // If every photo uploaded, saving failed and the uploads were removed
+      setUploads((prev) =>
+        prev.some((state) => state.status === "failed")
+          ? prev
+          : prev.map((): PhotoUploadState => ({ status: "waiting" }))
+      )
+      setError(err instanceof Error ? err.message : "Failed to post comment")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        rows={parentId ? 2 : 3}
+        value={body}
+        maxLength={MAX_COMMENT_LENGTH}
+        onChange={(e) => setBody(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        placeholder={parentId ? "Write a reply..." : "Add a comment or an update on this issue..."}
+        disabled={isSubmitting}
+        autoFocus={!!parentId}
+      />
+
+      {previews.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {previews.map((preview, index) => {
+            const upload = uploads[index]
+
+            return (
+              <div key={preview} className="relative">
+                <img src={preview} alt={`Attached photo ${index + 1}`} className="w-16 h-16 object-cover rounded border" />
+                {!isSubmitting && (
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(index)}
+                    className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full w-4 h-4 flex items-center justify-center"
+                    aria-label="Remove photo"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+                {upload?.status === "uploading" && (
+                  <span className="absolute bottom-0.5 left-0.5 rounded bg-black/60 px-1 text-[10px] text-white">
+                    {upload.percent}%
+                  </span>
+                )}
+                {upload?.status === "failed" && (
+                  <span className="absolute bottom-0.5 left-0.5 rounded bg-red-600 px-1 text-[10px] text-white">Failed</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              handleFileSelect(e.target.files)
+              e.target.value = ""
+            }}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={photos.length >= MAX_COMMENT_PHOTOS || isProcessing || isSubmitting}
+            className="flex items-center gap-2"
+          >
+            <Camera className="h-4 w-4" />
+            {isProcessing ? "Preparing photos..." : "Add photos"}
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={isSubmitting || isProcessing || !body.trim()}>
+            {isSubmitting ? "Posting..." : parentId ? "Reply" : "Post comment"}
+          </Button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,386 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { EyeOff, Flag, Loader2, MessageSquare } from "lucide-react"
+import { ReportCommentComposer } from "@/components/report-comment-composer"
+import { useAuth } from "@/components/supabase-provider"
+import type { Profile } from "@/lib/supabase"
+import { setCommentHidden } from "@/lib/supabase-moderation"
+import {
+  MAX_COMMENT_LENGTH,
+  buildCommentTree,
+  deleteReportComment,
+  editReportComment,
+  fetchReportComments,
+  flagReportComment,
+  type ReportComment,
+  type ReportCommentNode,
+} from "@/lib/supabase-report-comments"
+
+interface ReportCommentsProps {
+  reportId: string
+  className?: string
+  // Already loaded on the server; skips the first fetch
+  initialComments?: ReportComment[]
+}
+
+// Deeper replies are shown at the same indent so threads stay readable on phones
+const MAX_INDENT_DEPTH = 3
+
+type CommentAction = "reply" | "edit" | "flag" | "hide"
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+const authorBadges = (comment: ReportComment) => {
+  const badges: { label: string; className: string }[] = []
+
+  if (comment.author_is_reporter) {
+    badges.push({ label: "Reporter", className: "border-blue-200 bg-blue-50 text-blue-700" })
+  }
+  if (comment.author_is_assigned_contractor) {
+    badges.push({ label: "Assigned contractor", className: "border-green-200 bg-green-50 text-green-700" })
+  } else if (comment.author_role === "Contractor") {
+    badges.push({ label: "Contractor", className: "border-green-200 bg-green-50 text-green-700" })
+  }
+  if (comment.author_role === "Admin") {
+    badges.push({ label: "Admin", className: "border-purple-200 bg-purple-50 text-purple-700" })
+  }
+
+  return badges
+}
+
+interface CommentItemProps {
+  comment: ReportCommentNode
+  depth: number
+  reportId: string
+  profile: Profile | null
+  onChanged: () => void
+}
+
+function CommentItem({ comment, depth, reportId, profile, onChanged }: CommentItemProps) {
+  const [action, setAction] = useState<CommentAction | null>(null)
+  const [editBody, setEditBody] = useState("")
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const isAuthor = !!profile && profile.id === comment.profile_id
+  const isAdmin = profile?.role === "Admin"
+  const isDeleted = !!comment.deleted_at
+  const isHidden = !!comment.hidden_at
+  // Hidden comments are only sent with their content to their author and admins
+  const showContent = !isDeleted && (!isHidden || isAuthor || isAdmin)
+
+  const startAction = (nextAction: CommentAction) => {
+    setAction(action === nextAction ? null : nextAction)
+    setEditBody(comment.body)
+    setReason("")
+    setError(null)
+    setNotice(null)
+  }
+
+  const run = async (task: () => Promise<unknown>, fallbackError: string) => {
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await task()
+      setAction(null)
+      onChanged()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (!confirm("Delete this comment? Replies to it will stay.")) return
+    run(() => deleteReportComment(comment.id), "Failed to delete comment")
+  }
+
+  const handleFlag = async () => {
+    if (!profile) return
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await flagReportComment(comment.id, profile.id, reason)
+      setAction(null)
+      setNotice("Thanks, a moderator will take a look.")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to flag comment")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <li className="space-y-3">
+      <div className={`rounded-lg border p-3 ${isHidden && showContent ? "border-red-200 bg-red-50/40" : "bg-white"}`}>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-gray-900">
+            {isDeleted ? "Deleted comment" : comment.author_name ?? "Former member"}
+          </span>
+          {!isDeleted &&
+            authorBadges(comment).map((badge) => (
+              <Badge key={badge.label} variant="outline" className={badge.className}>
+                {badge.label}
+              </Badge>
+            ))}
+          {isAdmin && comment.flag_count > 0 && (
+            <Badge variant="destructive" className="flex items-center gap-1">
+              <Flag className="h-3 w-3" />
+              {comment.flag_count} {comment.flag_count === 1 ? "flag" : "flags"}
+            </Badge>
+          )}
+          <span className="text-xs text-gray-500" suppressHydrationWarning>
+            {formatDate(comment.created_at)}
+            {comment.edited_at && !isDeleted && " · edited"}
+          </span>
+        </div>
+
+        {isDeleted ? (
+          <p className="mt-1 text-sm italic text-gray-500">This comment was deleted.</p>
+        ) : !showContent ? (
+          <p className="mt-1 text-sm italic text-gray-500">This comment was hidden by a moderator.</p>
+        ) : action === "edit" ? (
+          <div className="mt-2 space-y-2">
+            <textarea
+              rows={3}
+              value={editBody}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setEditBody(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isSubmitting}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setAction(null)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => run(() => editReportComment(comment.id, editBody), "Failed to edit comment")}
+                disabled={isSubmitting || !editBody.trim() || editBody.trim() === comment.body}
+              >
+                {isSubmitting ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {isHidden && (
+              <p className="mt-1 flex items-center gap-1 text-xs text-red-700">
+                <EyeOff className="h-3 w-3" />
+                Hidden by a moderator{comment.hidden_reason ? `: ${comment.hidden_reason}` : ""}
+                {isAuthor && !isAdmin && ". Only you can see it."}
+              </p>
+            )}
+            <p className="mt-1 text-sm text-gray-800 whitespace-pre-line break-words">{comment.body}</p>
+            {comment.photo_urls.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {comment.photo_urls.map((url, index) => (
+                  <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={comment.thumbnail_urls[index] ?? url}
+                      alt={`Photo ${index + 1} attached to the comment`}
+                      className="w-20 h-20 object-cover rounded border hover:opacity-90"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {profile && !isDeleted && action !== "edit" && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {!isHidden && (
+              <Button variant="ghost" size="sm" onClick={() => startAction("reply")}>
+                Reply
+              </Button>
+            )}
+            {isAuthor && !isHidden && (
+              <Button variant="ghost" size="sm" onClick={() => startAction("edit")}>
+                Edit
+              </Button>
+            )}
+            {(isAuthor || isAdmin) && (
+              <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isSubmitting}>
+                Delete
+              </Button>
+            )}
+            {!isAuthor && !isHidden && (
+              <Button variant="ghost" size="sm" onClick={() => startAction("flag")}>
+                Flag
+              </Button>
+            )}
+            {isAdmin &&
+              (isHidden ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => run(() => setCommentHidden(comment.id, false), "Failed to show comment")}
+                  disabled={isSubmitting}
+                >
+                  Unhide
+                </Button>
+              ) : (
+                <Button variant="ghost" size="sm" onClick={() => startAction("hide")}>
+                  Hide
+                </Button>
+              ))}
+          </div>
+        )}
+
+        {(action === "flag" || action === "hide") && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={action === "flag" ? "What is wrong with this comment? (optional)" : "Reason, shown to the author (optional)"}
+              className="flex-1 min-w-[200px]"
+              disabled={isSubmitting}
+            />
+            <Button variant="outline" size="sm" onClick={() => setAction(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() =>
+                action === "flag"
+                  ? handleFlag()
+                  : run(() => setCommentHidden(comment.id, true, reason), "Failed to hide comment")
+              }
+              disabled={isSubmitting}
+            >
+              {action === "flag" ? "Flag comment" : "Hide comment"}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        {notice && <p className="mt-2 text-sm text-green-700">{notice}</p>}
+      </div>
+
+      {action === "reply" && profile && (
+        <div className="ml-4 pl-4 border-l">
+          <ReportCommentComposer
+            reportId={reportId}
+            profileId={profile.id}
+            parentId={comment.id}
+            onPosted={() => {
+              setAction(null)
+              onChanged()
+            }}
+            onCancel={() => setAction(null)}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className={`space-y-3 ${depth < MAX_INDENT_DEPTH ? "ml-4 pl-4 border-l" : ""}`}>
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              reportId={reportId}
+              profile={profile}
+              onChanged={onChanged}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+export function ReportComments({ reportId, className = "", initialComments }: ReportCommentsProps) {
+  const { profile } = useAuth()
+  const [comments, setComments] = useState<ReportComment[]>(initialComments ?? [])
+  const [loading, setLoading] = useState(!initialComments)
+  const [error, setError] = useState<string | null>(null)
+  const skipLoadRef = useRef(!!initialComments)
+
+  const loadComments = useCallback(async () => {
+    try {
+      setError(null)
+      setComments(await fetchReportComments(reportId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load comments")
+    } finally {
+      setLoading(false)
+    }
+  }, [reportId])
+
+  useEffect(() => {
+    if (skipLoadRef.current) {
+      skipLoadRef.current = false
+      return
+    }
+
+    setLoading(true)
+    loadComments()
+  }, [loadComments])
+
+  const threads = useMemo(() => buildCommentTree(comments), [comments])
+  const commentCount = comments.filter((comment) => !comment.deleted_at).length
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h3 className="flex items-center gap-2 font-medium text-gray-900">
+        <MessageSquare className="h-4 w-4" />
+        Comments{commentCount > 0 && ` (${commentCount})`}
+      </h3>
+
+      {profile ? (
+        <ReportCommentComposer reportId={reportId} profileId={profile.id} onPosted={loadComments} />
+      ) : (
+        <p className="text-sm text-gray-600">
+          <Link href="/login" className="text-blue-600 hover:underline">
+            Sign in
+          </Link>{" "}
+          to join the discussion.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading comments...
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet. Start the discussion.</p>
+      ) : (
+        <ul className="space-y-3">
+          {threads.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              depth={0}
+              reportId={reportId}
+              profile={profile}
+              onChanged={loadComments}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CheckCircle, Loader2 } from "lucide-react"
+import type { Report } from "@/lib/supabase"
+import { fetchLatestReportResolution, type ReportResolution } from "@/lib/supabase-report-resolution"
+import { getReportImageUrl } from "@/lib/supabase-report-submission"
+
+interface ReportPhotoComparisonProps {
+  report: Pick<Report, 'id' | 'status' | 'photo_paths' | 'thumbnail_paths'>
+  // Bump to reload the evidence after a status change
+  refreshKey?: number
+  // Already loaded on the server; skips the first fetch
+  initialResolution?: ReportResolution | null
+}
+
+function PhotoGrid({ urls, thumbnailUrls, label }: { urls: string[]; thumbnailUrls: string[]; label: string }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {urls.map((url, index) => (
+        <div key={index} className="relative">
+          <img
+            src={thumbnailUrls[index] ?? url}
+            alt={`${label} ${index + 1}`}
+            className="w-full h-24 object-cover rounded-lg border cursor-pointer hover:opacity-90 transition-opacity"
+            onClick={() => window.open(url, '_blank')}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ReportPhotoComparison({ report, refreshKey = 0, initialResolution }: ReportPhotoComparisonProps) {
+  const isResolved = report.status === "resolved" || report.status === "closed"
+
+  const [resolution, setResolution] = useState<ReportResolution | null>(isResolved ? initialResolution ?? null : null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const skipLoadRef = useRef(initialResolution !== undefined)
+
+  useEffect(() => {
+    if (skipLoadRef.current) {
+      skipLoadRef.current = false
+      return
+    }
+
+    if (!isResolved) {
+      setResolution(null)
+      return
+    }
+
+    const loadResolution = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setResolution(await fetchLatestReportResolution(report.id))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load resolution evidence")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadResolution()
+  }, [report.id, isResolved, refreshKey])
+
+  const photoUrls = report.photo_paths.map((path) => getReportImageUrl(path))
+  const thumbnailUrls = report.thumbnail_paths.map((path) => getReportImageUrl(path))
+
+  if (!resolution) {
+    return (
+      <>
+        {photoUrls.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Photos ({photoUrls.length})</h4>
+            <PhotoGrid urls={photoUrls} thumbnailUrls={thumbnailUrls} label="Report photo" />
+          </div>
+        )}
+        {loading && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading resolution evidence...
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </>
+    )
+  }
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2">Before and after</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Before</p>
+          {photoUrls.length > 0 ? (
+            <PhotoGrid urls={photoUrls} thumbnailUrls={thumbnailUrls} label="Before photo" />
+          ) : (
+            <p className="text-sm text-gray-500">No photos were added when this was reported.</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">After</p>
+          <PhotoGrid urls={resolution.photo_urls} thumbnailUrls={resolution.thumbnail_urls} label="After photo" />
+          <div className="rounded-lg bg-green-50 border border-green-200 p-3">
+            <p className="text-xs text-green-800 flex items-center gap-1 mb-1" suppressHydrationWarning>
+              <CheckCircle className="h-3 w-3" />
+              Completed {new Date(resolution.created_at).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+              {resolution.contractor?.name && ` by ${resolution.contractor.name}`}
+            </p>
+            <p className="text-sm text-gray-700">{resolution.note}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Camera, X } from "lucide-react"
+import type { Report } from "@/lib/supabase"
+import { processPhoto, type ProcessedPhoto } from "@/lib/image-processing"
+import type { PhotoUploadState } from "@/lib/supabase-report-submission"
+import { MAX_RESOLUTION_PHOTOS, resolveReportWithEvidence } from "@/lib/supabase-report-resolution"
+
+interface ReportResolutionFormProps {
+  reportId: string
+  // The assigned contractor, used as the storage folder for the photos
+  profileId: string
+  onResolved: (report: Report) => void
+  onCancel: () => void
+}
+
+export function ReportResolutionForm({ reportId, profileId, onResolved, onCancel }: ReportResolutionFormProps) {
+  const [note, setNote] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  // Kept between attempts so a retry only uploads the photos that failed
+  const [uploads, setUploads] = useState<PhotoUploadState[]>([])
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const previewsRef = useRef(previews)
+  previewsRef.current = previews
+  useEffect(() => {
+    return () => previewsRef.current.forEach((url) => URL.revokeObjectURL(url))
+  }, [])
+
+  const handleFileSelect = async (files: FileList | null) => {
+    if (!files) return
+
+    const selected = Array.from(files).filter((file) => file.type.startsWith("image/"))
+    if (photos.length + selected.length > MAX_RESOLUTION_PHOTOS) {
+      setError(`You can add up to ${MAX_RESOLUTION_PHOTOS} photos`)
+      return
+    }
+
+    setIsProcessing(true)
+    setError(null)
+    const processed = await Promise.allSettled(selected.map((file) => processPhoto(file)))
+    setIsProcessing(false)
+
+    const processedFiles = processed
+      .filter((result): result is PromiseFulfilledResult<ProcessedPhoto> => result.status === "fulfilled")
+      .map((result) => result.value.file)
+    if (processedFiles.length < selected.length) {
+      setError("Some photos could not be processed. Try a JPEG or PNG photo.")
+    }
+
+    setPhotos((prev) => [...prev, ...processedFiles])
+    setPreviews((prev) => [...prev, ...processedFiles.map((file) => URL.createObjectURL(file))])
+    setUploads((prev) => [...prev, ...processedFiles.map((): PhotoUploadState => ({ status: "waiting" }))])
+  }
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(previews[index])
+    setPhotos((prev) => prev.filter((_, i) => i !== index))
+    setPreviews((prev) => prev.filter((_, i) => i !== index))
+    setUploads((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const updateUpload = (index: number, state: PhotoUploadState) => {
+    setUploads((prev) => prev.map((current, i) => (i === index ? state : current)))
+  }
+
+  const handleSubmit = async () => {
+    if (!note.trim()) {
+      setError("Describe the work you did")
+      return
+    }
+
+    if (photos.length === 0) {
+      setError("Add at least one photo of the finished work")
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      const report = await resolveReportWithEvidence(
+        { reportId, contractorId: profileId, note, photos },
+        {
+          uploaded: uploads.map((state) => (state.status === "uploaded" ? state.photo : null)),
+          onStateChange: updateUpload,
+        }
+      )
+      onResolved(report)
+    } catch (err) {
+      // If every photo uploaded, saving failed and the uploads were removed
+      setUploads((prev) =>
+        prev.some((state) => state.status === "failed")
+          ? prev
+          : prev.map((): PhotoUploadState => ({ status: "waiting" }))
+      )
+      setError(err instanceof Error ? err.message : "Failed to resolve report")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const describeUpload = (state: PhotoUploadState | undefined) => {
+    switch (state?.status) {
+      case "uploading":
+        return `${state.percent}%`
+      case "uploaded":
+        return "Uploaded"
+      case "failed":
+        return "Failed"
+      default:
+        return null
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-gray-50 p-3">
+      <div>
+        <label htmlFor={`resolution-note-${reportId}`} className="block text-sm font-medium text-gray-700 mb-1">
+          Completion note *
+        </label>
+        <textarea
+          id={`resolution-note-${reportId}`}
+          rows={3}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="What did you fix, and how? Shown to the reporter with your photos."
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">After photos *</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) => {
+            handleFileSelect(e.target.files)
+            e.target.value = ""
+          }}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={photos.length >= MAX_RESOLUTION_PHOTOS || isProcessing || isSubmitting}
+          className="flex items-center gap-2"
+        >
+          <Camera className="h-4 w-4" />
+          {isProcessing ? "Preparing photos..." : "Add photos"}
+        </Button>
+
+        {previews.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {previews.map((preview, index) => {
+              const status = describeUpload(uploads[index])
+
+              return (
+                <div key={preview} className="relative">
+                  <img src={preview} alt={`After photo ${index + 1}`} className="w-full h-20 object-cover rounded border" />
+                  {!isSubmitting && (
+                    <button
+                      type="button"
+                      onClick={() => removePhoto(index)}
+                      className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center"
+                      aria-label="Remove photo"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                  {status && (
+                    <span
+                      className={`absolute bottom-1 left-1 rounded px-1.5 text-xs text-white ${
+                        uploads[index]?.status === "failed" ? "bg-red-600" : "bg-black/60"
+                      }`}
+                    >
+                      {status}
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || isProcessing}>
+          {isSubmitting
+            ? "Submitting..."
+            : uploads.some((state) => state.status === "failed")
+              ? "Retry and resolve"
+              : "Mark as resolved"}
+        </Button>
+      </div>
+    </div>
+  )
+}
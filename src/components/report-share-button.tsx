@@ -0,0 +1,43 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Share2 } from "lucide-react"
+import { toast } from "sonner"
+
+interface ReportShareButtonProps {
+  title: string
+  className?: string
+}
+
+export function ReportShareButton({ title, className = "" }: ReportShareButtonProps) {
+  const handleShare = async () => {
+    const url = window.location.href
+
+    // The share sheet on phones, otherwise copy the link
+    if (navigator.share) {
+      try {
+        await navigator.share({ title, url })
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === "AbortError")) {
+          console.error("Error sharing report:", error)
+        }
+      }
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(url)
+      toast.success("Link copied")
+    } catch (error) {
+      console.error("Error copying report link:", error)
+      toast.error("Could not copy the link")
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleShare} className={`flex items-center gap-2 ${className}`}>
+      <Share2 className="h-4 w-4" />
+      Share
+    </Button>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ReportResolutionForm } from "@/components/report-resolution-form"
+import type { Report } from "@/lib/supabase"
+import {
+  getAllowedTransitions,
+  transitionReportStatus,
+  type StatusTransition,
+} from "@/lib/supabase-report-status"
+
+interface ReportStatusActionsProps {
+  report: Pick<Report, 'id' | 'status' | 'profile_id' | 'assigned_contractor_id'>
+  profileId: string
+  onStatusChange?: (report: Report) => void
+}
+
+export function ReportStatusActions({ report, profileId, onStatusChange }: ReportStatusActionsProps) {
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null)
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const transitions = getAllowedTransitions(report, profileId)
+
+  if (transitions.length === 0) {
+    return null
+  }
+
+  const startTransition = (transition: StatusTransition) => {
+    setPendingTransition(transition)
+    setNote("")
+    setError(null)
+  }
+
+  const confirmTransition = async () => {
+    if (!pendingTransition) return
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      const updatedReport = await transitionReportStatus(report.id, pendingTransition.to, note)
+      setPendingTransition(null)
+      onStatusChange?.(updatedReport)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update status")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleResolved = (updatedReport: Report) => {
+    setPendingTransition(null)
+    onStatusChange?.(updatedReport)
+  }
+
+  return (
+    <div className="space-y-3">
+      {pendingTransition?.to === "resolved" ? (
+        // Resolving needs after photos and a completion note, not just an optional note
+        <ReportResolutionForm
+          reportId={report.id}
+          profileId={profileId}
+          onResolved={handleResolved}
+          onCancel={() => setPendingTransition(null)}
+        />
+      ) : pendingTransition ? (
+        <div className="space-y-2 rounded-lg border bg-gray-50 p-3">
+          <label htmlFor={`status-note-${report.id}`} className="block text-sm font-medium text-gray-700">
+            {pendingTransition.label} — add a note (optional)
+          </label>
+          <textarea
+            id={`status-note-${report.id}`}
+            rows={2}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Visible to everyone on the report timeline"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPendingTransition(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={confirmTransition} disabled={isSubmitting}>
+              {isSubmitting ? "Updating..." : "Confirm"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {transitions.map((transition) => (
+            <Button
+              key={transition.to}
+              variant={transition.to === "resolved" || transition.to === "closed" ? "default" : "outline"}
+              size="sm"
+              onClick={() => startTransition(transition)}
+            >
+              {transition.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { History, Loader2 } from "lucide-react"
+import {
+  fetchReportStatusHistory,
+  REPORT_STATUS_LABELS,
+  type ReportStatusHistoryEntry,
+} from "@/lib/supabase-report-status"
+
+interface ReportStatusTimelineProps {
+  reportId: string
+  // Bump to reload the history after a status change
+  refreshKey?: number
+  // Already loaded on the server; skips the first fetch
+  initialHistory?: ReportStatusHistoryEntry[]
+}
+
+const statusDotColors: Record<ReportStatusHistoryEntry['to_status'], string> = {
+  pending: "bg-yellow-500",
+  in_progress: "bg-blue-500",
+  resolved: "bg-green-500",
+  closed: "bg-gray-500",
+}
+
+export function ReportStatusTimeline({ reportId, refreshKey = 0, initialHistory }: ReportStatusTimelineProps) {
+  const [history, setHistory] = useState<ReportStatusHistoryEntry[]>(initialHistory ?? [])
+  const [loading, setLoading] = useState(!initialHistory)
+  const [error, setError] = useState<string | null>(null)
+  const skipLoadRef = useRef(!!initialHistory)
+
+  useEffect(() => {
+    if (skipLoadRef.current) {
+      skipLoadRef.current = false
+      return
+    }
+
+    const loadHistory = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setHistory(await fetchReportStatusHistory(reportId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load status history")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [reportId, refreshKey])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+
+  const describeEntry = (entry: ReportStatusHistoryEntry) => {
+    if (!entry.from_status) return "Report filed"
+    return `${REPORT_STATUS_LABELS[entry.from_status]} → ${REPORT_STATUS_LABELS[entry.to_status]}`
+  }
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Status History
+      </h4>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {history.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${statusDotColors[entry.to_status]}`}
+              />
+              <p className="text-sm font-medium text-gray-900">{describeEntry(entry)}</p>
+              <p className="text-xs text-gray-500" suppressHydrationWarning>
+                {formatDate(entry.created_at)}
+                {entry.actor_name && ` · by ${entry.actor_name}${entry.actor_role ? ` (${entry.actor_role})` : ""}`}
+              </p>
+              {entry.note && <p className="text-sm text-gray-700 mt-1">{entry.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
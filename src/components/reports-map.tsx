@@ -0,0 +1,255 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import Link from "next/link"
+import { Loader } from "@googlemaps/js-api-loader"
+import { MarkerClusterer } from "@googlemaps/markerclusterer"
+import { MapPin, X } from "lucide-react"
+import { formatDistance, type LocationReport, type UserLocation } from "@/lib/supabase-location"
+import { REPORT_STATUS_LABELS } from "@/lib/supabase-report-status"
+import { ReportCategoryBadges } from "@/components/report-category-badges"
+
+interface ReportsMapProps {
+  reports: LocationReport[]
+  center: UserLocation
+  radiusKm: number
+  selectedReportId?: string | null
+  onReportSelect?: (report: LocationReport | null) => void
+}
+
+// Marker fill colours, matching the status badge colours used in the lists
+export const STATUS_MARKER_COLORS: Record<LocationReport['status'], string> = {
+  pending: "#eab308",
+  in_progress: "#3b82f6",
+  resolved: "#22c55e",
+  closed: "#6b7280",
+}
+
+export function ReportsMap({ reports, center, radiusKm, selectedReportId, onReportSelect }: ReportsMapProps) {
+  const ref = React.useRef<HTMLDivElement>(null)
+  const mapRef = React.useRef<google.maps.Map | null>(null)
+  const circleRef = React.useRef<google.maps.Circle | null>(null)
+  const centerMarkerRef = React.useRef<google.maps.Marker | null>(null)
+  const clustererRef = React.useRef<MarkerClusterer | null>(null)
+  const markersRef = React.useRef<Map<string, google.maps.Marker>>(new Map())
+  const onReportSelectRef = React.useRef(onReportSelect)
+  const initialCenterRef = React.useRef(center)
+  const [isLoading, setIsLoading] = useState(true)
+  const [mapError, setMapError] = useState<string | null>(null)
+
+  onReportSelectRef.current = onReportSelect
+
+  const selectedReport = reports.find((report) => report.id === selectedReportId) || null
+
+  // Load the Maps API and create the map once; later prop changes are applied by the effects below
+  useEffect(() => {
+    const markers = markersRef.current
+
+    const initMap = async () => {
+      try {
+        const loader = new Loader({
+          apiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY as string,
+          version: "weekly",
+        })
+
+        const { Map } = await loader.importLibrary("maps")
+        await loader.importLibrary("marker")
+
+        if (!ref.current) return
+
+        const map = new Map(ref.current, {
+          center: { lat: initialCenterRef.current.latitude, lng: initialCenterRef.current.longitude },
+          zoom: 13,
+          mapTypeControl: false,
+          streetViewControl: false,
+        })
+
+        map.addListener("click", () => onReportSelectRef.current?.(null))
+
+        mapRef.current = map
+        clustererRef.current = new MarkerClusterer({ map })
+        setIsLoading(false)
+      } catch (error) {
+        console.error("Error initializing reports map:", error)
+        setMapError("Unable to load the map. Please try again later.")
+        setIsLoading(false)
+      }
+    }
+
+    initMap()
+
+    return () => {
+      clustererRef.current?.clearMarkers()
+      markers.forEach((marker) => marker.setMap(null))
+      markers.clear()
+    }
+  }, [])
+
+  // Keep the search centre and radius circle in sync with the list
+  useEffect(() => {
+    const map = mapRef.current
+    if (isLoading || !map) return
+
+    const position = { lat: center.latitude, lng: center.longitude }
+
+    if (!centerMarkerRef.current) {
+      centerMarkerRef.current = new google.maps.Marker({
+        map,
+        title: "Your Location",
+        icon: {
+          url: "http://maps.google.com/mapfiles/ms/icons/blue-dot.png",
+          scaledSize: new google.maps.Size(32, 32),
+        },
+      })
+    }
+    centerMarkerRef.current.setPosition(position)
+
+    if (!circleRef.current) {
+      circleRef.current = new google.maps.Circle({
+        map,
+        strokeColor: "#3b82f6",
+        strokeOpacity: 0.6,
+        strokeWeight: 1,
+        fillColor: "#3b82f6",
+        fillOpacity: 0.05,
+        clickable: false,
+      })
+    }
+    circleRef.current.setCenter(position)
+    circleRef.current.setRadius(radiusKm * 1000)
+
+    const bounds = circleRef.current.getBounds()
+    if (bounds) {
+      map.fitBounds(bounds)
+    }
+  }, [isLoading, center.latitude, center.longitude, radiusKm])
+
+  // Rebuild the status-coloured markers whenever the report list changes
+  useEffect(() => {
+    const map = mapRef.current
+    const clusterer = clustererRef.current
+    if (isLoading || !map || !clusterer) return
+
+    clusterer.clearMarkers()
+    markersRef.current.forEach((marker) => marker.setMap(null))
+    markersRef.current.clear()
+
+    const markers = reports.map((report) => {
+      const marker = new google.maps.Marker({
+        position: { lat: Number(report.latitude), lng: Number(report.longitude) },
+        title: report.location_string ?? undefined,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 9,
+          fillColor: STATUS_MARKER_COLORS[report.status],
+          fillOpacity: 0.9,
+          strokeColor: "#ffffff",
+          strokeWeight: 2,
+        },
+      })
+
+      marker.addListener("click", () => onReportSelectRef.current?.(report))
+      markersRef.current.set(report.id, marker)
+      return marker
+    })
+
+    clusterer.addMarkers(markers)
+  }, [isLoading, reports])
+
+  // Pan to the selected report when it is chosen from the list
+  useEffect(() => {
+    const map = mapRef.current
+    if (isLoading || !map || !selectedReportId) return
+
+    const marker = markersRef.current.get(selectedReportId)
+    const position = marker?.getPosition()
+    if (position) {
+      map.panTo(position)
+      if ((map.getZoom() ?? 0) < 16) {
+        map.setZoom(16)
+      }
+    }
+  }, [isLoading, selectedReportId])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  return (
+    <div className="relative w-full">
+      {isLoading && (
+        <div className="flex items-center justify-center h-[500px] bg-gray-100 rounded-lg">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
+            <p className="text-sm text-gray-600">Loading map...</p>
+          </div>
+        </div>
+      )}
+
+      {mapError && (
+        <div className="flex items-center justify-center h-[500px] bg-gray-100 rounded-lg">
+          <p className="text-sm text-red-600">{mapError}</p>
+        </div>
+      )}
+
+      <div
+        style={{ height: "500px", display: isLoading || mapError ? "none" : "block" }}
+        className="w-full rounded-lg border"
+        ref={ref}
+      />
+
+      {/* Legend */}
+      {!isLoading && !mapError && (
+        <div className="absolute top-3 left-3 rounded-md bg-white/95 px-3 py-2 shadow text-xs space-y-1">
+          {(Object.keys(STATUS_MARKER_COLORS) as LocationReport['status'][]).map((status) => (
+            <div key={status} className="flex items-center gap-2">
+              <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: STATUS_MARKER_COLORS[status] }} />
+              {REPORT_STATUS_LABELS[status]}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Info card for the selected marker */}
+      {selectedReport && (
+        <div className="absolute bottom-3 left-3 right-3 md:right-auto md:w-96 rounded-lg bg-white p-4 shadow-lg">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-gray-900 line-clamp-1">{selectedReport.location_string}</p>
+              <p className="text-xs text-gray-500">
+                <span style={{ color: STATUS_MARKER_COLORS[selectedReport.status] }}>
+                  {REPORT_STATUS_LABELS[selectedReport.status]}
+                </span>
+                {selectedReport.distance !== undefined && ` · ${formatDistance(selectedReport.distance)} away`}
+                {` · ${formatDate(selectedReport.created_at)}`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onReportSelect?.(null)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ReportCategoryBadges category={selectedReport.category} severity={selectedReport.severity} className="mt-2" />
+          <p className="text-sm text-gray-700 mt-2 line-clamp-3">{selectedReport.description}</p>
+          {selectedReport.address && (
+            <div className="flex items-start gap-1 mt-2">
+              <MapPin className="h-3 w-3 text-gray-400 mt-0.5 flex-shrink-0" />
+              <p className="text-xs text-gray-500 line-clamp-1">{selectedReport.address}</p>
+            </div>
+          )}
+          <Link href={`/reports/${selectedReport.id}`} className="inline-block text-sm text-blue-600 hover:underline mt-2">
+            View details
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
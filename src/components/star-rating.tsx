@@ -0,0 +1,40 @@
+"use client"
+
+import { Star } from "lucide-react"
+
+interface StarRatingProps {
+  rating: number
+  // When provided the stars become buttons for picking a rating
+  onChange?: (rating: number) => void
+  size?: "sm" | "lg"
+}
+
+export function StarRating({ rating, onChange, size = "sm" }: StarRatingProps) {
+  const iconSize = size === "lg" ? "h-7 w-7" : "h-4 w-4"
+
+  return (
+    <div className="flex items-center">
+      {[...Array(5)].map((_, i) => {
+        const star = (
+          <Star
+            className={`${iconSize} ${i < Math.round(rating) ? "text-yellow-400 fill-current" : "text-gray-300"}`}
+          />
+        )
+
+        return onChange ? (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onChange(i + 1)}
+            className="p-0.5"
+            aria-label={`${i + 1} star${i > 0 ? "s" : ""}`}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={i}>{star}</span>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,20 +1,175 @@
 // components/providers/supabase-provider.tsx
 'use client'
 
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
-import { SessionContextProvider } from '@supabase/auth-helpers-react'
-import { useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import type { Session, User } from '@supabase/supabase-js'
+import { supabase, type Profile, type TypedSupabaseClient } from '@/lib/supabase'
+import { clearOfflineCache } from '@/lib/offline-reports'
+import {
+  HOME_PATH,
+  LOGIN_PATH,
+  buildLoginPath,
+  getRouteRule,
+  isRoleAllowed
+} from '@/lib/route-access'
+
+interface AuthContextValue {
+  supabase: TypedSupabaseClient
+  session: Session | null
+  user: User | null
+  // Null while signed out, and for signed-in users who have not filled in the questionnaire
+  profile: Profile | null
+  // True until the initial session and, when signed in, its profile have loaded
+  isLoading: boolean
+  profileError: string | null
+  refreshProfile: () => Promise<void>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
 
 export default function SupabaseProvider({
   children,
 }: {
   children: React.ReactNode
 }) {
-  const [supabaseClient] = useState(() => createClientComponentClient())
+  const router = useRouter()
+  const [session, setSession] = useState<Session | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [profileError, setProfileError] = useState<string | null>(null)
+  // Whose profile is loaded, so a repeated SIGNED_IN (sent when the tab regains focus) does not refetch it
+  const loadedUserIdRef = useRef<string | null>(null)
+
+  const loadProfile = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error loading profile:', error)
+      setProfileError('Error loading your profile. Please try again.')
+      setProfile(null)
+      return
+    }
+
+    loadedUserIdRef.current = userId
+    setProfileError(null)
+    setProfile(data)
+  }, [])
+
+  useEffect(() => {
+    // Fires INITIAL_SESSION straight away, so this also covers the first load
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession)
+
+      if (!nextSession) {
+        loadedUserIdRef.current = null
+        setProfile(null)
+        setProfileError(null)
+        setIsLoading(false)
+        // The cached report form was rendered for the user who just signed out
+        if (event === 'SIGNED_OUT') {
+          clearOfflineCache()
+        }
+        return
+      }
+
+      if (event === 'TOKEN_REFRESHED' || (event === 'SIGNED_IN' && loadedUserIdRef.current === nextSession.user.id)) {
+        return
+      }
+
+      // Supabase calls must not be awaited inside this callback, or they deadlock on the auth lock
+      setTimeout(() => {
+        loadProfile(nextSession.user.id).finally(() => setIsLoading(false))
+      }, 0)
+    })
+
+    return () => subscription.unsubscribe()
+  }, [loadProfile])
+
+  const userId = session?.user.id
+
+  const refreshProfile = useCallback(async () => {
+    if (userId) {
+      await loadProfile(userId)
+    }
+  }, [userId, loadProfile])
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut()
+    if (error) {
+      console.error('Error signing out:', error)
+      return
+    }
+
+    router.replace(LOGIN_PATH)
+    // Drop cached pages that were rendered for the signed-in user
+    router.refresh()
+  }, [router])
 
   return (
-    <SessionContextProvider supabaseClient={supabaseClient}>
+    <AuthContext.Provider
+      value={{
+        supabase,
+        session,
+        user: session?.user ?? null,
+        profile,
+        isLoading,
+        profileError,
+        refreshProfile,
+        signOut
+      }}
+    >
       {children}
-    </SessionContextProvider>
+    </AuthContext.Provider>
   )
-}
\ No newline at end of file
+}
+
+/**
+ * Read the signed-in user and their profile
+ * @returns The auth context from SupabaseProvider
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth must be used inside SupabaseProvider')
+  }
+
+  return context
+}
+
+/**
+ * Keep the current page behind the rules in lib/route-access.ts.
+ * The middleware already handles full page loads; this covers client-side
+ * navigation and signing out while the page is open.
+ * @returns The auth context, plus whether the page may be shown
+ */
+export const useRequireProfile = () => {
+  const auth = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { isLoading, user, profile, profileError } = auth
+
+  const rule = getRouteRule(pathname)
+  const isAllowed = !!profile && isRoleAllowed(rule, profile.role)
+
+  useEffect(() => {
+    if (isLoading) return
+
+    if (!user) {
+      router.replace(buildLoginPath(pathname))
+      return
+    }
+
+    // Leave the page up so it can offer a retry when the profile failed to load
+    if (!isAllowed && !profileError && pathname !== HOME_PATH) {
+      router.replace(HOME_PATH)
+    }
+  }, [isLoading, user, isAllowed, profileError, pathname, router])
+
+  return { ...auth, isAllowed }
+}
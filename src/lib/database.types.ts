@@ -0,0 +1,1253 @@
+// lib/database.types.ts
+// Mirrors the schema in scripts/migrations. Regenerate the table and function
+// shapes with `npx supabase gen types typescript --db-url "$DATABASE_URL"`,
+// then restore the string unions below (the generator types CHECK-constrained
+// TEXT columns as plain strings) and drop the PostGIS functions it adds.
+import type { ReportCategory, ReportSeverity } from "./report-categories"
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+type ReportStatusValue = "pending" | "in_progress" | "resolved" | "closed"
+
+type ProfileRoleValue = "Citizen" | "Contractor" | "Admin"
+
+type NotificationTypeValue = "status_change" | "comment"
+
+type NotificationDeliveryStatusValue = "pending" | "sending" | "sent" | "failed" | "skipped"
+
+type NotificationRow = {
+  actor_id: string | null
+  body: string | null
+  created_at: string
+  email_attempts: number
+  email_next_attempt_at: string
+  email_status: NotificationDeliveryStatusValue
+  id: string
+  in_app: boolean
+  profile_id: string
+  push_attempts: number
+  push_next_attempt_at: string
+  push_sent_endpoints: string[]
+  push_status: NotificationDeliveryStatusValue
+  read_at: string | null
+  report_id: string | null
+  title: string
+  type: NotificationTypeValue
+}
+
+type ProfileRow = {
+  age: number
+  created_at: string
+  gender: string
+  id: string
+  name: string
+  profession: string
+  role: ProfileRoleValue
+  suspended_at: string | null
+  updated_at: string
+}
+
+type PublicContractorProfileRow = Pick<ProfileRow, "id" | "name" | "profession">
+
+type ReportCommentRow = {
+  body: string
+  created_at: string
+  deleted_at: string | null
+  edited_at: string | null
+  hidden_at: string | null
+  hidden_by: string | null
+  hidden_reason: string | null
+  id: string
+  parent_id: string | null
+  photo_paths: string[]
+  profile_id: string | null
+  report_id: string
+  thumbnail_paths: string[]
+}
+
+type ReportRow = {
+  address: string | null
+  assigned_contractor_id: string | null
+  category: ReportCategory
+  created_at: string
+  description: string
+  duplicate_of: string | null
+  hidden_at: string | null
+  hidden_by: string | null
+  hidden_reason: string | null
+  id: string
+  latitude: number | null
+  location: unknown | null
+  location_string: string | null
+  longitude: number | null
+  photo_paths: string[]
+  profile_id: string
+  severity: ReportSeverity
+  status: ReportStatusValue
+  thumbnail_paths: string[]
+  updated_at: string
+  upvote_count: number
+}
+
+type ContractorVerificationStatusValue = "unverified" | "pending_review" | "verified" | "rejected"
+
+type ContractorProfileRow = {
+  business_name: string
+  created_at: string
+  document_paths: string[]
+  licence_number: string
+  profile_id: string
+  rejection_reason: string | null
+  reviewed_at: string | null
+  reviewed_by: string | null
+  service_radius_km: number
+  submitted_at: string | null
+  trade_categories: ReportCategory[]
+  updated_at: string
+  verification_status: ContractorVerificationStatusValue
+}
+
+type JobBidRow = {
+  contractor_id: string
+  created_at: string
+  eta_days: number
+  id: string
+  message: string | null
+  price: number
+  report_id: string
+  status: "pending" | "accepted" | "rejected" | "withdrawn"
+  updated_at: string
+}
+
+type ReportSearchRow = {
+  address: string | null
+  category: ReportCategory
+  created_at: string
+  description: string
+  distance_km: number
+  id: string
+  latitude: number
+  location_string: string | null
+  longitude: number
+  photo_paths: string[]
+  profile_id: string
+  reporter_name: string | null
+  severity: ReportSeverity
+  status: ReportStatusValue
+  thumbnail_paths: string[]
+  updated_at: string
+}
+
+export type Database = {
+  public: {
+    Tables: {
+      contractor_payments: {
+        Row: {
+          amount: number
+          assignment_id: string
+          contractor_id: string
+          created_at: string
+          id: string
+          paid_at: string | null
+          status: "pending" | "paid" | "failed"
+        }
+        Insert: {
+          amount: number
+          assignment_id: string
+          contractor_id: string
+          created_at?: string
+          id?: string
+          paid_at?: string | null
+          status?: "pending" | "paid" | "failed"
+        }
+        Update: {
+          amount?: number
+          assignment_id?: string
+          contractor_id?: string
+          created_at?: string
+          id?: string
+          paid_at?: string | null
+          status?: "pending" | "paid" | "failed"
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contractor_payments_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "job_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contractor_payments_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contractor_profiles: {
+        Row: ContractorProfileRow
+        Insert: {
+          business_name: string
+          created_at?: string
+          document_paths?: string[]
+          licence_number: string
+          profile_id: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          service_radius_km?: number
+          submitted_at?: string | null
+          trade_categories?: ReportCategory[]
+          updated_at?: string
+          verification_status?: ContractorVerificationStatusValue
+        }
+        Update: {
+          business_name?: string
+          created_at?: string
+          document_paths?: string[]
+          licence_number?: string
+          profile_id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          service_radius_km?: number
+          submitted_at?: string | null
+          trade_categories?: ReportCategory[]
+          updated_at?: string
+          verification_status?: ContractorVerificationStatusValue
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contractor_profiles_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contractor_profiles_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contractor_reviews: {
+        Row: {
+          assignment_id: string
+          comment: string | null
+          contractor_id: string
+          created_at: string
+          id: string
+          photo_paths: string[]
+          rating: number
+          report_id: string
+          reviewer_id: string
+        }
+        Insert: {
+          assignment_id: string
+          comment?: string | null
+          contractor_id: string
+          created_at?: string
+          id?: string
+          photo_paths?: string[]
+          rating: number
+          report_id: string
+          reviewer_id: string
+        }
+        Update: {
+          assignment_id?: string
+          comment?: string | null
+          contractor_id?: string
+          created_at?: string
+          id?: string
+          photo_paths?: string[]
+          rating?: number
+          report_id?: string
+          reviewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contractor_reviews_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: true
+            referencedRelation: "job_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contractor_reviews_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contractor_reviews_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contractor_reviews_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_assignments: {
+        Row: {
+          agreed_price: number
+          assigned_at: string
+          bid_id: string | null
+          completed_at: string | null
+          contractor_id: string
+          id: string
+          report_id: string
+          status: "active" | "completed" | "cancelled"
+        }
+        Insert: {
+          agreed_price: number
+          assigned_at?: string
+          bid_id?: string | null
+          completed_at?: string | null
+          contractor_id: string
+          id?: string
+          report_id: string
+          status?: "active" | "completed" | "cancelled"
+        }
+        Update: {
+          agreed_price?: number
+          assigned_at?: string
+          bid_id?: string | null
+          completed_at?: string | null
+          contractor_id?: string
+          id?: string
+          report_id?: string
+          status?: "active" | "completed" | "cancelled"
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_assignments_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "job_bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_assignments_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_assignments_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "public_contractor_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_assignments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: true
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_bids: {
+        Row: JobBidRow
+        Insert: {
+          contractor_id: string
+          created_at?: string
+          eta_days: number
+          id?: string
+          message?: string | null
+          price: number
+          report_id: string
+          status?: "pending" | "accepted" | "rejected" | "withdrawn"
+          updated_at?: string
+        }
+        Update: {
+          contractor_id?: string
+          created_at?: string
+          eta_days?: number
+          id?: string
+          message?: string | null
+          price?: number
+          report_id?: string
+          status?: "pending" | "accepted" | "rejected" | "withdrawn"
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_bids_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_bids_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "public_contractor_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_bids_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          email: boolean
+          in_app: boolean
+          profile_id: string
+          updated_at: string
+          web_push: boolean
+        }
+        Insert: {
+          created_at?: string
+          email?: boolean
+          in_app?: boolean
+          profile_id: string
+          updated_at?: string
+          web_push?: boolean
+        }
+        Update: {
+          created_at?: string
+          email?: boolean
+          in_app?: boolean
+          profile_id?: string
+          updated_at?: string
+          web_push?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: NotificationRow
+        Insert: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_next_attempt_at?: string
+          email_status?: NotificationDeliveryStatusValue
+          id?: string
+          in_app?: boolean
+          profile_id: string
+          push_attempts?: number
+          push_next_attempt_at?: string
+          push_sent_endpoints?: string[]
+          push_status?: NotificationDeliveryStatusValue
+          read_at?: string | null
+          report_id?: string | null
+          title: string
+          type: NotificationTypeValue
+        }
+        Update: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_next_attempt_at?: string
+          email_status?: NotificationDeliveryStatusValue
+          id?: string
+          in_app?: boolean
+          profile_id?: string
+          push_attempts?: number
+          push_next_attempt_at?: string
+          push_sent_endpoints?: string[]
+          push_status?: NotificationDeliveryStatusValue
+          read_at?: string | null
+          report_id?: string | null
+          title?: string
+          type?: NotificationTypeValue
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: ProfileRow
+        Insert: {
+          age: number
+          created_at?: string
+          gender: string
+          id: string
+          name: string
+          profession: string
+          role: ProfileRoleValue
+          suspended_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          age?: number
+          created_at?: string
+          gender?: string
+          id?: string
+          name?: string
+          profession?: string
+          role?: ProfileRoleValue
+          suspended_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          p256dh: string
+          profile_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          p256dh: string
+          profile_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          p256dh?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_comment_flags: {
+        Row: {
+          comment_id: string
+          created_at: string
+          profile_id: string
+          reason: string | null
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          profile_id: string
+          reason?: string | null
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          profile_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_comment_flags_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "report_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comment_flags_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_comments: {
+        Row: ReportCommentRow
+        Insert: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          parent_id?: string | null
+          photo_paths?: string[]
+          profile_id?: string | null
+          report_id: string
+          thumbnail_paths?: string[]
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          parent_id?: string | null
+          photo_paths?: string[]
+          profile_id?: string | null
+          report_id?: string
+          thumbnail_paths?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_comments_hidden_by_fkey"
+            columns: ["hidden_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "report_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_followers: {
+        Row: {
+          created_at: string
+          profile_id: string
+          report_id: string
+        }
+        Insert: {
+          created_at?: string
+          profile_id: string
+          report_id: string
+        }
+        Update: {
+          created_at?: string
+          profile_id?: string
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_followers_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_followers_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_photos: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          id: string
+          position: number
+          report_id: string
+          size_bytes: number | null
+          storage_path: string
+          thumbnail_path: string | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          position?: number
+          report_id: string
+          size_bytes?: number | null
+          storage_path: string
+          thumbnail_path?: string | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          position?: number
+          report_id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          thumbnail_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_photos_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_resolutions: {
+        Row: {
+          contractor_id: string | null
+          created_at: string
+          id: string
+          note: string
+          photo_paths: string[]
+          report_id: string
+          thumbnail_paths: string[]
+        }
+        Insert: {
+          contractor_id?: string | null
+          created_at?: string
+          id?: string
+          note: string
+          photo_paths: string[]
+          report_id: string
+          thumbnail_paths?: string[]
+        }
+        Update: {
+          contractor_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string
+          photo_paths?: string[]
+          report_id?: string
+          thumbnail_paths?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_resolutions_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_resolutions_contractor_id_fkey"
+            columns: ["contractor_id"]
+            isOneToOne: false
+            referencedRelation: "public_contractor_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_resolutions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_status_history: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          actor_role: ProfileRoleValue | null
+          created_at: string
+          from_status: ReportStatusValue | null
+          id: string
+          note: string | null
+          report_id: string
+          to_status: ReportStatusValue
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_role?: ProfileRoleValue | null
+          created_at?: string
+          from_status?: ReportStatusValue | null
+          id?: string
+          note?: string | null
+          report_id: string
+          to_status: ReportStatusValue
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          actor_role?: ProfileRoleValue | null
+          created_at?: string
+          from_status?: ReportStatusValue | null
+          id?: string
+          note?: string | null
+          report_id?: string
+          to_status?: ReportStatusValue
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_status_history_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_status_history_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: ReportRow
+        Insert: {
+          address?: string | null
+          assigned_contractor_id?: string | null
+          category?: ReportCategory
+          created_at?: string
+          description: string
+          duplicate_of?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          latitude?: number | null
+          location?: never
+          location_string?: string | null
+          longitude?: number | null
+          photo_paths?: string[]
+          profile_id: string
+          severity?: ReportSeverity
+          status?: ReportStatusValue
+          thumbnail_paths?: string[]
+          updated_at?: string
+          upvote_count?: number
+        }
+        Update: {
+          address?: string | null
+          assigned_contractor_id?: string | null
+          category?: ReportCategory
+          created_at?: string
+          description?: string
+          duplicate_of?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
+          hidden_reason?: string | null
+          id?: string
+          latitude?: number | null
+          location?: never
+          location_string?: string | null
+          longitude?: number | null
+          photo_paths?: string[]
+          profile_id?: string
+          severity?: ReportSeverity
+          status?: ReportStatusValue
+          thumbnail_paths?: string[]
+          updated_at?: string
+          upvote_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_assigned_contractor_id_fkey"
+            columns: ["assigned_contractor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_assigned_contractor_id_fkey"
+            columns: ["assigned_contractor_id"]
+            isOneToOne: false
+            referencedRelation: "public_contractor_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_hidden_by_fkey"
+            columns: ["hidden_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transactions: {
+        Row: {
+          account: string | null
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          name: string | null
+          provider: string | null
+          provider_intent_id: string | null
+          report_id: string
+          status: "pending" | "succeeded" | "failed"
+          transaction_id: string
+          transaction_time: string
+          transaction_verified: boolean
+          verified_at: string | null
+        }
+        Insert: {
+          account?: string | null
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string | null
+          provider?: string | null
+          provider_intent_id?: string | null
+          report_id: string
+          status?: "pending" | "succeeded" | "failed"
+          transaction_id: string
+          transaction_time?: string
+          transaction_verified?: boolean
+          verified_at?: string | null
+        }
+        Update: {
+          account?: string | null
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string | null
+          provider?: string | null
+          provider_intent_id?: string | null
+          report_id?: string
+          status?: "pending" | "succeeded" | "failed"
+          transaction_id?: string
+          transaction_time?: string
+          transaction_verified?: boolean
+          verified_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      public_contractor_profiles: {
+        Row: PublicContractorProfileRow
+        Relationships: []
+      }
+    }
+    Functions: {
+      accept_job_bid: {
+        Args: { bid_id: string }
+        Returns: JobBidRow
+      }
+      admin_assign_report: {
+        Args: {
+          target_report_id: string
+          new_contractor_id: string
+          default_price?: number | null
+          note?: string | null
+        }
+        Returns: ReportRow
+      }
+      admin_merge_duplicate_report: {
+        Args: {
+          duplicate_report_id: string
+          original_report_id: string
+        }
+        Returns: ReportRow
+      }
+      admin_set_comment_hidden: {
+        Args: {
+          target_comment_id: string
+          hidden: boolean
+          reason?: string | null
+        }
+        Returns: ReportCommentRow
+      }
+      admin_set_profile_role: {
+        Args: {
+          target_profile_id: string
+          new_role: ProfileRoleValue
+        }
+        Returns: ProfileRow
+      }
+      admin_set_profile_suspended: {
+        Args: {
+          target_profile_id: string
+          suspended: boolean
+        }
+        Returns: ProfileRow
+      }
+      admin_review_contractor: {
+        Args: {
+          target_profile_id: string
+          approve: boolean
+          reason?: string | null
+        }
+        Returns: ContractorProfileRow
+      }
+      admin_set_report_hidden: {
+        Args: {
+          target_report_id: string
+          hidden: boolean
+          reason?: string | null
+        }
+        Returns: ReportRow
+      }
+      can_transition_report_status: {
+        Args: {
+          report: ReportRow
+          next_status: string
+          next_contractor_id: string
+          actor_id: string
+        }
+        Returns: boolean
+      }
+      claim_notification_deliveries: {
+        Args: {
+          channel: "email" | "push"
+          batch_size?: number
+          lease_seconds?: number
+        }
+        Returns: NotificationRow[]
+      }
+      create_report_with_transaction: {
+        Args: {
+          new_report_id: string
+          new_location_string: string
+          new_description: string
+          new_category: string
+          new_severity: string
+          new_latitude: number | null
+          new_longitude: number | null
+          new_address: string | null
+          new_contribution_amount: number
+          new_photos?: Json
+        }
+        Returns: {
+          report: Omit<ReportRow, "location">
+          photos: Database["public"]["Tables"]["report_photos"]["Row"][]
+          transaction: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+      }
+      delete_report_comment: {
+        Args: { target_comment_id: string }
+        Returns: ReportCommentRow
+      }
+      find_similar_reports: {
+        Args: {
+          search_latitude: number
+          search_longitude: number
+          search_description?: string | null
+          radius_km?: number
+          max_results?: number
+        }
+        Returns: (ReportSearchRow & {
+          upvote_count: number
+          similarity: number
+        })[]
+      }
+      get_contractor_public_summary: {
+        Args: { target_contractor_id: string }
+        Returns: {
+          average_rating: number | null
+          jobs_completed: number
+          review_count: number
+        }[]
+      }
+      get_contractor_stats: {
+        Args: { target_contractor_id: string; since?: string | null }
+        Returns: {
+          average_rating: number | null
+          jobs_assigned: number
+          jobs_completed: number
+          review_count: number
+          total_income: number
+        }[]
+      }
+      get_report_public_summary: {
+        Args: { target_report_id: string }
+        Returns: {
+          reporter_name: string | null
+          contribution_count: number
+          contribution_total: number
+        }[]
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      mark_notifications_read: {
+        Args: {
+          notification_ids?: string[] | null
+        }
+        Returns: number
+      }
+      report_comment_thread: {
+        Args: { target_report_id: string }
+        Returns: (Omit<ReportCommentRow, "hidden_by"> & {
+          author_name: string | null
+          author_role: ProfileRoleValue | null
+          author_is_reporter: boolean
+          author_is_assigned_contractor: boolean
+          flag_count: number
+        })[]
+      }
+      reports_near_location: {
+        Args: {
+          search_latitude: number
+          search_longitude: number
+          radius_km?: number
+          status_filter?: string | null
+          page_limit?: number | null
+          page_offset?: number
+          category_filter?: string | null
+          severity_filter?: string | null
+        }
+        Returns: ReportSearchRow[]
+      }
+      resolve_report: {
+        Args: {
+          target_report_id: string
+          completion_note: string
+          new_photos: Json
+        }
+        Returns: ReportRow
+      }
+      search_report_facets: {
+        Args: {
+          search_text?: string | null
+          status_filter?: string | null
+          category_filter?: string | null
+          severity_filter?: string | null
+          created_after?: string | null
+          created_before?: string | null
+          search_latitude?: number | null
+          search_longitude?: number | null
+          radius_km?: number | null
+        }
+        Returns: {
+          facet: "status" | "category"
+          value: string
+          report_count: number
+        }[]
+      }
+      search_reports: {
+        Args: {
+          search_text?: string | null
+          status_filter?: string | null
+          category_filter?: string | null
+          severity_filter?: string | null
+          created_after?: string | null
+          created_before?: string | null
+          search_latitude?: number | null
+          search_longitude?: number | null
+          radius_km?: number | null
+          sort_by?: string
+          page_limit?: number
+          page_offset?: number
+        }
+        Returns: (Omit<ReportRow, "assigned_contractor_id" | "duplicate_of" | "hidden_at" | "hidden_by" | "hidden_reason" | "location"> & {
+          reporter_name: string | null
+          rank: number
+          distance_km: number | null
+          total_count: number
+        })[]
+      }
+      transition_report_status: {
+        Args: {
+          target_report_id: string
+          next_status: string
+          note?: string | null
+        }
+        Returns: ReportRow
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"]
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
+
+export type FunctionReturns<T extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][T]["Returns"]
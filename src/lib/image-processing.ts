@@ -0,0 +1,245 @@
+// lib/image-processing.ts
+// Photos are re-encoded in the browser before upload. Drawing them onto a
+// canvas resizes them and drops every EXIF tag, including the GPS position,
+// so read anything useful from the original file first.
+
+export interface PhotoGeotag {
+  latitude: number
+  longitude: number
+}
+
+export interface PhotoMetadata {
+  // Where the original photo was taken, if the camera recorded it
+  geotag: PhotoGeotag | null
+  // When it was taken, in the camera's local time
+  takenAt: Date | null
+}
+
+export interface ProcessedPhoto extends PhotoMetadata {
+  // Resized JPEG without metadata, ready to upload
+  file: File
+}
+
+export const PHOTO_MAX_DIMENSION = 1920
+export const PHOTO_QUALITY = 0.82
+export const THUMBNAIL_MAX_DIMENSION = 400
+export const THUMBNAIL_QUALITY = 0.7
+
+// The EXIF block sits in the APP1 segment near the start of a JPEG and is at most 64KB
+const EXIF_SCAN_BYTES = 128 * 1024
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+const EXIF_SUB_IFD_TAG = 0x8769
+const EXIF_GPS_IFD_TAG = 0x8825
+const EXIF_DATE_TIME_ORIGINAL_TAG = 0x9003
+const GPS_LATITUDE_REF_TAG = 0x0001
+const GPS_LATITUDE_TAG = 0x0002
+const GPS_LONGITUDE_REF_TAG = 0x0003
+const GPS_LONGITUDE_TAG = 0x0004
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>
+
+/**
+ * Read the entries of a TIFF image file directory
+ * @param view - Bytes of the TIFF block
+ * @param offset - Offset of the directory within the block
+ * @param littleEndian - Byte order declared in the TIFF header
+ * @returns Entries by tag, with the offset of each value
+ */
+const readIfd = (view: DataView, offset: number, littleEndian: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map()
+  const count = view.getUint16(offset, littleEndian)
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12
+    const tag = view.getUint16(entryOffset, littleEndian)
+    const type = view.getUint16(entryOffset + 2, littleEndian)
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian)
+    // Values that fit in four bytes are stored inline, larger ones are referenced
+    const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount
+    const valueOffset = size > 4 ? view.getUint32(entryOffset + 8, littleEndian) : entryOffset + 8
+
+    entries.set(tag, { type, count: valueCount, valueOffset })
+  }
+
+  return entries
+}
+
+/**
+ * Convert an EXIF degrees/minutes/seconds coordinate to decimal degrees
+ */
+const readCoordinate = (
+  view: DataView,
+  entries: IfdEntries,
+  valueTag: number,
+  refTag: number,
+  littleEndian: boolean
+): number | null => {
+  const value = entries.get(valueTag)
+  const ref = entries.get(refTag)
+  if (!value || !ref || value.count < 3) return null
+
+  const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+    const numerator = view.getUint32(value.valueOffset + i * 8, littleEndian)
+    const denominator = view.getUint32(value.valueOffset + i * 8 + 4, littleEndian)
+    return denominator === 0 ? 0 : numerator / denominator
+  })
+
+  const decimal = degrees + minutes / 60 + seconds / 3600
+  const hemisphere = String.fromCharCode(view.getUint8(ref.valueOffset))
+
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal
+}
+
+/**
+ * Parse an EXIF "YYYY:MM:DD HH:MM:SS" date
+ */
+const readDateTime = (view: DataView, entries: IfdEntries, tag: number): Date | null => {
+  const entry = entries.get(tag)
+  if (!entry || entry.count < 19) return null
+
+  const text = Array.from({ length: 19 }, (_, i) => String.fromCharCode(view.getUint8(entry.valueOffset + i))).join('')
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(text)
+  if (!match) return null
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number)
+  const date = new Date(year, month - 1, day, hours, minutes, seconds)
+  return isNaN(date.getTime()) || year === 0 ? null : date
+}
+
+/**
+ * Read the position and capture time a camera stored in a JPEG's EXIF data
+ * @param file - Original photo, before processing
+ * @returns Promise that resolves to the metadata; fields are null when missing
+ */
+export const readPhotoMetadata = async (file: File): Promise<PhotoMetadata> => {
+  const empty: PhotoMetadata = { geotag: null, takenAt: null }
+
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer())
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return empty
+
+    let offset = 2
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset)
+      const segmentLength = view.getUint16(offset + 2)
+
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = new DataView(view.buffer, offset + 10, segmentLength - 8)
+        const littleEndian = tiff.getUint16(0) === 0x4949
+
+        const ifd0 = readIfd(tiff, tiff.getUint32(4, littleEndian), littleEndian)
+        const readSubIfd = (tag: number) => {
+          const pointer = ifd0.get(tag)
+          return pointer ? readIfd(tiff, tiff.getUint32(pointer.valueOffset, littleEndian), littleEndian) : null
+        }
+
+        const exif = readSubIfd(EXIF_SUB_IFD_TAG)
+        const takenAt = exif ? readDateTime(tiff, exif, EXIF_DATE_TIME_ORIGINAL_TAG) : null
+
+        const gps = readSubIfd(EXIF_GPS_IFD_TAG)
+        const latitude = gps && readCoordinate(tiff, gps, GPS_LATITUDE_TAG, GPS_LATITUDE_REF_TAG, littleEndian)
+        const longitude = gps && readCoordinate(tiff, gps, GPS_LONGITUDE_TAG, GPS_LONGITUDE_REF_TAG, littleEndian)
+
+        // Cameras without a fix write zeros
+        const hasFix = latitude != null && longitude != null && !(latitude === 0 && longitude === 0)
+        return { geotag: hasFix ? { latitude, longitude } : null, takenAt }
+      }
+
+      // Start of scan; no metadata follows
+      if (marker === 0xffda) return empty
+      offset += 2 + segmentLength
+    }
+
+    return empty
+  } catch (error) {
+    // Corrupt or truncated metadata is not worth failing the upload over
+    console.error('Error reading photo metadata:', error)
+    return empty
+  }
+}
+
+/**
+ * Draw an image onto a canvas no larger than the given size and encode it as JPEG
+ * @param file - Image to resize
+ * @param maxDimension - Longest side of the output in pixels
+ * @param quality - JPEG quality between 0 and 1
+ * @returns Promise that resolves to the encoded image
+ */
+const resizeImage = async (
+  file: Blob,
+  maxDimension: number,
+  quality: number
+): Promise<Blob> => {
+  // Applies the EXIF orientation, which would otherwise be lost with the metadata
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height))
+    const width = Math.round(bitmap.width * scale)
+    const height = Math.round(bitmap.height * scale)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Your browser cannot process images')
+    }
+
+    // JPEG has no transparency, so fill it instead of letting it turn black
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, width, height)
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality))
+    if (!blob) {
+      throw new Error('Failed to encode image')
+    }
+
+    return blob
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Replace a file name's extension with .jpg
+ */
+const toJpegName = (name: string): string => {
+  const base = name.replace(/\.[^.]+$/, '') || 'photo'
+  return `${base}.jpg`
+}
+
+/**
+ * Resize and compress a photo and strip its metadata, keeping its position and capture time separately
+ * @param file - Photo as picked or captured by the user
+ * @returns Promise that resolves to the processed photo
+ */
+export const processPhoto = async (file: File): Promise<ProcessedPhoto> => {
+  try {
+    const metadata = await readPhotoMetadata(file)
+    const blob = await resizeImage(file, PHOTO_MAX_DIMENSION, PHOTO_QUALITY)
+
+    return {
+      ...metadata,
+      file: new File([blob], toJpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified }),
+    }
+  } catch (error) {
+    console.error('Error processing photo:', error)
+    throw new Error(`Could not process ${file.name}. Try a JPEG or PNG photo.`)
+  }
+}
+
+/**
+ * Create a small thumbnail of a photo for list views
+ * @param file - Processed photo
+ * @returns Promise that resolves to the thumbnail
+ */
+export const createThumbnail = async (file: File): Promise<File> => {
+  const blob = await resizeImage(file, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY)
+  return new File([blob], toJpegName(file.name), { type: 'image/jpeg' })
+}
@@ -0,0 +1,305 @@
+// lib/notifications.ts
+// Server-only delivery of notifications by email and web push. The database
+// creates notification rows; dispatchPendingNotifications claims the ones with
+// a due channel, sends them and records the outcome.
+import { timingSafeEqual } from 'crypto'
+import nodemailer, { type Transporter } from 'nodemailer'
+import webpush from 'web-push'
+import type { Tables } from './database.types'
+import { createAdminClient } from './supabase-admin'
+
+type Notification = Tables<'notifications'>
+type PushSubscriptionRow = Tables<'push_subscriptions'>
+
+export interface DispatchResult {
+  sent: number
+  failed: number
+  retrying: number
+}
+
+// Give up on a channel after this many failed attempts
+const MAX_DELIVERY_ATTEMPTS = 3
+const DISPATCH_BATCH_SIZE = 50
+// Wait this long after the first failure, doubling after each one after that
+const RETRY_DELAY_MS = 60 * 1000
+// How long a claimed batch is kept from other dispatchers; longer than sending a batch takes
+const CLAIM_LEASE_SECONDS = 5 * 60
+
+// scripts/dev-smtp-server.mjs listens here
+const DEFAULT_SMTP_URL = 'smtp://localhost:1025'
+const DEFAULT_EMAIL_FROM = 'Incident Reporting App <notifications@localhost>'
+
+let transporter: Transporter | null = null
+
+const getTransporter = (): Transporter => {
+  transporter ??= nodemailer.createTransport(process.env.SMTP_URL ?? DEFAULT_SMTP_URL)
+  return transporter
+}
+
+const isWebPushConfigured = (): boolean => {
+  return Boolean(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY)
+}
+
+let webPushConfigured = false
+
+const configureWebPush = () => {
+  if (webPushConfigured) return
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT ?? 'mailto:notifications@localhost',
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  )
+  webPushConfigured = true
+}
+
+/**
+ * Check the dispatcher's `Authorization: Bearer <secret>` header
+ * @param request - Incoming route handler request
+ * @returns True if the header carries NOTIFICATIONS_DISPATCH_SECRET
+ */
+export const isAuthorizedDispatchRequest = (request: Request): boolean => {
+  const secret = process.env.NOTIFICATIONS_DISPATCH_SECRET
+  if (!secret) {
+    throw new Error('NOTIFICATIONS_DISPATCH_SECRET is not set')
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Send one notification by email
+ * @param to - Recipient address
+ * @param notification - Notification to send
+ * @param siteUrl - Origin used for the link back to the app
+ */
+export const sendNotificationEmail = async (to: string, notification: Notification, siteUrl: string): Promise<void> => {
+  const link = new URL(notification.report_id ? `/reports/${notification.report_id}` : '/', siteUrl).toString()
+
+  await getTransporter().sendMail({
+    from: process.env.EMAIL_FROM ?? DEFAULT_EMAIL_FROM,
+    to,
+    subject: notification.title,
+    text: [notification.title, notification.body, `Open the app: ${link}`].filter(Boolean).join('\n\n'),
+  })
+}
+
+/**
+ * Send one notification to a browser push subscription
+ * @param subscription - Subscription saved by the browser
+ * @param notification - Notification to send
+ * @returns 'sent', or 'expired' when the browser dropped the subscription
+ */
+export const sendNotificationPush = async (
+  subscription: PushSubscriptionRow,
+  notification: Notification
+): Promise<'sent' | 'expired'> => {
+  configureWebPush()
+
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify({ title: notification.title, body: notification.body, reportId: notification.report_id })
+    )
+    return 'sent'
+  } catch (error) {
+    if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+      return 'expired'
+    }
+    throw error
+  }
+}
+
+type DeliveryChannel = 'email' | 'push'
+type DeliveryOutcome = 'sent' | 'failed' | 'pending'
+
+/**
+ * Claim a batch of due deliveries on one channel so no other dispatcher sends them
+ * @param channel - Channel to claim
+ * @returns Promise that resolves to the claimed notifications, with this attempt already counted
+ */
+const claimDeliveries = async (channel: DeliveryChannel): Promise<Notification[]> => {
+  const { data, error } = await createAdminClient().rpc('claim_notification_deliveries', {
+    channel,
+    batch_size: DISPATCH_BATCH_SIZE,
+    lease_seconds: CLAIM_LEASE_SECONDS
+  })
+
+  if (error) throw new Error(`Failed to claim pending ${channel} deliveries: ${error.message}`)
+
+  return data ?? []
+}
+
+/**
+ * Record how a claimed delivery went. Failures are retried later until they run out of attempts.
+ * @param channel - Channel that was attempted
+ * @param notification - Claimed notification
+ * @param delivered - Whether it was delivered
+ * @returns Promise that resolves to the new status
+ */
+const recordDelivery = async (
+  channel: DeliveryChannel,
+  notification: Notification,
+  delivered: boolean
+): Promise<DeliveryOutcome> => {
+  const attempts = channel === 'email' ? notification.email_attempts : notification.push_attempts
+  const status: DeliveryOutcome = delivered ? 'sent' : attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending'
+  const nextAttemptAt = new Date(Date.now() + RETRY_DELAY_MS * 2 ** (attempts - 1)).toISOString()
+
+  const { error } = await createAdminClient()
+    .from('notifications')
+    .update(
+      channel === 'email'
+        ? { email_status: status, email_next_attempt_at: nextAttemptAt }
+        : { push_status: status, push_next_attempt_at: nextAttemptAt }
+    )
+    .eq('id', notification.id)
+
+  if (error) console.error(`Error recording ${channel} delivery:`, notification.id, error)
+
+  return status
+}
+
+const skipDelivery = async (channel: DeliveryChannel, notification: Notification) => {
+  const { error } = await createAdminClient()
+    .from('notifications')
+    .update(channel === 'email' ? { email_status: 'skipped' } : { push_status: 'skipped' })
+    .eq('id', notification.id)
+
+  if (error) console.error(`Error skipping ${channel} delivery:`, notification.id, error)
+}
+
+/**
+ * Remember which browsers already received a push, so a retry skips them
+ * @param notificationId - Notification being pushed
+ * @param endpoints - Every endpoint reached so far
+ */
+const recordPushedEndpoints = async (notificationId: string, endpoints: string[]) => {
+  const { error } = await createAdminClient()
+    .from('notifications')
+    .update({ push_sent_endpoints: endpoints })
+    .eq('id', notificationId)
+
+  if (error) throw new Error(`Failed to record pushed endpoints: ${error.message}`)
+}
+
+/**
+ * Send a batch of notifications that have a due email or push, oldest first.
+ * Overlapping calls claim separate batches, so nothing is sent twice.
+ * @param siteUrl - Origin used for links in emails
+ * @returns Promise that resolves to how many deliveries succeeded, failed for good or will be retried
+ */
+export const dispatchPendingNotifications = async (siteUrl: string): Promise<DispatchResult> => {
+  const admin = createAdminClient()
+  const result: DispatchResult = { sent: 0, failed: 0, retrying: 0 }
+
+  const record = (status: DeliveryOutcome) => {
+    if (status === 'sent') result.sent += 1
+    else if (status === 'failed') result.failed += 1
+    else result.retrying += 1
+  }
+
+  // Email
+  const emails = await claimDeliveries('email')
+  const addresses = new Map<string, string | null>()
+
+  for (const notification of emails) {
+    // Left behind by a dispatcher that stopped mid-batch too many times
+    if (notification.email_attempts > MAX_DELIVERY_ATTEMPTS) {
+      record(await recordDelivery('email', notification, false))
+      continue
+    }
+
+    let delivered = false
+
+    try {
+      if (!addresses.has(notification.profile_id)) {
+        const { data, error } = await admin.auth.admin.getUserById(notification.profile_id)
+        if (error) throw new Error(`Failed to load recipient: ${error.message}`)
+        addresses.set(notification.profile_id, data.user.email ?? null)
+      }
+
+      const address = addresses.get(notification.profile_id)
+      if (!address) {
+        // Phone or OAuth accounts without an address cannot be emailed
+        await skipDelivery('email', notification)
+        continue
+      }
+
+      await sendNotificationEmail(address, notification, siteUrl)
+      delivered = true
+    } catch (error) {
+      console.error('Error emailing notification:', notification.id, error)
+    }
+
+    record(await recordDelivery('email', notification, delivered))
+  }
+
+  // Web push
+  const pushes = await claimDeliveries('push')
+
+  for (const notification of pushes) {
+    if (!isWebPushConfigured()) {
+      await skipDelivery('push', notification)
+      continue
+    }
+
+    if (notification.push_attempts > MAX_DELIVERY_ATTEMPTS) {
+      record(await recordDelivery('push', notification, false))
+      continue
+    }
+
+    let delivered = false
+    let activeSubscriptions = 0
+    const sentEndpoints = notification.push_sent_endpoints
+
+    try {
+      const { data: subscriptions, error } = await admin
+        .from('push_subscriptions')
+        .select('*')
+        .eq('profile_id', notification.profile_id)
+
+      if (error) throw new Error(`Failed to load push subscriptions: ${error.message}`)
+
+      activeSubscriptions = subscriptions?.length ?? 0
+      let unreached = 0
+      for (const subscription of subscriptions ?? []) {
+        // Reached on an earlier attempt
+        if (sentEndpoints.includes(subscription.endpoint)) continue
+
+        try {
+          const outcome = await sendNotificationPush(subscription, notification)
+          if (outcome === 'expired') {
+            activeSubscriptions -= 1
+            await admin.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint)
+          } else {
+            sentEndpoints.push(subscription.endpoint)
+            await recordPushedEndpoints(notification.id, sentEndpoints)
+          }
+        } catch (error) {
+          // Keep going so one failing browser does not hold back the others
+          unreached += 1
+          console.error('Error pushing notification:', notification.id, subscription.endpoint, error)
+        }
+      }
+
+      if (activeSubscriptions === 0) {
+        // The user disabled push in every browser since, so there is nobody to retry for
+        await skipDelivery('push', notification)
+        continue
+      }
+
+      // Retried until every browser has it
+      delivered = unreached === 0
+    } catch (error) {
+      console.error('Error pushing notification:', notification.id, error)
+    }
+
+    record(await recordDelivery('push', notification, delivered))
+  }
+
+  return result
+}
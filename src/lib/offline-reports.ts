@@ -0,0 +1,320 @@
+// lib/offline-reports.ts
+import { supabase } from './supabase'
+import {
+  isNetworkError,
+  submitIncidentReport,
+  type IncidentReportInput,
+} from './supabase-report-submission'
+import type { ReportCategory, ReportSeverity } from './report-categories'
+
+export interface ReportDraft {
+  profileId: string
+  selectedLocation: {
+    lat: number
+    lng: number
+    address?: string
+  }
+  location: string
+  description: string
+  // Optional so drafts saved before categories existed still load
+  category?: ReportCategory
+  severity?: ReportSeverity
+  photos: File[]
+  contributionAmount: string
+  updatedAt: string
+}
+
+export interface QueuedReport {
+  id: string
+  input: IncidentReportInput
+  queuedAt: string
+  // Times the server rejected it; failures to reach the server are not counted
+  attempts: number
+  lastError?: string
+  // Set after MAX_REPLAY_ATTEMPTS rejections; it is then only retried when the user asks
+  failedAt?: string
+}
+
+// Fired on window whenever the outbox changes so indicators can refresh
+export const QUEUE_CHANGED_EVENT = 'offline-reports:queue-changed'
+// Background Sync tag; must match public/sw.js
+export const REPLAY_SYNC_TAG = 'replay-queued-reports'
+export const REPLAY_MESSAGE_TYPE = 'REPLAY_QUEUED_REPORTS'
+// Cache holding the report form shell; must match CACHE_NAME in public/sw.js
+export const OFFLINE_CACHE_NAME = 'incident-app-shell-v2'
+
+const MAX_REPLAY_ATTEMPTS = 3
+
+const DB_NAME = 'incident-reports-offline'
+const DB_VERSION = 1
+const DRAFTS_STORE = 'drafts'
+const OUTBOX_STORE = 'outbox'
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync: { register: (tag: string) => Promise<void> }
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'profileId' })
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(request.result)
+    }
+    transaction.onerror = () => {
+      db.close()
+      reject(transaction.error)
+    }
+  })
+}
+
+const notifyQueueChanged = () => {
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT))
+}
+
+/**
+ * Save the in-progress report form for a user, replacing any earlier draft
+ * @param draft - Draft contents including photo files
+ */
+export const saveReportDraft = async (draft: ReportDraft): Promise<void> => {
+  try {
+    await runInStore(DRAFTS_STORE, 'readwrite', (store) => store.put(draft))
+  } catch (error) {
+    console.error('Error saving report draft:', error)
+    throw error
+  }
+}
+
+/**
+ * Load the saved report draft for a user
+ * @param profileId - Reporter's profile ID
+ * @returns Promise that resolves to the draft or null if none is saved
+ */
+export const loadReportDraft = async (profileId: string): Promise<ReportDraft | null> => {
+  try {
+    const draft = await runInStore<ReportDraft | undefined>(DRAFTS_STORE, 'readonly', (store) => store.get(profileId))
+    return draft ?? null
+  } catch (error) {
+    console.error('Error loading report draft:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete the saved report draft for a user
+ * @param profileId - Reporter's profile ID
+ */
+export const clearReportDraft = async (profileId: string): Promise<void> => {
+  try {
+    await runInStore(DRAFTS_STORE, 'readwrite', (store) => store.delete(profileId))
+  } catch (error) {
+    console.error('Error clearing report draft:', error)
+    throw error
+  }
+}
+
+/**
+ * List submissions waiting to be uploaded, oldest first
+ * @returns Promise that resolves to the queued reports
+ */
+export const fetchQueuedReports = async (): Promise<QueuedReport[]> => {
+  try {
+    const queued = await runInStore<QueuedReport[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())
+    return queued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+  } catch (error) {
+    console.error('Error fetching queued reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Queue a report submission to be uploaded once the connection returns
+ * @param input - Submission to queue
+ * @returns Promise that resolves to the queued entry
+ */
+export const queueReportSubmission = async (input: IncidentReportInput): Promise<QueuedReport> => {
+  try {
+    const queued: QueuedReport = {
+      id: input.id,
+      input,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+    }
+
+    await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.put(queued))
+    notifyQueueChanged()
+    await requestQueuedReportSync()
+
+    return queued
+  } catch (error) {
+    console.error('Error queueing report submission:', error)
+    throw error
+  }
+}
+
+/**
+ * Register the service worker that caches the app shell and signals when queued reports can be replayed
+ * @returns Promise that resolves to the registration, or null when unsupported or in development
+ */
+export const registerReportServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') {
+    return null
+  }
+
+  try {
+    return await navigator.serviceWorker.register('/sw.js')
+  } catch (error) {
+    console.error('Error registering service worker:', error)
+    return null
+  }
+}
+
+/**
+ * Drop the cached report form shell, which was rendered for the signed-in user
+ */
+export const clearOfflineCache = async (): Promise<void> => {
+  if (typeof caches === 'undefined') {
+    return
+  }
+
+  try {
+    await caches.delete(OFFLINE_CACHE_NAME)
+  } catch (error) {
+    console.error('Error clearing offline cache:', error)
+  }
+}
+
+/**
+ * Ask the service worker to fire a Background Sync event once the device is back online
+ */
+export const requestQueuedReportSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) {
+    return
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready
+    if ('sync' in registration) {
+      await (registration as SyncCapableRegistration).sync.register(REPLAY_SYNC_TAG)
+    }
+  } catch (error) {
+    // Browsers without Background Sync fall back to the window online event
+    console.error('Error registering background sync:', error)
+  }
+}
+
+let replayInFlight: Promise<number> | null = null
+
+const replayQueue = async (): Promise<number> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.user) {
+    return 0
+  }
+
+  const queued = await fetchQueuedReports()
+  let submitted = 0
+
+  for (const item of queued) {
+    // Reports can only be uploaded by the user who wrote them
+    if (item.input.profileId !== session.user.id || item.failedAt) continue
+
+    try {
+      // Leaves a pending transaction the reporter can pay from My Contributions
+      await submitIncidentReport(item.input)
+      await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(item.id))
+      submitted++
+    } catch (error) {
+      const offline = isNetworkError(error)
+      const attempts = offline ? item.attempts : item.attempts + 1
+
+      await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.put({
+        ...item,
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        // Sending it again would be rejected the same way
+        failedAt: attempts >= MAX_REPLAY_ATTEMPTS ? new Date().toISOString() : undefined,
+      }))
+
+      // Still offline; the rest will fail the same way
+      if (offline) break
+    }
+  }
+
+  notifyQueueChanged()
+  return submitted
+}
+
+/**
+ * Upload every queued report for the signed-in user. Concurrent calls share one run.
+ * @returns Promise that resolves to the number of reports uploaded
+ */
+export const replayQueuedReports = (): Promise<number> => {
+  if (!replayInFlight) {
+    replayInFlight = replayQueue().finally(() => {
+      replayInFlight = null
+    })
+  }
+
+  return replayInFlight
+}
+
+/**
+ * Put a report that kept being rejected back in the queue and try to upload it again
+ * @param id - Queued report ID
+ * @returns Promise that resolves to the number of reports uploaded
+ */
+export const retryFailedReport = async (id: string): Promise<number> => {
+  try {
+    const item = await runInStore<QueuedReport | undefined>(OUTBOX_STORE, 'readonly', (store) => store.get(id))
+    if (item) {
+      await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.put({ ...item, attempts: 0, failedAt: undefined }))
+      notifyQueueChanged()
+    }
+  } catch (error) {
+    console.error('Error retrying queued report:', error)
+    throw error
+  }
+
+  return replayQueuedReports()
+}
+
+/**
+ * Remove a queued report without uploading it
+ * @param id - Queued report ID
+ */
+export const discardQueuedReport = async (id: string): Promise<void> => {
+  try {
+    await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(id))
+    notifyQueueChanged()
+  } catch (error) {
+    console.error('Error discarding queued report:', error)
+    throw error
+  }
+}
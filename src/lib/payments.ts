@@ -0,0 +1,162 @@
+// lib/payments.ts
+// Server-only payment provider abstraction. Providers create payment intents
+// and turn signed webhook calls into PaymentWebhookEvents; the webhook route
+// is the only place a transaction is ever marked verified.
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface CreatePaymentIntentInput {
+  transactionId: string
+  amount: number
+  currency: string
+  description: string
+  // Where the provider sends the payer after checkout
+  returnPath: string
+}
+
+export interface CreatedPaymentIntent {
+  providerIntentId: string
+  checkoutUrl: string
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment_intent.succeeded' | 'payment_intent.failed'
+  providerIntentId: string
+  transactionId: string
+  amount: number
+  currency: string
+  payerName?: string
+  payerAccount?: string
+}
+
+export interface PaymentProvider {
+  name: string
+  createPaymentIntent: (input: CreatePaymentIntentInput) => Promise<CreatedPaymentIntent>
+  // Returns null when the signature does not verify
+  parseWebhook: (rawBody: string, headers: Headers) => PaymentWebhookEvent | null
+}
+
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature'
+export const PAYMENT_CURRENCY = 'usd'
+
+// Reject signed payloads older than this to stop replayed webhooks
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+const getWebhookSecret = (): string => {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET
+
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is not set')
+  }
+
+  return secret
+}
+
+const computeSignature = (rawBody: string, timestamp: number, secret: string): string => {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+}
+
+/**
+ * Sign a webhook payload the way providers do
+ * @param rawBody - Exact JSON body that will be sent
+ * @param secret - Shared webhook secret
+ * @param timestamp - Unix time in seconds (default: now)
+ * @returns Header value in the form `t=<timestamp>,v1=<hex signature>`
+ */
+export const signPaymentPayload = (
+  rawBody: string,
+  secret: string = getWebhookSecret(),
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},v1=${computeSignature(rawBody, timestamp, secret)}`
+}
+
+/**
+ * Check a webhook signature header against the raw request body
+ * @param rawBody - Body exactly as received
+ * @param header - Value of the signature header
+ * @param secret - Shared webhook secret
+ * @returns True if the signature matches and is recent
+ */
+export const verifyPaymentSignature = (
+  rawBody: string,
+  header: string | null,
+  secret: string = getWebhookSecret()
+): boolean => {
+  if (!header) return false
+
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2)))
+  const timestamp = Number(parts.t)
+  const signature = parts.v1
+
+  if (!Number.isFinite(timestamp) || !signature) return false
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(computeSignature(rawBody, timestamp, secret), 'hex')
+  const received = Buffer.from(signature, 'hex')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Local stand-in for a real provider. Checkout happens on /payments/mock-checkout,
+ * which asks /api/payments/mock/confirm to send a signed webhook back to us.
+ * The payer decides the outcome there, so it is never available in production.
+ */
+const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  createPaymentIntent: async ({ transactionId, amount, returnPath }) => {
+    const providerIntentId = `mock_pi_${randomUUID().replace(/-/g, '')}`
+    const params = new URLSearchParams({
+      intent: providerIntentId,
+      transaction: transactionId,
+      amount: amount.toFixed(2),
+      return_to: returnPath
+    })
+
+    return {
+      providerIntentId,
+      checkoutUrl: `/payments/mock-checkout?${params.toString()}`
+    }
+  },
+
+  parseWebhook: (rawBody, headers) => {
+    if (!verifyPaymentSignature(rawBody, headers.get(PAYMENT_SIGNATURE_HEADER))) {
+      return null
+    }
+
+    return JSON.parse(rawBody) as PaymentWebhookEvent
+  }
+}
+
+/**
+ * Whether the mock provider is configured and allowed to run
+ * @returns True outside production when PAYMENT_PROVIDER is mock
+ */
+export const isMockPaymentProviderEnabled = (): boolean => {
+  return process.env.PAYMENT_PROVIDER === 'mock' && process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Get the payment provider configured by PAYMENT_PROVIDER
+ * @returns Payment provider implementation
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  const providerName = process.env.PAYMENT_PROVIDER
+
+  if (!providerName) {
+    throw new Error('PAYMENT_PROVIDER is not set')
+  }
+
+  switch (providerName) {
+    case 'mock':
+      if (!isMockPaymentProviderEnabled()) {
+        throw new Error('The mock payment provider cannot be used in production')
+      }
+      return mockPaymentProvider
+    default:
+      throw new Error(`Unknown payment provider: ${providerName}`)
+  }
+}
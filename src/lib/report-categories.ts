@@ -0,0 +1,60 @@
+// lib/report-categories.ts
+
+// Must stay in sync with the CHECK constraints in scripts/migrations/0009-create-report-categories.sql
+export type ReportCategory =
+  | 'pothole'
+  | 'streetlight'
+  | 'drainage'
+  | 'garbage'
+  | 'signage'
+  | 'sidewalk'
+  | 'water_leak'
+  | 'vandalism'
+  | 'other'
+
+export type ReportSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export interface ReportCategoryFilter {
+  category?: ReportCategory
+  severity?: ReportSeverity
+}
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  pothole: 'Pothole',
+  streetlight: 'Streetlight',
+  drainage: 'Drainage',
+  garbage: 'Garbage',
+  signage: 'Signage',
+  sidewalk: 'Sidewalk',
+  water_leak: 'Water Leak',
+  vandalism: 'Vandalism',
+  other: 'Other'
+}
+
+export const REPORT_SEVERITY_LABELS: Record<ReportSeverity, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+}
+
+export const REPORT_SEVERITY_DESCRIPTIONS: Record<ReportSeverity, string> = {
+  low: 'Cosmetic or minor inconvenience',
+  medium: 'Needs fixing but not dangerous',
+  high: 'Likely to cause damage or injury',
+  critical: 'Immediate danger to people or property'
+}
+
+// Badge colours, lowest to highest severity
+export const REPORT_SEVERITY_BADGE_CLASSES: Record<ReportSeverity, string> = {
+  low: 'bg-gray-100 text-gray-800 border-gray-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  high: 'bg-orange-100 text-orange-800 border-orange-200',
+  critical: 'bg-red-100 text-red-800 border-red-200'
+}
+
+export const REPORT_CATEGORIES = Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]
+export const REPORT_SEVERITIES = Object.keys(REPORT_SEVERITY_LABELS) as ReportSeverity[]
+
+export const DEFAULT_REPORT_CATEGORY: ReportCategory = 'other'
+export const DEFAULT_REPORT_SEVERITY: ReportSeverity = 'medium'
@@ -0,0 +1,110 @@
+// lib/report-detail.ts
+// Server-only: loads everything the shareable report page at /reports/[id]
+// renders, as whoever opened the link. Row level security decides what they
+// see, so a hidden report is not found for anyone outside it.
+import { cache } from 'react'
+import type { Profile, Report } from './supabase'
+import { withCommentPhotoUrls, type ReportComment } from './supabase-report-comments'
+import { withResolutionPhotoUrls, type ReportResolution } from './supabase-report-resolution'
+import type { ReportStatusHistoryEntry } from './supabase-report-status'
+import { createServerSupabaseClient } from './supabase-server'
+
+export interface ReportDetail {
+  report: Report & {
+    assigned_contractor: Pick<Profile, 'id' | 'name'> | null
+  }
+  reporterName: string | null
+  contributionCount: number
+  contributionTotal: number
+  history: ReportStatusHistoryEntry[]
+  resolution: ReportResolution | null
+  comments: ReportComment[]
+}
+
+// Postgres rejects IDs that are not UUIDs before looking anything up
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+/**
+ * Load a report with its history, resolution evidence, contributions and comments.
+ * Cached per request, so the page and its metadata share one set of queries.
+ * @param reportId - Report ID from the URL
+ * @returns Promise that resolves to the report details, or null if the report does not exist or is hidden
+ */
+export const fetchReportDetail = cache(async (reportId: string): Promise<ReportDetail | null> => {
+  try {
+    const supabase = await createServerSupabaseClient()
+
+    const { data: report, error: reportError } = await supabase
+      .from('reports')
+      .select(`
+        *,
+        assigned_contractor:public_contractor_profiles!reports_assigned_contractor_id_fkey (
+          id,
+          name
+        )
+      `)
+      .eq('id', reportId)
+      .maybeSingle()
+
+    if (reportError) {
+      if (reportError.code === INVALID_TEXT_REPRESENTATION) {
+        return null
+      }
+      throw new Error(`Failed to fetch report: ${reportError.message}`)
+    }
+
+    if (!report) {
+      return null
+    }
+
+    const [summaryResult, historyResult, resolutionResult, commentsResult] = await Promise.all([
+      supabase.rpc('get_report_public_summary', { target_report_id: reportId }),
+      supabase
+        .from('report_status_history')
+        .select('*')
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('report_resolutions')
+        .select(`
+          *,
+          contractor:public_contractor_profiles!report_resolutions_contractor_id_fkey (
+            name
+          )
+        `)
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.rpc('report_comment_thread', { target_report_id: reportId })
+    ])
+
+    if (summaryResult.error) {
+      throw new Error(`Failed to fetch report summary: ${summaryResult.error.message}`)
+    }
+    if (historyResult.error) {
+      throw new Error(`Failed to fetch status history: ${historyResult.error.message}`)
+    }
+    if (resolutionResult.error) {
+      throw new Error(`Failed to fetch resolution: ${resolutionResult.error.message}`)
+    }
+    if (commentsResult.error) {
+      throw new Error(`Failed to fetch comments: ${commentsResult.error.message}`)
+    }
+
+    const summary = summaryResult.data?.[0]
+
+    return {
+      report,
+      reporterName: summary?.reporter_name ?? null,
+      contributionCount: Number(summary?.contribution_count ?? 0),
+      contributionTotal: Number(summary?.contribution_total ?? 0),
+      history: historyResult.data || [],
+      resolution: resolutionResult.data && withResolutionPhotoUrls(resolutionResult.data, supabase),
+      comments: (commentsResult.data || []).map((comment) => withCommentPhotoUrls(comment, supabase))
+    }
+  } catch (error) {
+    console.error('Error fetching report detail:', error)
+    throw error
+  }
+})
@@ -0,0 +1,98 @@
+// lib/route-access.ts
+// Shared by src/middleware.ts (server-side redirects) and useRequireProfile
+// (client-side navigation and sign-out), so both enforce the same rules.
+import type { Profile } from './supabase'
+
+export type ProfileRole = Profile['role']
+
+export interface RouteRule {
+  path: string
+  // Match only the path itself rather than everything under it
+  exact?: boolean
+  // Roles allowed on the route; any signed-in user when omitted
+  roles?: ProfileRole[]
+}
+
+export const LOGIN_PATH = '/login'
+export const HOME_PATH = '/'
+
+// Routes that need a signed-in user. Anything not listed is public.
+export const PROTECTED_ROUTES: RouteRule[] = [
+  { path: '/', exact: true },
+  { path: '/report-incident', roles: ['Citizen'] },
+  { path: '/my-reports', roles: ['Citizen'] },
+  { path: '/my-contributions', roles: ['Citizen'] },
+  { path: '/locate-specific-report' },
+  { path: '/find-jobs', roles: ['Contractor'] },
+  { path: '/contractor-onboarding', roles: ['Contractor'] },
+  { path: '/admin', roles: ['Admin'] },
+  { path: '/payments' },
+  // Signed in by the link in the password reset email
+  { path: '/reset-password' }
+]
+
+/**
+ * Find the access rule for a path
+ * @param pathname - Path without query string
+ * @returns Matching rule, or null when the route is public
+ */
+export const getRouteRule = (pathname: string): RouteRule | null => {
+  return PROTECTED_ROUTES.find((rule) =>
+    rule.exact
+      ? pathname === rule.path
+      : pathname === rule.path || pathname.startsWith(`${rule.path}/`)
+  ) ?? null
+}
+
+/**
+ * Check whether a profile may open a route
+ * @param rule - Route rule from getRouteRule
+ * @param role - Role of the signed-in user
+ * @returns True when the route has no role restriction or the role is allowed
+ */
+export const isRoleAllowed = (rule: RouteRule | null, role: ProfileRole): boolean => {
+  return !rule?.roles || rule.roles.includes(role)
+}
+
+/**
+ * Build the login URL that returns the user to where they were going
+ * @param returnTo - Path (and query string) to come back to after signing in
+ * @returns Login path with a `next` parameter
+ */
+export const buildLoginPath = (returnTo: string): string => {
+  return returnTo === HOME_PATH
+    ? LOGIN_PATH
+    : `${LOGIN_PATH}?next=${encodeURIComponent(returnTo)}`
+}
+
+// Stands in for the site when the caller has no URL of its own to resolve against
+const PLACEHOLDER_ORIGIN = 'http://localhost'
+
+// Browsers read `/\host` as `//host` and drop tabs and newlines from URLs
+const UNSAFE_REDIRECT_CHARACTERS = /[\\\u0000-\u001f\u007f]/
+
+/**
+ * Only follow redirects to paths on this site. The path is resolved the way the
+ * browser will resolve it, so tricks like `//host` cannot leave the origin.
+ * @param next - Value of the `next` query parameter
+ * @param siteUrl - URL of the current request or page
+ * @returns The path when it is local, otherwise the home page
+ */
+export const getSafeRedirectPath = (next: string | null, siteUrl: string = PLACEHOLDER_ORIGIN): string => {
+  if (!next || !next.startsWith('/') || UNSAFE_REDIRECT_CHARACTERS.test(next)) {
+    return HOME_PATH
+  }
+
+  try {
+    const { origin } = new URL(siteUrl)
+    const target = new URL(next, origin)
+
+    if (target.origin !== origin) {
+      return HOME_PATH
+    }
+
+    return `${target.pathname}${target.search}${target.hash}`
+  } catch {
+    return HOME_PATH
+  }
+}
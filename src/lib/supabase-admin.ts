@@ -0,0 +1,46 @@
+// lib/supabase-admin.ts
+// Server-only: uses the service role key, which bypasses RLS.
+// Never import this module from a client component.
+import { createClient, type User } from '@supabase/supabase-js'
+import type { Database } from './database.types'
+
+/**
+ * Create a Supabase client with service role privileges
+ * @returns Supabase client that bypasses row level security
+ */
+export const createAdminClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  })
+}
+
+/**
+ * Resolve the signed-in user from a request's `Authorization: Bearer <access token>` header
+ * @param request - Incoming route handler request
+ * @returns Promise that resolves to the user, or null if the token is missing or invalid
+ */
+export const getUserFromRequest = async (request: Request): Promise<User | null> => {
+  const authorization = request.headers.get('authorization')
+  const accessToken = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null
+
+  if (!accessToken) {
+    return null
+  }
+
+  const { data, error } = await createAdminClient().auth.getUser(accessToken)
+
+  if (error) {
+    return null
+  }
+
+  return data.user
+}
@@ -0,0 +1,145 @@
+// lib/supabase-auth.ts
+// Email links and OAuth sign-ins all return through /auth/callback, which
+// exchanges the code for a session and then sends the user on to `next`.
+import type { Provider } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { HOME_PATH } from './route-access'
+
+export const AUTH_CALLBACK_PATH = '/auth/callback'
+export const RESET_PASSWORD_PATH = '/reset-password'
+export const MIN_PASSWORD_LENGTH = 6
+
+const OAUTH_PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  google: 'Google',
+  github: 'GitHub',
+  facebook: 'Facebook',
+  apple: 'Apple',
+  azure: 'Microsoft'
+}
+
+export interface OAuthProviderOption {
+  id: Provider
+  label: string
+}
+
+/**
+ * OAuth providers to offer on the login page, from NEXT_PUBLIC_OAUTH_PROVIDERS
+ * (a comma-separated list such as "google,github"). Each one must also be
+ * enabled in the Supabase dashboard.
+ * @returns Providers with their button labels, in the configured order
+ */
+export const getEnabledOAuthProviders = (): OAuthProviderOption[] => {
+  const configured = process.env.NEXT_PUBLIC_OAUTH_PROVIDERS ?? ''
+
+  return configured
+    .split(',')
+    .map((id) => id.trim().toLowerCase() as Provider)
+    .filter((id) => id in OAUTH_PROVIDER_LABELS)
+    .map((id) => ({ id, label: OAUTH_PROVIDER_LABELS[id]! }))
+}
+
+/**
+ * Build the absolute callback URL that Supabase redirects back to
+ * @param next - Local path to land on once the session is set up
+ * @returns Callback URL on the current origin
+ */
+export const getAuthCallbackUrl = (next: string = HOME_PATH): string => {
+  const url = new URL(AUTH_CALLBACK_PATH, window.location.origin)
+  url.searchParams.set('next', next)
+  return url.toString()
+}
+
+/**
+ * Create an account with email and password
+ * @param email - Email address to register
+ * @param password - New password
+ * @returns Promise that resolves once the confirmation email has been sent
+ */
+export const signUpWithPassword = async (email: string, password: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: getAuthCallbackUrl() }
+    })
+
+    if (error) throw new Error(`Failed to sign up: ${error.message}`)
+  } catch (error) {
+    console.error('Error signing up:', error)
+    throw error
+  }
+}
+
+/**
+ * Email a one-time sign-in link; signing in this way also creates the account if needed
+ * @param email - Email address to send the link to
+ * @param next - Local path to land on after signing in
+ * @returns Promise that resolves once the email has been sent
+ */
+export const sendMagicLink = async (email: string, next: string = HOME_PATH): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: getAuthCallbackUrl(next) }
+    })
+
+    if (error) throw new Error(`Failed to send sign-in link: ${error.message}`)
+  } catch (error) {
+    console.error('Error sending magic link:', error)
+    throw error
+  }
+}
+
+/**
+ * Email a link that signs the user in and opens the reset password page
+ * @param email - Email address of the account
+ * @returns Promise that resolves once the email has been sent
+ */
+export const sendPasswordResetEmail = async (email: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: getAuthCallbackUrl(RESET_PASSWORD_PATH)
+    })
+
+    if (error) throw new Error(`Failed to send password reset email: ${error.message}`)
+  } catch (error) {
+    console.error('Error sending password reset email:', error)
+    throw error
+  }
+}
+
+/**
+ * Set a new password for the signed-in user
+ * @param password - New password
+ * @returns Promise that resolves once the password has been changed
+ */
+export const updatePassword = async (password: string): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.updateUser({ password })
+
+    if (error) throw new Error(`Failed to update password: ${error.message}`)
+  } catch (error) {
+    console.error('Error updating password:', error)
+    throw error
+  }
+}
+
+/**
+ * Leave for the provider's consent page
+ * @param provider - OAuth provider to sign in with
+ * @param next - Local path to land on after signing in
+ * @returns Promise that resolves as the browser starts navigating away
+ */
+export const signInWithOAuthProvider = async (provider: Provider, next: string = HOME_PATH): Promise<void> => {
+  try {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: getAuthCallbackUrl(next) }
+    })
+
+    if (error) throw new Error(`Failed to sign in with ${provider}: ${error.message}`)
+  } catch (error) {
+    console.error('Error signing in with OAuth:', error)
+    throw error
+  }
+}
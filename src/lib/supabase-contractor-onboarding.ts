@@ -0,0 +1,232 @@
+// lib/supabase-contractor-onboarding.ts
+// Contractors submit business details and documents, then wait for an admin
+// to verify them. Only verified contractors can bid or be assigned work.
+import { supabase, type Profile } from './supabase'
+import type { Tables } from './database.types'
+import type { ReportCategory } from './report-categories'
+
+export type ContractorProfile = Tables<'contractor_profiles'>
+
+export type ContractorVerificationStatus = ContractorProfile['verification_status']
+
+export type ContractorApplication = ContractorProfile & {
+  profile: Pick<Profile, 'id' | 'name' | 'profession'> | null
+}
+
+export interface ContractorOnboardingInput {
+  businessName: string
+  licenceNumber: string
+  tradeCategories: ReportCategory[]
+  serviceRadiusKm: number
+  // Documents already uploaded that should be kept
+  existingDocumentPaths: string[]
+  newDocuments: File[]
+}
+
+export const CONTRACTOR_DOCUMENTS_BUCKET = 'contractor-documents'
+
+export const CONTRACTOR_VERIFICATION_LABELS: Record<ContractorVerificationStatus, string> = {
+  unverified: 'Not submitted',
+  pending_review: 'Waiting for review',
+  verified: 'Verified',
+  rejected: 'Changes needed'
+}
+
+export const CONTRACTOR_VERIFICATION_BADGE_CLASSES: Record<ContractorVerificationStatus, string> = {
+  unverified: 'bg-gray-100 text-gray-800 border-gray-200',
+  pending_review: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  verified: 'bg-green-100 text-green-800 border-green-200',
+  rejected: 'bg-red-100 text-red-800 border-red-200'
+}
+
+export const DEFAULT_SERVICE_RADIUS_KM = 10
+
+/**
+ * Fetch a contractor's business details
+ * @param profileId - Contractor's profile ID
+ * @returns Promise that resolves to the details, or null if they have not applied yet
+ */
+export const fetchContractorProfile = async (profileId: string): Promise<ContractorProfile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('contractor_profiles')
+      .select('*')
+      .eq('profile_id', profileId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch contractor details: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching contractor details:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the verification status of a contractor
+ * @param contractorProfile - Business details, or null if none were saved
+ * @returns Verification status
+ */
+export const getVerificationStatus = (contractorProfile: ContractorProfile | null): ContractorVerificationStatus => {
+  return contractorProfile?.verification_status ?? 'unverified'
+}
+
+/**
+ * Upload verification documents to the contractor's private folder
+ * @param profileId - Contractor's profile ID
+ * @param documents - Files to upload
+ * @returns Promise that resolves to the storage paths
+ */
+const uploadContractorDocuments = async (profileId: string, documents: File[]): Promise<string[]> => {
+  return Promise.all(
+    documents.map(async (document, index) => {
+      const fileExt = document.name.split('.').pop()
+      const filePath = `${profileId}/${Date.now()}-${index}.${fileExt}`
+
+      const { error } = await supabase.storage
+        .from(CONTRACTOR_DOCUMENTS_BUCKET)
+        .upload(filePath, document)
+
+      if (error) {
+        throw new Error(`Failed to upload ${document.name}: ${error.message}`)
+      }
+
+      return filePath
+    })
+  )
+}
+
+/**
+ * Save business details and documents, and send them for review
+ * @param profileId - Contractor's profile ID
+ * @param input - Business details and documents
+ * @returns Promise that resolves to the saved details
+ */
+export const submitContractorApplication = async (
+  profileId: string,
+  input: ContractorOnboardingInput
+): Promise<ContractorProfile> => {
+  try {
+    const uploadedPaths = await uploadContractorDocuments(profileId, input.newDocuments)
+    const documentPaths = [...input.existingDocumentPaths, ...uploadedPaths]
+
+    if (documentPaths.length === 0) {
+      throw new Error('Upload at least one document, such as your licence or insurance certificate')
+    }
+
+    const { data, error } = await supabase
+      .from('contractor_profiles')
+      .upsert({
+        profile_id: profileId,
+        business_name: input.businessName.trim(),
+        licence_number: input.licenceNumber.trim(),
+        trade_categories: input.tradeCategories,
+        service_radius_km: input.serviceRadiusKm,
+        document_paths: documentPaths,
+        verification_status: 'pending_review'
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // The details were not saved, so nothing refers to the new uploads
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from(CONTRACTOR_DOCUMENTS_BUCKET).remove(uploadedPaths)
+      }
+      throw new Error(`Failed to submit your details: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error submitting contractor application:', error)
+    throw error
+  }
+}
+
+/**
+ * Create a short-lived link to a private verification document
+ * @param path - Path in the contractor-documents bucket
+ * @returns Promise that resolves to a URL valid for ten minutes
+ */
+export const getContractorDocumentUrl = async (path: string): Promise<string> => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(CONTRACTOR_DOCUMENTS_BUCKET)
+      .createSignedUrl(path, 600)
+
+    if (error) {
+      throw new Error(`Failed to open document: ${error.message}`)
+    }
+
+    return data.signedUrl
+  } catch (error) {
+    console.error('Error creating document link:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch contractor applications for admins, oldest submission first
+ * @param status - Verification status to list
+ * @returns Promise that resolves to applications with the contractor's profile
+ */
+export const fetchContractorApplications = async (
+  status: ContractorVerificationStatus = 'pending_review'
+): Promise<ContractorApplication[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('contractor_profiles')
+      .select(`
+        *,
+        profile:profiles!contractor_profiles_profile_id_fkey (
+          id,
+          name,
+          profession
+        )
+      `)
+      .eq('verification_status', status)
+      .order('submitted_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch contractor applications: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching contractor applications:', error)
+    throw error
+  }
+}
+
+/**
+ * Approve or reject a contractor's application
+ * @param profileId - Contractor's profile ID
+ * @param approve - True to verify, false to reject
+ * @param reason - Why the application was rejected, shown to the contractor
+ * @returns Promise that resolves to the reviewed details
+ */
+export const reviewContractorApplication = async (
+  profileId: string,
+  approve: boolean,
+  reason?: string
+): Promise<ContractorProfile> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_review_contractor', {
+      target_profile_id: profileId,
+      approve,
+      reason: reason?.trim() || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to review application: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error reviewing contractor application:', error)
+    throw error
+  }
+}
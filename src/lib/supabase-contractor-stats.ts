@@ -0,0 +1,132 @@
+// lib/supabase-contractor-stats.ts
+import { supabase } from './supabase'
+import type { Tables } from './database.types'
+import { getReportImageUrl } from './supabase-report-submission'
+
+export type StatsTimeRange = '30d' | '90d' | '365d' | 'all'
+
+export const STATS_TIME_RANGES: { value: StatsTimeRange; label: string }[] = [
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '365d', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' }
+]
+
+// Photos are stored as paths in the reviewer's folder and read as URLs
+export type ContractorReview = Omit<Tables<'contractor_reviews'>, 'photo_paths'> & {
+  photo_urls: string[]
+}
+
+export interface ContractorStats {
+  jobsAssigned: number
+  jobsCompleted: number
+  averageRating: number | null
+  reviewCount: number
+  totalIncome: number
+  latestReview: ContractorReview | null
+}
+
+const TIME_RANGE_DAYS: Record<Exclude<StatsTimeRange, 'all'>, number> = {
+  '30d': 30,
+  '90d': 90,
+  '365d': 365
+}
+
+/**
+ * Get the start of a statistics time range
+ * @param range - Time range
+ * @returns ISO timestamp of the range start, or null for all time
+ */
+export const getTimeRangeStart = (range: StatsTimeRange): string | null => {
+  if (range === 'all') return null
+
+  const start = new Date()
+  start.setDate(start.getDate() - TIME_RANGE_DAYS[range])
+  return start.toISOString()
+}
+
+/**
+ * Replace a review's photo paths with public URLs in the report-images bucket
+ * @param review - Review row with photo_paths
+ * @returns The review with photo_urls instead of paths
+ */
+export const withReviewPhotoUrls = ({ photo_paths, ...review }: Tables<'contractor_reviews'>): ContractorReview => ({
+  ...review,
+  photo_urls: photo_paths.map((path) => getReportImageUrl(path))
+})
+
+/**
+ * Fetch the most recent review left for a contractor
+ * @param contractorId - Contractor's profile ID
+ * @param since - Optional ISO timestamp to limit the search to
+ * @returns Promise that resolves to the latest review or null
+ */
+export const fetchLatestContractorReview = async (
+  contractorId: string,
+  since?: string | null
+): Promise<ContractorReview | null> => {
+  try {
+    let query = supabase
+      .from('contractor_reviews')
+      .select('*')
+      .eq('contractor_id', contractorId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (since) {
+      query = query.gte('created_at', since)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch latest review: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? withReviewPhotoUrls(data[0]) : null
+  } catch (error) {
+    console.error('Error fetching latest contractor review:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch a contractor's job, rating and income statistics
+ * @param contractorId - Contractor's profile ID
+ * @param range - Time range to aggregate over (default: all)
+ * @returns Promise that resolves to the contractor's statistics
+ */
+export const fetchContractorStats = async (
+  contractorId: string,
+  range: StatsTimeRange = 'all'
+): Promise<ContractorStats> => {
+  const since = getTimeRangeStart(range)
+
+  try {
+    const [statsResult, latestReview] = await Promise.all([
+      supabase.rpc('get_contractor_stats', {
+        target_contractor_id: contractorId,
+        since
+      }),
+      fetchLatestContractorReview(contractorId, since)
+    ])
+
+    if (statsResult.error) {
+      throw new Error(`Failed to fetch contractor stats: ${statsResult.error.message}`)
+    }
+
+    const row = statsResult.data?.[0]
+
+    return {
+      jobsAssigned: Number(row?.jobs_assigned ?? 0),
+      jobsCompleted: Number(row?.jobs_completed ?? 0),
+      averageRating: row?.average_rating != null ? Number(row.average_rating) : null,
+      reviewCount: Number(row?.review_count ?? 0),
+      totalIncome: Number(row?.total_income ?? 0),
+      latestReview
+    }
+  } catch (error) {
+    console.error('Error fetching contractor stats:', error)
+    throw error
+  }
+}
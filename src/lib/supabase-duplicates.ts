@@ -0,0 +1,119 @@
+// lib/supabase-duplicates.ts
+import { supabase } from './supabase'
+import type { LocationReport, UserLocation } from './supabase-location'
+
+export interface SimilarReport extends LocationReport {
+  upvote_count: number
+  // Trigram similarity of the descriptions, 0 (unrelated) to 1 (identical)
+  similarity: number
+}
+
+// Reports this close to the new one are shown as possible duplicates
+export const DUPLICATE_SEARCH_RADIUS_KM = 0.2
+
+/**
+ * Find open reports near a location that may describe the same issue
+ * @param location - Location picked for the new report
+ * @param description - Description typed so far, used to rank matches
+ * @param radiusKm - Search radius in kilometers
+ * @param limit - Maximum number of matches to return
+ * @returns Promise that resolves to matches, most similar first
+ */
+export const findSimilarReports = async (
+  location: UserLocation,
+  description?: string,
+  radiusKm: number = DUPLICATE_SEARCH_RADIUS_KM,
+  limit: number = 5
+): Promise<SimilarReport[]> => {
+  try {
+    const { data, error } = await supabase.rpc('find_similar_reports', {
+      search_latitude: location.latitude,
+      search_longitude: location.longitude,
+      search_description: description?.trim() || null,
+      radius_km: radiusKm,
+      max_results: limit
+    })
+
+    if (error) {
+      throw new Error(`Failed to find similar reports: ${error.message}`)
+    }
+
+    return (data || []).map(({ distance_km, reporter_name, ...report }) => ({
+      ...report,
+      distance: distance_km,
+      profiles: reporter_name ? { name: reporter_name } : undefined
+    }))
+  } catch (error) {
+    console.error('Error finding similar reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch which of the given reports a user already follows
+ * @param profileId - Follower's profile ID
+ * @param reportIds - Reports to check
+ * @returns Promise that resolves to the IDs of followed reports
+ */
+export const fetchFollowedReportIds = async (profileId: string, reportIds: string[]): Promise<string[]> => {
+  if (reportIds.length === 0) return []
+
+  try {
+    const { data, error } = await supabase
+      .from('report_followers')
+      .select('report_id')
+      .eq('profile_id', profileId)
+      .in('report_id', reportIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch followed reports: ${error.message}`)
+    }
+
+    return (data || []).map((row) => row.report_id)
+  } catch (error) {
+    console.error('Error fetching followed reports:', error)
+    throw error
+  }
+}
+
+/**
+ * +1 and follow an existing report instead of filing a duplicate
+ * @param reportId - Report to follow
+ * @param profileId - Follower's profile ID
+ */
+export const followReport = async (reportId: string, profileId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_followers')
+      .insert({ report_id: reportId, profile_id: profileId })
+
+    if (error) {
+      throw new Error(`Failed to follow report: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error following report:', error)
+    throw error
+  }
+}
+
+/**
+ * Stop following a report, removing the +1
+ * @param reportId - Report to unfollow
+ * @param profileId - Follower's profile ID
+ */
+export const unfollowReport = async (reportId: string, profileId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_followers')
+      .delete()
+      .eq('report_id', reportId)
+      .eq('profile_id', profileId)
+
+    if (error) {
+      throw new Error(`Failed to unfollow report: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error unfollowing report:', error)
+    throw error
+  }
+}
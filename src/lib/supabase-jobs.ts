@@ -0,0 +1,174 @@
+// lib/supabase-jobs.ts
+import { supabase, type Profile, type Report } from './supabase'
+import type { Tables } from './database.types'
+import { fetchReportsNearLocation, type LocationReport, type UserLocation } from './supabase-location'
+
+export type JobBidStatus = Tables<'job_bids'>['status']
+
+export type JobBid = Tables<'job_bids'> & {
+  contractor?: Pick<Profile, 'name' | 'profession'>
+  report?: Pick<Report, 'id' | 'profile_id' | 'location_string' | 'description' | 'status' | 'assigned_contractor_id'> | null
+}
+
+export interface NewJobBid {
+  reportId: string
+  contractorId: string
+  price: number
+  etaDays: number
+  message?: string
+}
+
+/**
+ * Fetch reports that are still open for bids near a contractor's service area
+ * @param serviceLocation - Centre of the contractor's service area
+ * @param radiusKm - Service radius in kilometers (default: 10)
+ * @param limit - Maximum number of jobs to return
+ * @param offset - Number of jobs to skip (for pagination)
+ * @returns Promise that resolves to pending reports, nearest first
+ */
+export const fetchAvailableJobs = async (
+  serviceLocation: UserLocation,
+  radiusKm: number = 10,
+  limit?: number,
+  offset: number = 0
+): Promise<LocationReport[]> => {
+  return fetchReportsNearLocation(serviceLocation, radiusKm, 'pending', limit, offset)
+}
+
+/**
+ * Submit a bid on a pending report
+ * @param bid - Bid details
+ * @returns Promise that resolves to the created bid
+ */
+export const submitJobBid = async (bid: NewJobBid): Promise<JobBid> => {
+  try {
+    const { data, error } = await supabase
+      .from('job_bids')
+      .insert({
+        report_id: bid.reportId,
+        contractor_id: bid.contractorId,
+        price: bid.price,
+        eta_days: bid.etaDays,
+        message: bid.message?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('You have already placed a bid on this job')
+      }
+      throw new Error(`Failed to submit bid: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error submitting bid:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch all bids placed on a report, cheapest first
+ * @param reportId - Report ID
+ * @returns Promise that resolves to array of bids with contractor details
+ */
+export const fetchBidsForReport = async (reportId: string): Promise<JobBid[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('job_bids')
+      .select(`
+        *,
+        contractor:public_contractor_profiles!job_bids_contractor_id_fkey (
+          name,
+          profession
+        )
+      `)
+      .eq('report_id', reportId)
+      .neq('status', 'withdrawn')
+      .order('price', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch bids: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching bids for report:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the bids a contractor has placed, newest first
+ * @param contractorId - Contractor's profile ID
+ * @returns Promise that resolves to array of bids with report details
+ */
+export const fetchContractorBids = async (contractorId: string): Promise<JobBid[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('job_bids')
+      .select(`
+        *,
+        report:reports (
+          id,
+          profile_id,
+          location_string,
+          description,
+          status,
+          assigned_contractor_id
+        )
+      `)
+      .eq('contractor_id', contractorId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch bids: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching contractor bids:', error)
+    throw error
+  }
+}
+
+/**
+ * Accept a bid, assigning its contractor and moving the report to in_progress
+ * @param bidId - Bid ID
+ * @returns Promise that resolves to the accepted bid
+ */
+export const acceptJobBid = async (bidId: string): Promise<JobBid> => {
+  try {
+    const { data, error } = await supabase.rpc('accept_job_bid', { bid_id: bidId })
+
+    if (error) {
+      throw new Error(`Failed to accept bid: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error accepting bid:', error)
+    throw error
+  }
+}
+
+/**
+ * Withdraw a pending bid
+ * @param bidId - Bid ID
+ */
+export const withdrawJobBid = async (bidId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('job_bids')
+      .update({ status: 'withdrawn', updated_at: new Date().toISOString() })
+      .eq('id', bidId)
+
+    if (error) {
+      throw new Error(`Failed to withdraw bid: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error withdrawing bid:', error)
+    throw error
+  }
+}
@@ -1,22 +1,18 @@
 // lib/supabase-location.ts
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { supabase, type Profile } from './supabase'
+import type { FunctionReturns } from './database.types'
+import type { ReportCategoryFilter } from './report-categories'
 
-export interface LocationReport {
-  id: string
-  profile_id: string
-  location_string: string
-  description: string
-  latitude: number
-  longitude: number
-  address: string | null
-  photo_urls: string[] | null
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed'
-  created_at: string
-  updated_at: string
+/**
+ * Row shape returned by the `reports_near_location` database function
+ */
+type ReportNearLocationRow = FunctionReturns<'reports_near_location'>[number]
+
+// A report that has coordinates, as shown on maps and in nearby lists
+export type LocationReport = Omit<ReportNearLocationRow, 'distance_km' | 'reporter_name'> & {
+  assigned_contractor_id?: string | null
   distance?: number
-  profiles?: {
-    name: string
-  }
+  profiles?: Pick<Profile, 'name'>
 }
 
 export interface UserLocation {
@@ -255,72 +251,44 @@ export const getAddressFromCoordinates = async (
 
 /**
  * Fetch reports within a specified radius of a location
+ * Distance filtering, ordering and pagination run server-side via PostGIS
  * @param userLocation - User's current location
  * @param radiusKm - Search radius in kilometers (default: 5)
  * @param status - Optional status filter
  * @param limit - Maximum number of reports to return
- * @returns Promise that resolves to array of reports with distance
+ * @param offset - Number of reports to skip (for pagination)
+ * @param filters - Optional category and severity filters
+ * @returns Promise that resolves to array of reports with distance, nearest first
  */
 export const fetchReportsNearLocation = async (
   userLocation: UserLocation,
   radiusKm: number = 5,
-  status?: string,
-  limit?: number
+  status?: LocationReport['status'],
+  limit?: number,
+  offset: number = 0,
+  filters: ReportCategoryFilter = {}
 ): Promise<LocationReport[]> => {
-  const supabase = createClientComponentClient()
-
   try {
-    // Convert radius from km to degrees (approximate)
-    // 1 degree ≈ 111 km at equator
-    const radiusInDegrees = radiusKm / 111
-
-    let query = supabase
-      .from('reports')
-      .select(`
-        *,
-        profiles (
-          name
-        )
-      `)
-      .not('latitude', 'is', null)
-      .not('longitude', 'is', null)
-      .gte('latitude', userLocation.latitude - radiusInDegrees)
-      .lte('latitude', userLocation.latitude + radiusInDegrees)
-      .gte('longitude', userLocation.longitude - radiusInDegrees)
-      .lte('longitude', userLocation.longitude + radiusInDegrees)
-      .order('created_at', { ascending: false })
-
-    // Add status filter if provided
-    if (status) {
-      query = query.eq('status', status)
-    }
-
-    // Add limit if provided
-    if (limit) {
-      query = query.limit(limit)
-    }
-
-    const { data, error } = await query
+    const { data, error } = await supabase.rpc('reports_near_location', {
+      search_latitude: userLocation.latitude,
+      search_longitude: userLocation.longitude,
+      radius_km: radiusKm,
+      status_filter: status ?? null,
+      page_limit: limit ?? null,
+      page_offset: offset,
+      category_filter: filters.category ?? null,
+      severity_filter: filters.severity ?? null
+    })
 
     if (error) {
       throw new Error(`Failed to fetch reports: ${error.message}`)
     }
 
-    // Filter by exact distance and add distance to each report
-    const reportsWithDistance = (data || [])
-      .map(report => ({
-        ...report,
-        distance: calculateDistance(
-          userLocation.latitude,
-          userLocation.longitude,
-          Number(report.latitude),
-          Number(report.longitude)
-        )
-      }))
-      .filter(report => report.distance <= radiusKm)
-      .sort((a, b) => a.distance - b.distance)
-
-    return reportsWithDistance
+    return (data || []).map(({ distance_km, reporter_name, ...report }) => ({
+      ...report,
+      distance: distance_km,
+      profiles: reporter_name ? { name: reporter_name } : undefined
+    }))
   } catch (error) {
     console.error('Error fetching nearby reports:', error)
     throw error
@@ -337,10 +305,8 @@ export const fetchReportsNearLocation = async (
 export const fetchReportsInBoundingBox = async (
   userLocation: UserLocation,
   radiusKm: number,
-  status?: string
+  status?: LocationReport['status']
 ): Promise<LocationReport[]> => {
-  const supabase = createClientComponentClient()
-
   try {
     const radiusInDegrees = radiusKm / 111
 
@@ -355,7 +321,7 @@ export const fetchReportsInBoundingBox = async (
       .from('reports')
       .select(`
         *,
-        profiles (
+        profiles!reports_profile_id_fkey (
           name
         )
       `)
@@ -377,7 +343,12 @@ export const fetchReportsInBoundingBox = async (
       throw new Error(`Failed to fetch reports: ${error.message}`)
     }
 
-    return data || []
+    // Rows without coordinates were filtered out above
+    return (data || []).map(({ latitude, longitude, ...report }) => ({
+      ...report,
+      latitude: latitude!,
+      longitude: longitude!
+    }))
   } catch (error) {
     console.error('Error fetching reports in bounding box:', error)
     throw error
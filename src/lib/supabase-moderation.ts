@@ -0,0 +1,386 @@
+// lib/supabase-moderation.ts
+// Admin-only actions. The database functions check the caller is an admin,
+// so these fail for everyone else even if the console is reached somehow.
+import { supabase, type Profile, type Report } from './supabase'
+import type { Tables } from './database.types'
+import type { JobBid } from './supabase-jobs'
+import { withCommentPhotoUrls, type CommentPhotoUrls } from './supabase-report-comments'
+import type { ReportStatus } from './supabase-report-status'
+import type { ProfileRole } from './route-access'
+
+export type ModerationReport = Report & {
+  reporter: Pick<Profile, 'id' | 'name'> | null
+  assigned_contractor: Pick<Profile, 'id' | 'name'> | null
+  bids: (Pick<JobBid, 'id' | 'contractor_id' | 'price' | 'eta_days' | 'status'> & {
+    contractor: Pick<Profile, 'name'> | null
+  })[]
+}
+
+export type FlaggedComment = Omit<Tables<'report_comments'>, 'photo_paths' | 'thumbnail_paths'> & CommentPhotoUrls & {
+  author: Pick<Profile, 'id' | 'name'> | null
+  flags: (Pick<Tables<'report_comment_flags'>, 'profile_id' | 'reason' | 'created_at'> & {
+    flagger: Pick<Profile, 'name'> | null
+  })[]
+}
+
+export type VisibilityFilter = 'visible' | 'hidden' | 'all'
+
+export interface ModerationFilters {
+  status?: ReportStatus
+  visibility?: VisibilityFilter
+  search?: string
+}
+
+export const PROFILE_ROLES: ProfileRole[] = ['Citizen', 'Contractor', 'Admin']
+
+/**
+ * Fetch reports for the moderation queue, newest first
+ * @param filters - Status, visibility and text filters
+ * @param limit - Maximum number of reports to return
+ * @returns Promise that resolves to reports with their people and bids
+ */
+export const fetchModerationReports = async (
+  filters: ModerationFilters = {},
+  limit: number = 50
+): Promise<ModerationReport[]> => {
+  try {
+    let query = supabase
+      .from('reports')
+      .select(`
+        *,
+        reporter:profiles!reports_profile_id_fkey (
+          id,
+          name
+        ),
+        assigned_contractor:profiles!reports_assigned_contractor_id_fkey (
+          id,
+          name
+        ),
+        bids:job_bids (
+          id,
+          contractor_id,
+          price,
+          eta_days,
+          status,
+          contractor:profiles (
+            name
+          )
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+
+    if (filters.visibility === 'visible') {
+      query = query.is('hidden_at', null)
+    } else if (filters.visibility === 'hidden') {
+      query = query.not('hidden_at', 'is', null)
+    }
+
+    const search = filters.search?.trim()
+    if (search) {
+      // Commas and parentheses would break the or() filter syntax
+      const term = search.replace(/[,()]/g, ' ')
+      query = query.or(`description.ilike.%${term}%,location_string.ilike.%${term}%,address.ilike.%${term}%`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch reports: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching moderation reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch contractors who can be given work
+ * @returns Promise that resolves to active contractors, by name
+ */
+export const fetchAssignableContractors = async (): Promise<Pick<Profile, 'id' | 'name' | 'profession'>[]> => {
+  try {
+    // Only verified contractors can be assigned work
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, name, profession, contractor_profiles!contractor_profiles_profile_id_fkey!inner(verification_status)')
+      .eq('role', 'Contractor')
+      .is('suspended_at', null)
+      .eq('contractor_profiles.verification_status', 'verified')
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch contractors: ${error.message}`)
+    }
+
+    return (data || []).map(({ id, name, profession }) => ({ id, name, profession }))
+  } catch (error) {
+    console.error('Error fetching contractors:', error)
+    throw error
+  }
+}
+
+/**
+ * Assign an open report to a contractor, accepting their bid if they made one
+ * @param reportId - Report ID
+ * @param contractorId - Contractor's profile ID
+ * @param price - Agreed price, required when the contractor has not bid
+ * @param note - Optional note shown on the timeline
+ * @returns Promise that resolves to the updated report
+ */
+export const assignReport = async (
+  reportId: string,
+  contractorId: string,
+  price?: number,
+  note?: string
+): Promise<Report> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_assign_report', {
+      target_report_id: reportId,
+      new_contractor_id: contractorId,
+      default_price: price ?? null,
+      note: note?.trim() || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to assign report: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error assigning report:', error)
+    throw error
+  }
+}
+
+/**
+ * Close a report as a duplicate; its reporter and followers follow the original instead
+ * @param duplicateReportId - Report to close
+ * @param originalReportId - Report it duplicates
+ * @returns Promise that resolves to the closed duplicate
+ */
+export const mergeDuplicateReport = async (
+  duplicateReportId: string,
+  originalReportId: string
+): Promise<Report> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_merge_duplicate_report', {
+      duplicate_report_id: duplicateReportId,
+      original_report_id: originalReportId
+    })
+
+    if (error) {
+      throw new Error(`Failed to merge reports: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error merging reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Hide a report from the public, or show it again
+ * @param reportId - Report ID
+ * @param hidden - Whether the report should be hidden
+ * @param reason - Why it was hidden, kept for other admins
+ * @returns Promise that resolves to the updated report
+ */
+export const setReportHidden = async (
+  reportId: string,
+  hidden: boolean,
+  reason?: string
+): Promise<Report> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_set_report_hidden', {
+      target_report_id: reportId,
+      hidden,
+      reason: reason?.trim() || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to update report visibility: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error updating report visibility:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch comments that people have flagged, newest first
+ * @param limit - Maximum number of comments to return
+ * @returns Promise that resolves to flagged comments with their author and flags
+ */
+export const fetchFlaggedComments = async (limit: number = 50): Promise<FlaggedComment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .select(`
+        *,
+        author:profiles!report_comments_profile_id_fkey (
+          id,
+          name
+        ),
+        flags:report_comment_flags!inner (
+          profile_id,
+          reason,
+          created_at,
+          flagger:profiles (
+            name
+          )
+        )
+      `)
+      .is('deleted_at', null)
+      .is('hidden_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch flagged comments: ${error.message}`)
+    }
+
+    return (data || []).map((comment) => withCommentPhotoUrls(comment))
+  } catch (error) {
+    console.error('Error fetching flagged comments:', error)
+    throw error
+  }
+}
+
+/**
+ * Hide a comment from everyone but its author, or show it again
+ * @param commentId - Comment ID
+ * @param hidden - Whether the comment should be hidden
+ * @param reason - Why it was hidden, shown to its author
+ * @returns Promise that resolves to the updated comment
+ */
+export const setCommentHidden = async (
+  commentId: string,
+  hidden: boolean,
+  reason?: string
+): Promise<Tables<'report_comments'>> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_set_comment_hidden', {
+      target_comment_id: commentId,
+      hidden,
+      reason: reason?.trim() || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to update comment visibility: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error updating comment visibility:', error)
+    throw error
+  }
+}
+
+/**
+ * Clear the flags on a comment that does not need action
+ * @param commentId - Comment ID
+ */
+export const dismissCommentFlags = async (commentId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_comment_flags')
+      .delete()
+      .eq('comment_id', commentId)
+
+    if (error) {
+      throw new Error(`Failed to dismiss flags: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error dismissing flags:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch profiles for user management
+ * @param search - Optional name filter
+ * @param limit - Maximum number of profiles to return
+ * @returns Promise that resolves to profiles, by name
+ */
+export const fetchProfilesForAdmin = async (search?: string, limit: number = 100): Promise<Profile[]> => {
+  try {
+    let query = supabase
+      .from('profiles')
+      .select('*')
+      .order('name', { ascending: true })
+      .limit(limit)
+
+    if (search?.trim()) {
+      query = query.ilike('name', `%${search.trim()}%`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch users: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    throw error
+  }
+}
+
+/**
+ * Change another user's role
+ * @param profileId - Profile ID
+ * @param role - New role
+ * @returns Promise that resolves to the updated profile
+ */
+export const setProfileRole = async (profileId: string, role: ProfileRole): Promise<Profile> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_set_profile_role', {
+      target_profile_id: profileId,
+      new_role: role
+    })
+
+    if (error) {
+      throw new Error(`Failed to change role: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error changing role:', error)
+    throw error
+  }
+}
+
+/**
+ * Suspend another user, or lift their suspension
+ * @param profileId - Profile ID
+ * @param suspended - Whether the user should be suspended
+ * @returns Promise that resolves to the updated profile
+ */
+export const setProfileSuspended = async (profileId: string, suspended: boolean): Promise<Profile> => {
+  try {
+    const { data, error } = await supabase.rpc('admin_set_profile_suspended', {
+      target_profile_id: profileId,
+      suspended
+    })
+
+    if (error) {
+      throw new Error(`Failed to update suspension: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error updating suspension:', error)
+    throw error
+  }
+}
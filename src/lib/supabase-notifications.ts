@@ -0,0 +1,264 @@
+// lib/supabase-notifications.ts
+// The signed-in user's notification inbox and delivery preferences. Rows are
+// created by the database when a report the user is involved in changes.
+import type { RealtimePostgresInsertPayload } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type { Tables } from './database.types'
+import { registerReportServiceWorker } from './offline-reports'
+
+export type Notification = Tables<'notifications'>
+
+export type NotificationPreferences = Pick<Tables<'notification_preferences'>, 'in_app' | 'email' | 'web_push'>
+
+// Must match the column defaults in scripts/migrations/0019-create-notifications.sql
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  in_app: true,
+  email: true,
+  web_push: false
+}
+
+export const NOTIFICATION_INBOX_LIMIT = 20
+
+/**
+ * Fetch the most recent notifications in a user's inbox
+ * @param profileId - Recipient profile ID
+ * @returns Promise that resolves to notifications, newest first
+ */
+export const fetchNotifications = async (profileId: string): Promise<Notification[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_INBOX_LIMIT)
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    throw error
+  }
+}
+
+/**
+ * Count a user's unread notifications, including ones older than the inbox shows
+ * @param profileId - Recipient profile ID
+ * @returns Promise that resolves to the unread count
+ */
+export const countUnreadNotifications = async (profileId: string): Promise<number> => {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('profile_id', profileId)
+      .is('read_at', null)
+
+    if (error) {
+      throw new Error(`Failed to count notifications: ${error.message}`)
+    }
+
+    return count ?? 0
+  } catch (error) {
+    console.error('Error counting notifications:', error)
+    throw error
+  }
+}
+
+/**
+ * Mark notifications as read
+ * @param notificationIds - Notifications to mark, or all of the user's when omitted
+ * @returns Promise that resolves to how many were marked
+ */
+export const markNotificationsRead = async (notificationIds?: string[]): Promise<number> => {
+  try {
+    const { data, error } = await supabase.rpc('mark_notifications_read', {
+      notification_ids: notificationIds ?? null
+    })
+
+    if (error) {
+      throw new Error(`Failed to mark notifications read: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error marking notifications read:', error)
+    throw error
+  }
+}
+
+/**
+ * Subscribe to notifications as they are created for a user
+ * @param profileId - Recipient profile ID
+ * @param onNotification - Called with each new in-app notification
+ * @returns Function that removes the subscription
+ */
+export const subscribeToNotifications = (
+  profileId: string,
+  onNotification: (notification: Notification) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`notifications:${crypto.randomUUID()}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `profile_id=eq.${profileId}` },
+      (payload: RealtimePostgresInsertPayload<Notification>) => {
+        if (payload.new.in_app) {
+          onNotification(payload.new)
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to notifications:', error ?? status)
+      }
+    })
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+/**
+ * Fetch a user's notification preferences
+ * @param profileId - Profile ID
+ * @returns Promise that resolves to the saved preferences, or the defaults if none were saved
+ */
+export const fetchNotificationPreferences = async (profileId: string): Promise<NotificationPreferences> => {
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('in_app, email, web_push')
+      .eq('profile_id', profileId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch notification preferences: ${error.message}`)
+    }
+
+    return data ?? DEFAULT_NOTIFICATION_PREFERENCES
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error)
+    throw error
+  }
+}
+
+/**
+ * Save a user's notification preferences
+ * @param profileId - Profile ID
+ * @param preferences - Channels to deliver on
+ */
+export const saveNotificationPreferences = async (
+  profileId: string,
+  preferences: NotificationPreferences
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        profile_id: profileId,
+        ...preferences,
+        updated_at: new Date().toISOString()
+      })
+
+    if (error) {
+      throw new Error(`Failed to save notification preferences: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error saving notification preferences:', error)
+    throw error
+  }
+}
+
+/**
+ * Whether this browser can receive web push and the server has a VAPID key
+ * @returns True if web push can be enabled
+ */
+export const isWebPushSupported = (): boolean => {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    Boolean(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY)
+  )
+}
+
+const decodeVapidKey = (base64Url: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(base64)
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Ask for permission and register this browser for web push
+ * @param profileId - Profile to deliver to
+ */
+export const enableWebPush = async (profileId: string): Promise<void> => {
+  if (!isWebPushSupported()) {
+    throw new Error('This browser does not support push notifications')
+  }
+
+  if ((await window.Notification.requestPermission()) !== 'granted') {
+    throw new Error('Allow notifications for this site to turn on push')
+  }
+
+  try {
+    // The service worker is only registered in production builds
+    const registration = await registerReportServiceWorker()
+    if (!registration) {
+      throw new Error('Push notifications are only available in production builds')
+    }
+
+    await navigator.serviceWorker.ready
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeVapidKey(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!)
+    })
+
+    const { endpoint, keys } = subscription.toJSON()
+    if (!endpoint || !keys?.p256dh || !keys?.auth) {
+      throw new Error('The browser returned an incomplete push subscription')
+    }
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .upsert({ endpoint, profile_id: profileId, p256dh: keys.p256dh, auth: keys.auth })
+
+    if (error) {
+      throw new Error(`Failed to save push subscription: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error enabling web push:', error)
+    throw error
+  }
+}
+
+/**
+ * Stop web push to this browser
+ */
+export const disableWebPush = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration()
+    const subscription = await registration?.pushManager.getSubscription()
+    if (!subscription) return
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', subscription.endpoint)
+
+    if (error) {
+      throw new Error(`Failed to remove push subscription: ${error.message}`)
+    }
+
+    await subscription.unsubscribe()
+  } catch (error) {
+    console.error('Error disabling web push:', error)
+    throw error
+  }
+}
@@ -0,0 +1,59 @@
+// lib/supabase-payments.ts
+import { supabase } from './supabase'
+
+export interface StartedPayment {
+  transactionId: string
+  checkoutUrl: string
+}
+
+const postWithSession = async <T>(path: string, body: unknown): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session) {
+    throw new Error('You need to be signed in to pay')
+  }
+
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify(body)
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`)
+  }
+
+  return data as T
+}
+
+/**
+ * Start checkout for a pending report contribution
+ * @param transactionId - Pending transaction created with the report
+ * @returns Promise that resolves to the transaction ID and the checkout URL to send the payer to
+ */
+export const startReportPayment = async (transactionId: string): Promise<StartedPayment> => {
+  try {
+    return await postWithSession<StartedPayment>('/api/payments/intent', { transactionId })
+  } catch (error) {
+    console.error('Error starting payment:', error)
+    throw error
+  }
+}
+
+/**
+ * Complete or decline a payment on the local mock provider's checkout page
+ * @param intentId - Mock payment intent ID
+ * @param outcome - Whether the mock card should succeed or fail
+ */
+export const confirmMockPayment = async (intentId: string, outcome: 'succeeded' | 'failed'): Promise<void> => {
+  try {
+    await postWithSession('/api/payments/mock/confirm', { intentId, outcome })
+  } catch (error) {
+    console.error('Error confirming mock payment:', error)
+    throw error
+  }
+}
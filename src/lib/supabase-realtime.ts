@@ -0,0 +1,83 @@
+// lib/supabase-realtime.ts
+// Live report inserts and updates over Supabase Realtime. The reports table is
+// added to the supabase_realtime publication in migration 0018.
+import type { RealtimePostgresInsertPayload, RealtimePostgresUpdatePayload } from '@supabase/supabase-js'
+import { supabase, type Report } from './supabase'
+
+export interface ReportChangeHandlers {
+  onInsert?: (report: Report) => void
+  // Fires for every update, including status changes
+  onUpdate?: (report: Report) => void
+}
+
+export interface ReportSubscriptionOptions {
+  // Only stream reports filed by this profile
+  profileId?: string
+}
+
+/**
+ * Subscribe to new and updated reports
+ * @param handlers - Callbacks for inserted and updated reports
+ * @param options - Optional filter on the reporter
+ * @returns Function that removes the subscription
+ */
+export const subscribeToReportChanges = (
+  handlers: ReportChangeHandlers,
+  options: ReportSubscriptionOptions = {}
+): (() => void) => {
+  const filter = options.profileId ? `profile_id=eq.${options.profileId}` : undefined
+
+  // supabase.channel returns an existing channel with the same topic, so every
+  // subscription gets its own
+  const channel = supabase
+    .channel(`reports:${crypto.randomUUID()}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'reports', filter },
+      (payload: RealtimePostgresInsertPayload<Report>) => handlers.onInsert?.(payload.new)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'reports', filter },
+      (payload: RealtimePostgresUpdatePayload<Report>) => handlers.onUpdate?.(payload.new)
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Error subscribing to report changes:', error ?? status)
+      }
+    })
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+/**
+ * Apply an updated report to a list, keeping fields the list added (e.g. the
+ * reporter's name or distance). Reports that were hidden are dropped.
+ * @param reports - Current list
+ * @param report - Updated report from the subscription
+ * @returns New list, or the same list if the report is not in it
+ */
+export const mergeReportUpdate = <T extends Pick<Report, 'id'>>(reports: T[], report: Report): T[] => {
+  if (!reports.some((current) => current.id === report.id)) {
+    return reports
+  }
+
+  if (report.hidden_at) {
+    return reports.filter((current) => current.id !== report.id)
+  }
+
+  return reports.map((current) => (current.id === report.id ? { ...current, ...report } : current))
+}
+
+/**
+ * Put newly arrived reports at the top of a list without duplicating any
+ * @param reports - Current list
+ * @param newReports - Reports that arrived since the list was loaded, newest first
+ * @returns New list
+ */
+export const prependNewReports = <T extends Pick<Report, 'id'>>(reports: T[], newReports: T[]): T[] => {
+  const newIds = new Set(newReports.map((report) => report.id))
+  return [...newReports, ...reports.filter((report) => !newIds.has(report.id))]
+}
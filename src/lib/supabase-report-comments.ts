@@ -0,0 +1,246 @@
+// lib/supabase-report-comments.ts
+// Threaded discussion on a report. Threads are read through the
+// report_comment_thread function, which adds what the page needs to know about
+// each author and blanks deleted or hidden comments. Photos are stored as
+// paths in the author's folder and turned into URLs here, so a comment can
+// only show images from our own bucket.
+import { supabase, type TypedSupabaseClient } from './supabase'
+import type { FunctionReturns, Tables } from './database.types'
+import {
+  REPORT_IMAGES_BUCKET,
+  isNetworkError,
+  removeUploadedPhotos,
+  uploadReportPhotos,
+  type PhotoUploadOptions,
+} from './supabase-report-submission'
+
+interface CommentPhotoPaths {
+  photo_paths: string[]
+  thumbnail_paths: string[]
+}
+
+export interface CommentPhotoUrls {
+  photo_urls: string[]
+  thumbnail_urls: string[]
+}
+
+export type ReportComment = Omit<FunctionReturns<'report_comment_thread'>[number], keyof CommentPhotoPaths> &
+  CommentPhotoUrls
+
+export type ReportCommentNode = ReportComment & {
+  replies: ReportCommentNode[]
+}
+
+export interface ReportCommentInput {
+  reportId: string
+  profileId: string
+  parentId?: string | null
+  body: string
+  // Already resized and stripped of metadata by processPhoto
+  photos?: File[]
+}
+
+// Must match the checks on report_comments in scripts/migrations/0020-create-report-comments.sql and 0024
+export const MAX_COMMENT_LENGTH = 2000
+export const MAX_COMMENT_PHOTOS = 3
+
+/**
+ * Replace a comment's photo paths with public URLs in the report-images bucket
+ * @param comment - Comment row with photo_paths and thumbnail_paths
+ * @param client - Supabase client whose project hosts the bucket (default: the browser client)
+ * @returns The comment with photo_urls and thumbnail_urls instead of paths
+ */
+export const withCommentPhotoUrls = <T extends CommentPhotoPaths>(
+  { photo_paths, thumbnail_paths, ...comment }: T,
+  client: TypedSupabaseClient = supabase
+): Omit<T, keyof CommentPhotoPaths> & CommentPhotoUrls => {
+  const bucket = client.storage.from(REPORT_IMAGES_BUCKET)
+  const toUrl = (path: string) => bucket.getPublicUrl(path).data.publicUrl
+
+  return {
+    ...comment,
+    photo_urls: photo_paths.map(toUrl),
+    thumbnail_urls: thumbnail_paths.map(toUrl)
+  }
+}
+
+/**
+ * Arrange comments into threads, keeping each level oldest first
+ * @param comments - Comments of one report, oldest first
+ * @returns Top-level comments with their replies nested under them
+ */
+export const buildCommentTree = (comments: ReportComment[]): ReportCommentNode[] => {
+  const nodes = new Map<string, ReportCommentNode>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  )
+  const roots: ReportCommentNode[] = []
+
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+    if (parent) {
+      parent.replies.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Fetch all comments on a report
+ * @param reportId - Report ID
+ * @returns Promise that resolves to the comments, oldest first
+ */
+export const fetchReportComments = async (reportId: string): Promise<ReportComment[]> => {
+  try {
+    const { data, error } = await supabase.rpc('report_comment_thread', {
+      target_report_id: reportId
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch comments: ${error.message}`)
+    }
+
+    return (data || []).map((comment) => withCommentPhotoUrls(comment))
+  } catch (error) {
+    console.error('Error fetching comments:', error)
+    throw error
+  }
+}
+
+const validateCommentBody = (body: string) => {
+  if (!body.trim()) {
+    throw new Error('Write a comment first')
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be up to ${MAX_COMMENT_LENGTH} characters`)
+  }
+}
+
+/**
+ * Upload a comment's photos, then post it
+ * @param input - Report, parent comment, text and photos
+ * @param photoOptions - Earlier uploads and a callback for each photo's progress
+ * @returns Promise that resolves to the new comment
+ */
+export const postReportComment = async (
+  input: ReportCommentInput,
+  photoOptions?: PhotoUploadOptions
+): Promise<Tables<'report_comments'>> => {
+  validateCommentBody(input.body)
+
+  const photos = input.photos ?? []
+  if (photos.length > MAX_COMMENT_PHOTOS) {
+    throw new Error(`You can attach up to ${MAX_COMMENT_PHOTOS} photos`)
+  }
+
+  try {
+    const uploadedPhotos = await uploadReportPhotos(input.profileId, photos, photoOptions)
+
+    const { data, error } = await supabase
+      .from('report_comments')
+      .insert({
+        report_id: input.reportId,
+        profile_id: input.profileId,
+        parent_id: input.parentId ?? null,
+        body: input.body.trim(),
+        photo_paths: uploadedPhotos.map((photo) => photo.storage_path),
+        thumbnail_paths: uploadedPhotos.map((photo) => photo.thumbnail_path ?? photo.storage_path)
+      })
+      .select()
+      .single()
+
+    if (error) {
+      // Nothing refers to the uploads, so they would be orphaned
+      if (!isNetworkError(error)) {
+        await removeUploadedPhotos(uploadedPhotos)
+      }
+      throw new Error(`Failed to post comment: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error posting comment:', error)
+    throw error
+  }
+}
+
+/**
+ * Change the text of your own comment
+ * @param commentId - Comment ID
+ * @param body - New text
+ * @returns Promise that resolves to the updated comment
+ */
+export const editReportComment = async (commentId: string, body: string): Promise<Tables<'report_comments'>> => {
+  validateCommentBody(body)
+
+  try {
+    const { data, error } = await supabase
+      .from('report_comments')
+      .update({ body: body.trim() })
+      .eq('id', commentId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to edit comment: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error editing comment:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a comment. Replies stay in the thread under a "deleted" placeholder.
+ * @param commentId - Comment ID; authors can delete their own, admins any
+ * @returns Promise that resolves to the deleted comment
+ */
+export const deleteReportComment = async (commentId: string): Promise<Tables<'report_comments'>> => {
+  try {
+    const { data, error } = await supabase.rpc('delete_report_comment', {
+      target_comment_id: commentId
+    })
+
+    if (error) {
+      throw new Error(`Failed to delete comment: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error deleting comment:', error)
+    throw error
+  }
+}
+
+/**
+ * Flag a comment for the moderators
+ * @param commentId - Comment ID
+ * @param profileId - Profile of the person flagging it
+ * @param reason - Optional reason shown to moderators
+ */
+export const flagReportComment = async (commentId: string, profileId: string, reason?: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_comment_flags')
+      .insert({
+        comment_id: commentId,
+        profile_id: profileId,
+        reason: reason?.trim() || null
+      })
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('You have already flagged this comment')
+      }
+      throw new Error(`Failed to flag comment: ${error.message}`)
+    }
+  } catch (error) {
+    console.error('Error flagging comment:', error)
+    throw error
+  }
+}
@@ -0,0 +1,119 @@
+// lib/supabase-report-resolution.ts
+// Contractors resolve a report by submitting "after" photos and a completion
+// note; the database refuses to mark a report resolved without them. The
+// photos are stored as paths in the contractor's folder and read as URLs.
+import { supabase, type Profile, type Report, type TypedSupabaseClient } from './supabase'
+import type { Tables } from './database.types'
+import {
+  getReportImageUrl,
+  isNetworkError,
+  removeUploadedPhotos,
+  uploadReportPhotos,
+  type PhotoUploadOptions,
+} from './supabase-report-submission'
+
+type ResolutionPhotoPaths = Pick<Tables<'report_resolutions'>, 'photo_paths' | 'thumbnail_paths'>
+
+export type ReportResolution = Omit<Tables<'report_resolutions'>, keyof ResolutionPhotoPaths> & {
+  photo_urls: string[]
+  thumbnail_urls: string[]
+  contractor?: Pick<Profile, 'name'> | null
+}
+
+export interface ResolutionEvidenceInput {
+  reportId: string
+  contractorId: string
+  note: string
+  // Already resized and stripped of metadata by processPhoto
+  photos: File[]
+}
+
+export const MAX_RESOLUTION_PHOTOS = 5
+
+/**
+ * Replace a resolution's photo paths with public URLs in the report-images bucket
+ * @param resolution - Resolution row with photo_paths and thumbnail_paths
+ * @param client - Supabase client whose project hosts the bucket (default: the browser client)
+ * @returns The resolution with photo_urls and thumbnail_urls instead of paths
+ */
+export const withResolutionPhotoUrls = <T extends ResolutionPhotoPaths>(
+  { photo_paths, thumbnail_paths, ...resolution }: T,
+  client: TypedSupabaseClient = supabase
+): Omit<T, keyof ResolutionPhotoPaths> & Pick<ReportResolution, 'photo_urls' | 'thumbnail_urls'> => ({
+  ...resolution,
+  photo_urls: photo_paths.map((path) => getReportImageUrl(path, client)),
+  thumbnail_urls: thumbnail_paths.map((path) => getReportImageUrl(path, client))
+})
+
+/**
+ * Upload the after photos, then save them with the completion note and mark the report resolved
+ * @param input - Report, note and photos
+ * @param photoOptions - Earlier uploads and a callback for each photo's progress
+ * @returns Promise that resolves to the resolved report
+ */
+export const resolveReportWithEvidence = async (
+  input: ResolutionEvidenceInput,
+  photoOptions?: PhotoUploadOptions
+): Promise<Report> => {
+  if (!input.note.trim()) {
+    throw new Error('Describe the work you did')
+  }
+
+  if (input.photos.length === 0) {
+    throw new Error('Add at least one photo of the finished work')
+  }
+
+  try {
+    const uploadedPhotos = await uploadReportPhotos(input.contractorId, input.photos, photoOptions)
+
+    const { data, error } = await supabase.rpc('resolve_report', {
+      target_report_id: input.reportId,
+      completion_note: input.note.trim(),
+      new_photos: uploadedPhotos,
+    })
+
+    if (error) {
+      // Nothing refers to the uploads, so they would be orphaned
+      if (!isNetworkError(error)) {
+        await removeUploadedPhotos(uploadedPhotos)
+      }
+      throw new Error(`Failed to resolve report: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error resolving report:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the latest resolution evidence for a report
+ * @param reportId - Report ID
+ * @returns Promise that resolves to the evidence, or null if the report was never resolved
+ */
+export const fetchLatestReportResolution = async (reportId: string): Promise<ReportResolution | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('report_resolutions')
+      .select(`
+        *,
+        contractor:public_contractor_profiles!report_resolutions_contractor_id_fkey (
+          name
+        )
+      `)
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch resolution: ${error.message}`)
+    }
+
+    return data && withResolutionPhotoUrls(data)
+  } catch (error) {
+    console.error('Error fetching report resolution:', error)
+    throw error
+  }
+}
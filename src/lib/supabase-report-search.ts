@@ -0,0 +1,124 @@
+// lib/supabase-report-search.ts
+// Full-text report search for Locate Specific Report. Matching, ranking,
+// paging and facet counts all run in the search_reports functions, and every
+// filter is passed as an RPC argument rather than built into a query string.
+import { supabase } from './supabase'
+import type { FunctionReturns } from './database.types'
+import type { ReportCategory, ReportSeverity } from './report-categories'
+import type { UserLocation } from './supabase-location'
+import type { ReportStatus } from './supabase-report-status'
+
+/**
+ * Row shape returned by the `search_reports` database function
+ */
+export type ReportSearchResult = FunctionReturns<'search_reports'>[number]
+
+export type ReportSearchSort = 'relevance' | 'newest' | 'distance'
+
+export interface ReportSearchFilters {
+  text?: string
+  status?: ReportStatus
+  category?: ReportCategory
+  severity?: ReportSeverity
+  // ISO timestamps; createdBefore is exclusive
+  createdAfter?: string
+  createdBefore?: string
+  // Both are needed to filter or sort by distance
+  origin?: UserLocation
+  radiusKm?: number
+  sortBy?: ReportSearchSort
+}
+
+export interface ReportSearchPage {
+  reports: ReportSearchResult[]
+  totalCount: number
+}
+
+export interface ReportSearchFacets {
+  status: Partial<Record<ReportStatus, number>>
+  category: Partial<Record<ReportCategory, number>>
+}
+
+export const REPORT_SEARCH_PAGE_SIZE = 20
+
+// Arguments shared by the search and facet functions
+const toSearchArgs = (filters: ReportSearchFilters) => ({
+  search_text: filters.text?.trim() || null,
+  status_filter: filters.status ?? null,
+  category_filter: filters.category ?? null,
+  severity_filter: filters.severity ?? null,
+  created_after: filters.createdAfter ?? null,
+  created_before: filters.createdBefore ?? null,
+  search_latitude: filters.origin?.latitude ?? null,
+  search_longitude: filters.origin?.longitude ?? null,
+  radius_km: filters.origin ? filters.radiusKm ?? null : null
+})
+
+/**
+ * Search reports by text across the location, address and description
+ * Every word is matched as a prefix, so "oak ave" finds "Oak Avenue"
+ * @param filters - Search text, facet filters and sort order
+ * @param page - Zero-based page number
+ * @param pageSize - Reports per page (at most 100)
+ * @returns Promise that resolves to one page of results and the total number of matches
+ */
+export const searchReports = async (
+  filters: ReportSearchFilters,
+  page: number = 0,
+  pageSize: number = REPORT_SEARCH_PAGE_SIZE
+): Promise<ReportSearchPage> => {
+  try {
+    const { data, error } = await supabase.rpc('search_reports', {
+      ...toSearchArgs(filters),
+      sort_by: filters.sortBy ?? 'relevance',
+      page_limit: pageSize,
+      page_offset: page * pageSize
+    })
+
+    if (error) {
+      throw new Error(`Failed to search reports: ${error.message}`)
+    }
+
+    const reports = data || []
+
+    return {
+      reports,
+      // Every row carries the same count; past the last page there are none to carry it
+      totalCount: Number(reports[0]?.total_count ?? 0)
+    }
+  } catch (error) {
+    console.error('Error searching reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Count matching reports per status and category
+ * Each facet ignores its own filter, so the counts show what picking another value would find
+ * @param filters - The same filters passed to searchReports
+ * @returns Promise that resolves to report counts keyed by status and by category
+ */
+export const fetchReportSearchFacets = async (filters: ReportSearchFilters): Promise<ReportSearchFacets> => {
+  try {
+    const { data, error } = await supabase.rpc('search_report_facets', toSearchArgs(filters))
+
+    if (error) {
+      throw new Error(`Failed to fetch search facets: ${error.message}`)
+    }
+
+    const facets: ReportSearchFacets = { status: {}, category: {} }
+
+    for (const row of data || []) {
+      if (row.facet === 'status') {
+        facets.status[row.value as ReportStatus] = Number(row.report_count)
+      } else {
+        facets.category[row.value as ReportCategory] = Number(row.report_count)
+      }
+    }
+
+    return facets
+  } catch (error) {
+    console.error('Error fetching search facets:', error)
+    throw error
+  }
+}
@@ -0,0 +1,132 @@
+// lib/supabase-report-status.ts
+import { supabase, type Report } from './supabase'
+import type { Tables } from './database.types'
+
+export type ReportStatus = Report['status']
+
+export type StatusActor = 'reporter' | 'assigned_contractor'
+
+export interface StatusTransition {
+  to: ReportStatus
+  actor: StatusActor
+  label: string
+  // Transitions that only happen as a side effect of another action (e.g. accepting a bid)
+  implicit?: boolean
+}
+
+// actor_name and actor_role are copied onto the row when it is written,
+// since most viewers cannot read the actor's profile
+export type ReportStatusHistoryEntry = Tables<'report_status_history'>
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed'
+}
+
+/**
+ * The report state machine. Must stay in sync with
+ * `can_transition_report_status` in scripts/migrations/0006-create-report-status-history.sql
+ */
+export const REPORT_STATUS_TRANSITIONS: Record<ReportStatus, StatusTransition[]> = {
+  pending: [
+    { to: 'in_progress', actor: 'reporter', label: 'Accept a bid', implicit: true },
+    { to: 'closed', actor: 'reporter', label: 'Withdraw report' }
+  ],
+  in_progress: [
+    { to: 'resolved', actor: 'assigned_contractor', label: 'Mark as resolved' },
+    { to: 'pending', actor: 'assigned_contractor', label: 'Release job' }
+  ],
+  resolved: [
+    { to: 'closed', actor: 'reporter', label: 'Confirm fix and close' },
+    { to: 'in_progress', actor: 'reporter', label: 'Reopen — not fixed' }
+  ],
+  closed: []
+}
+
+/**
+ * Work out which state machine roles a user holds on a report
+ * @param report - Report to check
+ * @param profileId - Profile ID of the current user
+ * @returns Array of roles the user holds
+ */
+export const getStatusActors = (
+  report: Pick<Report, 'profile_id' | 'assigned_contractor_id'>,
+  profileId: string
+): StatusActor[] => {
+  const actors: StatusActor[] = []
+  if (report.profile_id === profileId) actors.push('reporter')
+  if (report.assigned_contractor_id && report.assigned_contractor_id === profileId) actors.push('assigned_contractor')
+  return actors
+}
+
+/**
+ * Get the transitions a user may trigger directly on a report
+ * @param report - Report to check
+ * @param profileId - Profile ID of the current user
+ * @returns Array of allowed transitions
+ */
+export const getAllowedTransitions = (
+  report: Pick<Report, 'status' | 'profile_id' | 'assigned_contractor_id'>,
+  profileId: string
+): StatusTransition[] => {
+  const actors = getStatusActors(report, profileId)
+  return REPORT_STATUS_TRANSITIONS[report.status].filter(
+    (transition) => !transition.implicit && actors.includes(transition.actor)
+  )
+}
+
+/**
+ * Move a report to a new status, recording the change in its history
+ * @param reportId - Report ID
+ * @param nextStatus - Status to move to
+ * @param note - Optional note shown on the timeline
+ * @returns Promise that resolves to the updated report
+ */
+export const transitionReportStatus = async (
+  reportId: string,
+  nextStatus: ReportStatus,
+  note?: string
+): Promise<Report> => {
+  try {
+    const { data, error } = await supabase.rpc('transition_report_status', {
+      target_report_id: reportId,
+      next_status: nextStatus,
+      note: note?.trim() || null
+    })
+
+    if (error) {
+      throw new Error(`Failed to update report status: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error updating report status:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the status history of a report, oldest first
+ * @param reportId - Report ID
+ * @returns Promise that resolves to array of history entries
+ */
+export const fetchReportStatusHistory = async (reportId: string): Promise<ReportStatusHistoryEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('report_status_history')
+      .select('*')
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch status history: ${error.message}`)
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error fetching report status history:', error)
+    throw error
+  }
+}
@@ -0,0 +1,317 @@
+// lib/supabase-report-submission.ts
+import { supabase, type TypedSupabaseClient } from './supabase'
+import type { FunctionReturns, Tables } from './database.types'
+import type { ReportCategory, ReportSeverity } from './report-categories'
+import { createThumbnail } from './image-processing'
+
+export interface IncidentReportInput {
+  // Generated on the client so a replayed submission cannot create a second report
+  id: string
+  profileId: string
+  location: string
+  description: string
+  category: ReportCategory
+  severity: ReportSeverity
+  latitude: number | null
+  longitude: number | null
+  address?: string
+  // Already resized and stripped of metadata by processPhoto
+  photos: File[]
+  contributionAmount: number
+}
+
+// Photo metadata passed to create_report_with_transaction; the public URLs are built from the paths when read
+export type UploadedReportPhoto = {
+  storage_path: string
+  thumbnail_path: string | null
+  content_type: string | null
+  size_bytes: number
+}
+
+export type PhotoUploadState =
+  | { status: 'waiting' }
+  | { status: 'uploading'; percent: number }
+  | { status: 'uploaded'; photo: UploadedReportPhoto }
+  | { status: 'failed'; error: string }
+
+export interface PhotoUploadOptions {
+  // Photos uploaded by an earlier attempt, by position; these are not uploaded again
+  uploaded?: (UploadedReportPhoto | null)[]
+  onStateChange?: (index: number, state: PhotoUploadState) => void
+}
+
+export type ReportPhoto = Tables<'report_photos'>
+
+export type CreatedIncidentReport = FunctionReturns<'create_report_with_transaction'>
+
+/**
+ * Check whether an error was caused by a missing connection rather than the server rejecting the request
+ * @param error - Error thrown while submitting
+ * @returns True when the submission should be queued and retried later
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+export const REPORT_IMAGES_BUCKET = 'report-images'
+const MAX_UPLOAD_ATTEMPTS = 3
+const UPLOAD_RETRY_DELAY_MS = 1000
+
+/**
+ * Build the public URL of a photo stored in the report-images bucket
+ * @param path - Path of the photo in the bucket
+ * @param client - Supabase client whose project hosts the bucket (default: the browser client)
+ * @returns Public URL of the photo
+ */
+export const getReportImageUrl = (path: string, client: TypedSupabaseClient = supabase): string =>
+  client.storage.from(REPORT_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl
+
+/**
+ * Upload a file through a signed upload URL so progress can be reported
+ * @param path - Path in the report-images bucket
+ * @param file - File to upload
+ * @param onProgress - Called with the fraction of bytes sent, between 0 and 1
+ */
+const uploadWithProgress = async (
+  path: string,
+  file: File,
+  onProgress: (fraction: number) => void
+): Promise<void> => {
+  const { data, error } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .createSignedUploadUrl(path)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  // supabase-js uses fetch, which cannot report upload progress
+  await new Promise<void>((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    request.open('PUT', data.signedUrl)
+    request.setRequestHeader('x-upsert', 'false')
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total)
+      }
+    }
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve()
+        return
+      }
+
+      let message = request.statusText || `HTTP ${request.status}`
+      try {
+        message = JSON.parse(request.responseText).message ?? message
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new Error(message))
+    }
+    request.onerror = () => reject(new Error('Network request failed'))
+
+    const body = new FormData()
+    body.append('cacheControl', '3600')
+    body.append('', file)
+    request.send(body)
+  })
+}
+
+/**
+ * Retry an upload a few times, waiting longer after each failure
+ * @param upload - Upload to attempt
+ */
+const withRetry = async <T>(upload: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await upload()
+    } catch (error) {
+      if (attempt >= MAX_UPLOAD_ATTEMPTS) throw error
+      await new Promise((resolve) => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS * attempt))
+    }
+  }
+}
+
+/**
+ * Upload one report photo and its thumbnail to the report-images bucket
+ * @param profileId - Reporter's profile ID, used as the storage folder
+ * @param photo - Processed photo to upload
+ * @param onProgress - Called with the percentage uploaded
+ * @returns Promise that resolves to the uploaded photo metadata
+ */
+export const uploadReportPhoto = async (
+  profileId: string,
+  photo: File,
+  onProgress?: (percent: number) => void
+): Promise<UploadedReportPhoto> => {
+  const name = crypto.randomUUID()
+  const filePath = `${profileId}/${name}.jpg`
+  const thumbnailPath = `${profileId}/thumbnails/${name}.jpg`
+
+  try {
+    const thumbnail = await createThumbnail(photo)
+    const totalBytes = photo.size + thumbnail.size
+
+    await withRetry(() => uploadWithProgress(filePath, photo, (fraction) => {
+      onProgress?.(Math.round((fraction * photo.size / totalBytes) * 100))
+    }))
+    await withRetry(() => uploadWithProgress(thumbnailPath, thumbnail, (fraction) => {
+      onProgress?.(Math.round(((photo.size + fraction * thumbnail.size) / totalBytes) * 100))
+    }))
+
+    return {
+      storage_path: filePath,
+      thumbnail_path: thumbnailPath,
+      content_type: photo.type || null,
+      size_bytes: photo.size,
+    }
+  } catch (error) {
+    console.error('Error uploading report photo:', error)
+    throw new Error(`Failed to upload ${photo.name}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Upload report photos to the report-images bucket, skipping any uploaded by an earlier attempt
+ * @param profileId - Reporter's profile ID, used as the storage folder
+ * @param photos - Processed photos to upload
+ * @param options - Earlier uploads and a callback for each photo's progress
+ * @returns Promise that resolves to the uploaded photo metadata in upload order
+ */
+export const uploadReportPhotos = async (
+  profileId: string,
+  photos: File[],
+  options: PhotoUploadOptions = {}
+): Promise<UploadedReportPhoto[]> => {
+  const { uploaded = [], onStateChange } = options
+
+  const results = await Promise.allSettled(
+    photos.map(async (photo, index) => {
+      const existing = uploaded[index]
+      if (existing) return existing
+
+      onStateChange?.(index, { status: 'uploading', percent: 0 })
+      try {
+        const result = await uploadReportPhoto(profileId, photo, (percent) => {
+          onStateChange?.(index, { status: 'uploading', percent })
+        })
+        onStateChange?.(index, { status: 'uploaded', photo: result })
+        return result
+      } catch (error) {
+        onStateChange?.(index, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Upload failed',
+        })
+        throw error
+      }
+    })
+  )
+
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failures.length > 0) {
+    // Photos that did upload are reported through onStateChange so a retry can skip them
+    throw failures.length === 1
+      ? failures[0].reason
+      : new Error(`Failed to upload ${failures.length} of ${photos.length} photos`)
+  }
+
+  return results.map((result) => (result as PromiseFulfilledResult<UploadedReportPhoto>).value)
+}
+
+/**
+ * Remove uploaded photos that did not end up attached to a report
+ * @param photos - Photos to remove from the report-images bucket
+ */
+export const removeUploadedPhotos = async (photos: UploadedReportPhoto[]): Promise<void> => {
+  if (photos.length === 0) return
+
+  const paths = photos.flatMap((photo) =>
+    photo.thumbnail_path ? [photo.storage_path, photo.thumbnail_path] : [photo.storage_path]
+  )
+  const { error } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .remove(paths)
+
+  if (error) {
+    console.error('Error removing unused report photos:', error)
+  }
+}
+
+/**
+ * Create a report, its photo metadata and its pending contribution in a single database transaction
+ * @param input - Report, photos and contribution amount to save
+ * @param photos - Metadata of the already uploaded photos, in display order
+ * @returns Promise that resolves to the created (or previously created) record
+ */
+export const createReportWithTransaction = async (
+  input: IncidentReportInput,
+  photos: UploadedReportPhoto[]
+): Promise<CreatedIncidentReport> => {
+  try {
+    const { data, error } = await supabase.rpc('create_report_with_transaction', {
+      new_report_id: input.id,
+      new_location_string: input.location,
+      new_description: input.description,
+      new_category: input.category,
+      new_severity: input.severity,
+      new_latitude: input.latitude,
+      new_longitude: input.longitude,
+      new_address: input.address ?? null,
+      new_contribution_amount: input.contributionAmount,
+      new_photos: photos,
+    })
+
+    if (error) {
+      throw new Error(`Failed to save report: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error creating report with transaction:', error)
+    throw error
+  }
+}
+
+/**
+ * Upload the report photos, then create the report and its pending contribution atomically
+ * @param input - Report, photos and contribution amount to save
+ * @param photoOptions - Earlier uploads and a callback for each photo's progress
+ * @returns Promise that resolves to the created report, photos and transaction
+ */
+export const submitIncidentReport = async (
+  input: IncidentReportInput,
+  photoOptions?: PhotoUploadOptions
+): Promise<CreatedIncidentReport> => {
+  try {
+    const uploadedPhotos = input.photos.length > 0
+      ? await uploadReportPhotos(input.profileId, input.photos, photoOptions)
+      : []
+
+    let created: CreatedIncidentReport
+    try {
+      created = await createReportWithTransaction(input, uploadedPhotos)
+    } catch (error) {
+      // Nothing was written to the database, so the uploads would be orphaned
+      if (!isNetworkError(error)) {
+        await removeUploadedPhotos(uploadedPhotos)
+      }
+      throw error
+    }
+
+    // A replay of an earlier successful submission keeps its original photos
+    const attachedPaths = new Set(created.photos.map((photo) => photo.storage_path))
+    await removeUploadedPhotos(uploadedPhotos.filter((photo) => !attachedPaths.has(photo.storage_path)))
+
+    return created
+  } catch (error) {
+    console.error('Error submitting incident report:', error)
+    throw error
+  }
+}
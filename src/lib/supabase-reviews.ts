@@ -0,0 +1,207 @@
+// lib/supabase-reviews.ts
+import { supabase, type Profile } from './supabase'
+import type { Tables } from './database.types'
+import { withReviewPhotoUrls, type ContractorReview } from './supabase-contractor-stats'
+import { processPhoto } from './image-processing'
+
+export type JobAssignment = Tables<'job_assignments'> & {
+  contractor?: Pick<Profile, 'name' | 'profession'>
+}
+
+export interface ContractorPublicSummary {
+  jobsCompleted: number
+  averageRating: number | null
+  reviewCount: number
+}
+
+export interface NewContractorReview {
+  assignment: Pick<JobAssignment, 'id' | 'report_id' | 'contractor_id'>
+  reviewerId: string
+  rating: number
+  comment?: string
+  photos?: File[]
+}
+
+/**
+ * Fetch the contractor assignment for a report
+ * @param reportId - Report ID
+ * @returns Promise that resolves to the assignment or null if nobody is assigned
+ */
+export const fetchAssignmentForReport = async (reportId: string): Promise<JobAssignment | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('job_assignments')
+      .select(`
+        *,
+        contractor:public_contractor_profiles!job_assignments_contractor_id_fkey (
+          name,
+          profession
+        )
+      `)
+      .eq('report_id', reportId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch assignment: ${error.message}`)
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error fetching assignment for report:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the review left on a report, if any
+ * @param reportId - Report ID
+ * @returns Promise that resolves to the review or null
+ */
+export const fetchReviewForReport = async (reportId: string): Promise<ContractorReview | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('contractor_reviews')
+      .select('*')
+      .eq('report_id', reportId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch review: ${error.message}`)
+    }
+
+    return data && withReviewPhotoUrls(data)
+  } catch (error) {
+    console.error('Error fetching review for report:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch reviews left for a contractor, newest first
+ * @param contractorId - Contractor's profile ID
+ * @param limit - Maximum number of reviews to return
+ * @returns Promise that resolves to array of reviews
+ */
+export const fetchContractorReviews = async (
+  contractorId: string,
+  limit?: number
+): Promise<ContractorReview[]> => {
+  try {
+    let query = supabase
+      .from('contractor_reviews')
+      .select('*')
+      .eq('contractor_id', contractorId)
+      .order('created_at', { ascending: false })
+
+    if (limit) {
+      query = query.limit(limit)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to fetch reviews: ${error.message}`)
+    }
+
+    return (data || []).map(withReviewPhotoUrls)
+  } catch (error) {
+    console.error('Error fetching contractor reviews:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the public rating summary shown on a contractor's profile page
+ * @param contractorId - Contractor's profile ID
+ * @returns Promise that resolves to the summary
+ */
+export const fetchContractorPublicSummary = async (contractorId: string): Promise<ContractorPublicSummary> => {
+  try {
+    const { data, error } = await supabase.rpc('get_contractor_public_summary', {
+      target_contractor_id: contractorId
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch contractor summary: ${error.message}`)
+    }
+
+    const row = data?.[0]
+
+    return {
+      jobsCompleted: Number(row?.jobs_completed ?? 0),
+      averageRating: row?.average_rating != null ? Number(row.average_rating) : null,
+      reviewCount: Number(row?.review_count ?? 0)
+    }
+  } catch (error) {
+    console.error('Error fetching contractor summary:', error)
+    throw error
+  }
+}
+
+/**
+ * Upload "after" photos for a review to storage, resized and without EXIF metadata
+ * @param reviewerId - Reviewer's profile ID (used as the storage folder)
+ * @param photos - Image files to upload
+ * @returns Promise that resolves to the storage paths of the uploaded photos
+ */
+export const uploadReviewPhotos = async (reviewerId: string, photos: File[]): Promise<string[]> => {
+  const uploads = photos.map(async (original) => {
+    const { file: photo } = await processPhoto(original)
+    const filePath = `${reviewerId}/reviews/${crypto.randomUUID()}.jpg`
+
+    const { error } = await supabase.storage
+      .from('report-images')
+      .upload(filePath, photo)
+
+    if (error) {
+      throw new Error(`Failed to upload photo: ${error.message}`)
+    }
+
+    return filePath
+  })
+
+  return Promise.all(uploads)
+}
+
+/**
+ * Rate the contractor assigned to a resolved report
+ * @param review - Review details
+ * @returns Promise that resolves to the created review
+ */
+export const submitContractorReview = async (review: NewContractorReview): Promise<ContractorReview> => {
+  if (review.rating < 1 || review.rating > 5) {
+    throw new Error('Rating must be between 1 and 5 stars')
+  }
+
+  try {
+    const photoPaths = review.photos && review.photos.length > 0
+      ? await uploadReviewPhotos(review.reviewerId, review.photos)
+      : []
+
+    const { data, error } = await supabase
+      .from('contractor_reviews')
+      .insert({
+        assignment_id: review.assignment.id,
+        report_id: review.assignment.report_id,
+        contractor_id: review.assignment.contractor_id,
+        reviewer_id: review.reviewerId,
+        rating: review.rating,
+        comment: review.comment?.trim() || null,
+        photo_paths: photoPaths
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('You have already reviewed this job')
+      }
+      throw new Error(`Failed to submit review: ${error.message}`)
+    }
+
+    return withReviewPhotoUrls(data)
+  } catch (error) {
+    console.error('Error submitting review:', error)
+    throw error
+  }
+}
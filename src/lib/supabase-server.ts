@@ -0,0 +1,32 @@
+// lib/supabase-server.ts
+// Server-only: acts as the signed-in user by reading the request's auth cookies.
+import { cookies } from 'next/headers'
+import { createServerClient } from '@supabase/ssr'
+import type { Database } from './database.types'
+
+/**
+ * Create a Supabase client for route handlers and server components
+ * @returns Promise that resolves to a client bound to the current request's session
+ */
+export const createServerSupabaseClient = async () => {
+  const cookieStore = await cookies()
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+          } catch {
+            // Server components cannot set cookies; the middleware refreshes the session instead
+          }
+        }
+      }
+    }
+  )
+}
@@ -1,17 +1,15 @@
-import { createClient } from "@supabase/supabase-js"
+import { createBrowserClient } from "@supabase/ssr"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database, Tables } from "./database.types"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+export type TypedSupabaseClient = SupabaseClient<Database>
 
-export type Profile = {
-  id: string
-  name: string
-  age: number
-  gender: string
-  profession: string
-  role: "Citizen" | "Contractor"
-  created_at: string
-  updated_at: string
-}
+// Keeps the session in cookies so src/middleware.ts can see who is signed in
+export const supabase: TypedSupabaseClient = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey)
+
+export type Profile = Tables<"profiles">
+export type Report = Tables<"reports">
+export type Transaction = Tables<"transactions">
@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import type { Database } from '@/lib/database.types'
+import {
+  HOME_PATH,
+  LOGIN_PATH,
+  buildLoginPath,
+  getRouteRule,
+  getSafeRedirectPath,
+  isRoleAllowed
+} from '@/lib/route-access'
+
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        }
+      }
+    }
+  )
+
+  // Also refreshes an expired session, so it has to run on every request
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // Redirects must carry any refreshed session cookies along
+  const redirectTo = (path: string) => {
+    const redirect = NextResponse.redirect(new URL(path, request.url))
+    response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie))
+    return redirect
+  }
+
+  const { pathname, search } = request.nextUrl
+
+  if (pathname === LOGIN_PATH) {
+    return user
+      ? redirectTo(getSafeRedirectPath(request.nextUrl.searchParams.get('next'), request.url))
+      : response
+  }
+
+  const rule = getRouteRule(pathname)
+  if (!rule) {
+    return response
+  }
+
+  if (!user) {
+    return redirectTo(buildLoginPath(`${pathname}${search}`))
+  }
+
+  if (rule.roles) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    // The home page asks for the profile when there is none yet
+    if (!profile || !isRoleAllowed(rule, profile.role)) {
+      return redirectTo(HOME_PATH)
+    }
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: [
+    // Skip API routes, Next.js assets, the service worker and static files
+    '/((?!api/|_next/static|_next/image|favicon.ico|sw.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'
+  ]
+}